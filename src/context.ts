@@ -1,57 +1,256 @@
-import { startElectron } from 'wdio-electron-service';
+import ElectronWorkerService from 'wdio-electron-service';
+import { remote } from 'webdriverio';
+import type { KeyAction, PointerAction } from 'webdriverio';
+import * as path from 'path';
 import {
   PageSnapshot,
+  SnapshotMode,
+  SnapshotDiff,
+  SnapshotQuery,
+  SnapshotPage,
+  AXSnapshotNode,
+  FrameSegment,
   ElementInfo,
   ElectronAppConfig,
+  ElectronAttachConfig,
+  ChromedriverConfig,
+  RecoveryConfig,
+  AppFailure,
   ConsoleLogEntry,
   NetworkEntry,
   RecordedAction,
+  ModifierKey,
   MockResponse,
-  SessionState
+  ApiMock,
+  ApiMockCall,
+  IpcMessage,
+  MenuItemInfo,
+  MenuKind,
+  WindowInfo,
+  WindowTarget,
+  WindowState,
+  WindowStateChange,
+  WindowBounds,
+  SessionState,
+  SessionInfo
 } from './types.js';
+import { Session, SessionRegistry, WdioBrowser, DEFAULT_SESSION_ID } from './session.js';
+import { AppMonitor, BROWSER_LOGGING_CAPABILITY } from './monitor.js';
 import { logger } from './utils/logger.js';
-import { detectElectronVersion } from './utils/electron-detector.js';
+import { detectElectronVersion, detectPackagedApp } from './utils/electron-detector.js';
+import { resolveDebuggerEndpoint } from './utils/debugger-endpoint.js';
+import { startElectronApp } from './utils/electron-launcher.js';
+import { findChromedriver, resolveChromedriver, DEFAULT_CHROMEDRIVER_CACHE_DIR } from './utils/chromedriver.js';
+import { createUserDataDir, removeUserDataDir } from './utils/user-data.js';
+import { waitForReadiness } from './utils/readiness.js';
+import { apiMockKey, buildMockScript, GET_MOCK_CALLS_SCRIPT, RESET_MOCK_SCRIPT, RESTORE_MOCK_SCRIPT } from './utils/api-mocks.js';
+import {
+  START_IPC_CAPTURE_SCRIPT,
+  STOP_IPC_CAPTURE_SCRIPT,
+  DRAIN_IPC_SCRIPT,
+  CLEAR_IPC_SCRIPT,
+  SEND_IPC_SCRIPT,
+  INVOKE_IPC_SCRIPT
+} from './utils/ipc-capture.js';
+import { CONTEXT_MENU_HOOK_SCRIPT, CONTEXT_MENU_UNHOOK_SCRIPT, GET_MENU_SCRIPT, CLICK_MENU_SCRIPT, TRIGGER_ACCELERATOR_SCRIPT } from './utils/menus.js';
+import { SET_WINDOW_MARKER_SCRIPT, WINDOW_STATE_SCRIPT } from './utils/window-state.js';
+import { startVirtualDisplay, stopVirtualDisplay, getHeadlessSwitches } from './utils/virtual-display.js';
+import {
+  DOM_SNAPSHOT_SCRIPT,
+  RESOLVE_DOM_PATH_SCRIPT,
+  WEBVIEW_URL_SCRIPT,
+  SELECTOR_PATH_SCRIPT,
+  IN_VIEWPORT_SCRIPT,
+  INTERACTIVE_SELECTORS,
+  MAX_SNAPSHOT_ELEMENTS,
+  DomSnapshotEntry,
+  WebviewEntry
+} from './utils/dom-snapshot.js';
+import { diffSnapshots } from './utils/snapshot-diff.js';
+import { MODIFIER_KEYS, KeyChord, keyValue } from './utils/keys.js';
+import { SCROLL_INTO_VIEW_SCRIPT } from './utils/scroll.js';
+import { ACTIONABILITY_SCRIPT, ActionabilityOptions, ActionabilityResult } from './utils/actionability.js';
+import { scopeOf, isWithin, matchesFilters, encodeCursor, decodeCursor } from './utils/snapshot-query.js';
+import { buildAXSnapshot, attachFrameAXTree, formatAXTree, renameAXTreeRefs, CDPAXNode, CDPDOMNode } from './utils/ax-tree.js';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type WdioElement = any;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type WdioBrowser = any;
+
+// Elements found in one document (and its same-origin frames) before stable refs are assigned
+interface DocumentDiscovery {
+  elements: Map<string, ElementInfo>;
+  total: number;
+  tree?: AXSnapshotNode[];
+  webviews: WebviewEntry[];
+}
+
+interface CDPFrameTree {
+  frame: { id: string; url: string };
+  childFrames?: CDPFrameTree[];
+}
+
+interface CDPTargetInfo {
+  targetId: string;
+  type: string;
+  url: string;
+}
+
+// Screen size for headless launches without a windowSize
+const DEFAULT_WINDOW_SIZE = { width: 1280, height: 720 };
+const DEFAULT_ACTION_TIMEOUT = 5000;
+const ACTIONABILITY_INTERVAL = 100;
+
+const MAIN_PROCESS_UNAVAILABLE =
+  'The main process is not reachable from this session. The app needs the wdio-electron-service hooks: ' +
+  "import 'wdio-electron-service/main' in the main process and 'wdio-electron-service/preload' in the preload script.";
+
+const WINDOW_INFO_SCRIPT = `return {
+  title: document.title,
+  url: location.href,
+  x: window.screenX,
+  y: window.screenY,
+  width: window.outerWidth,
+  height: window.outerHeight,
+  focused: document.hasFocus(),
+  visible: document.visibilityState === 'visible'
+}`;
 
 export class Context {
-  private browser: WdioBrowser | null = null;
-  private snapshot: PageSnapshot | null = null;
-  private appConfig: ElectronAppConfig | null = null;
+  private readonly registry: SessionRegistry;
+  private readonly pinnedSessionId: string | null;
+
+  constructor(registry?: SessionRegistry, pinnedSessionId?: string) {
+    this.registry = registry ?? { sessions: new Map(), currentId: null };
+    this.pinnedSessionId = pinnedSessionId ?? null;
+  }
+
+  /**
+   * Get a view of this context bound to a named session. Without a session id
+   * the view follows whichever session is current.
+   */
+  forSession(sessionId?: string): Context {
+    if (!sessionId || sessionId === this.pinnedSessionId) {
+      return this;
+    }
+    return new Context(this.registry, sessionId);
+  }
+
+  get sessionId(): string {
+    return this.pinnedSessionId ?? this.registry.currentId ?? DEFAULT_SESSION_ID;
+  }
+
+  // The targeted session. Until it is opened, reads see an empty session that is not registered.
+  private get session(): Session {
+    return this.registry.sessions.get(this.sessionId) ?? new Session(this.sessionId);
+  }
+
+  // Register the targeted session; only launching, attaching and recording open one
+  private openSession(): Session {
+    const id = this.sessionId;
+    let session = this.registry.sessions.get(id);
+    if (!session) {
+      session = new Session(id);
+      this.registry.sessions.set(id, session);
+      if (!this.registry.currentId) {
+        this.registry.currentId = id;
+      }
+    }
+    return session;
+  }
+
+  // Recording state of the targeted session
+  get recordingEnabled(): boolean {
+    return this.session.recordingEnabled;
+  }
+
+  set recordingEnabled(enabled: boolean) {
+    this.openSession().recordingEnabled = enabled;
+  }
 
-  // CDP data
-  private consoleLogs: ConsoleLogEntry[] = [];
-  private networkEntries: NetworkEntry[] = [];
-  private mockResponses: MockResponse[] = [];
-  private cdpSession: unknown = null;
+  get actionHistory(): RecordedAction[] {
+    return this.session.actionHistory;
+  }
+
+  set actionHistory(actions: RecordedAction[]) {
+    this.openSession().actionHistory = actions;
+  }
+
+  // Session management
+  listSessions(): SessionInfo[] {
+    return Array.from(this.registry.sessions.values()).map(session => ({
+      id: session.id,
+      isCurrent: session.id === this.registry.currentId,
+      isConnected: session.browser !== null,
+      connectionType: session.connectionType,
+      appPath: session.appPath,
+      health: session.monitor?.health,
+      recordingEnabled: session.recordingEnabled,
+      actionCount: session.actionHistory.length,
+      createdAt: session.createdAt
+    }));
+  }
+
+  switchSession(sessionId: string): void {
+    if (!this.registry.sessions.has(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}. Available sessions: ${Array.from(this.registry.sessions.keys()).join(', ') || 'none'}`);
+    }
+    this.registry.currentId = sessionId;
+    logger.info(`Switched to session: ${sessionId}`);
+  }
 
-  // Recording state
-  public recordingEnabled = false;
-  public actionHistory: RecordedAction[] = [];
+  /**
+   * Close the session's app and forget the session, including its recording
+   */
+  async closeSession(sessionId: string = this.sessionId): Promise<void> {
+    if (!this.registry.sessions.has(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    await this.forSession(sessionId).close();
+    this.registry.sessions.delete(sessionId);
+
+    if (this.registry.currentId === sessionId) {
+      const remaining = Array.from(this.registry.sessions.keys());
+      this.registry.currentId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+    }
+    logger.info(`Session closed: ${sessionId}`);
+  }
+
+  async closeAllSessions(): Promise<void> {
+    for (const sessionId of Array.from(this.registry.sessions.keys())) {
+      await this.closeSession(sessionId);
+    }
+  }
 
   async launchApp(config: ElectronAppConfig): Promise<void> {
-    if (this.browser) {
+    const session = this.openSession();
+    if (session.browser) {
       await this.close();
     }
 
-    this.appConfig = config;
+    session.appConfig = config;
+    session.relaunchCount = 0;
+    session.lastFailure = null;
 
-    // Detect Electron version from target app
-    const appDir = config.cwd || config.binaryPath.replace(/\/node_modules\/.*/, '');
-    const electronInfo = await detectElectronVersion(appDir);
+    // Detect Electron version from target app - packaged builds first, then a development checkout
+    const packagedInfo = config.binaryPath ? await detectPackagedApp(config.binaryPath) : null;
+    const appDir = packagedInfo
+      ? config.cwd || path.dirname(packagedInfo.binaryPath)
+      : config.cwd || config.binaryPath.replace(/\/node_modules\/.*/, '');
+    const electronInfo = packagedInfo || await detectElectronVersion(appDir);
 
     if (!electronInfo) {
-      throw new Error(`Could not detect Electron version from ${appDir}. Make sure the app has electron installed.`);
+      throw new Error(
+        `Could not detect Electron version from ${appDir}. Make sure the app has electron installed, ` +
+        'or point binaryPath at a packaged build (linux-unpacked directory, extracted AppImage or app binary).'
+      );
     }
 
     logger.info(`Launching Electron app: ${config.binaryPath}`);
-    logger.info(`Detected Electron v${electronInfo.version} (Chromium ${electronInfo.chromiumVersion})`);
+    logger.info(`Detected Electron v${electronInfo.version} (Chromium ${electronInfo.chromiumVersion || 'unknown'})`);
 
-    // Use the detected binary path if not explicitly provided
-    const binaryPath = config.binaryPath || electronInfo.binaryPath;
+    // Use the detected binary path if not explicitly provided, or if a packaged app was detected
+    const binaryPath = electronInfo.isPackaged ? electronInfo.binaryPath : config.binaryPath || electronInfo.binaryPath;
 
     if (!binaryPath) {
       throw new Error('Could not find Electron binary. Please provide binaryPath in config.');
@@ -60,42 +259,185 @@ export class Context {
     // Use appBinaryPath with appArgs
     // For development mode, use --app= flag to specify the app directory
     // wdio-electron-service passes appArgs as Chrome args, and --app= is how Electron loads an app
+    // Packaged apps load their bundled resources/app.asar themselves
     const appArgs = config.args && config.args.length > 0
-      ? config.args
-      : [`--app=${appDir}`];  // Default: use --app= flag with app directory
+      ? [...config.args]
+      : electronInfo.isPackaged ? [] : [`--app=${appDir}`];  // Default: use --app= flag with app directory
 
-    logger.info(`Launching with appBinaryPath: ${binaryPath}`);
-    logger.info(`App args: ${appArgs.join(', ')}`);
+    if (config.switches) {
+      appArgs.push(...config.switches);
+    }
 
-    this.browser = await startElectron({
-      appBinaryPath: binaryPath,
-      appArgs
-    });
+    // Before anything is allocated: a missing chromedriver fails the launch with nothing to clean up
+    const chromedriverPath = this.selectChromedriver(electronInfo.chromiumVersion, `Electron ${electronInfo.version}`, config.chromedriver);
+
+    // Everything from the first allocation on is released again if the launch fails
+    try {
+      // Fresh profile per launch so state does not leak between tests
+      if (config.isolateUserData || config.userDataFixture) {
+        session.userDataDir = await createUserDataDir(config.userDataFixture);
+        appArgs.push(`--user-data-dir=${session.userDataDir}`);
+      }
+
+      // Headless: a private Xvfb screen the size of the window, so screenshots match windowSize
+      if (config.headless) {
+        const size = config.windowSize ?? DEFAULT_WINDOW_SIZE;
+        session.virtualDisplay = await startVirtualDisplay(size.width, size.height);
+        for (const headlessSwitch of getHeadlessSwitches()) {
+          if (!appArgs.includes(headlessSwitch)) appArgs.push(headlessSwitch);
+        }
+      }
+
+      logger.info(`Launching with appBinaryPath: ${binaryPath}`);
+      logger.info(`App args: ${appArgs.join(', ')}`);
+
+      session.browser = await startElectronApp({
+        appBinaryPath: binaryPath,
+        appArgs,
+        appDir,
+        electronVersion: electronInfo.version,
+        chromedriverPath,
+        chromedriverCacheDir: config.chromedriver?.cacheDir || DEFAULT_CHROMEDRIVER_CACHE_DIR,
+        env: session.virtualDisplay ? { ...config.env, DISPLAY: session.virtualDisplay.display } : config.env,
+        cwd: config.cwd
+      });
+    } catch (err) {
+      await this.releaseLaunchResources(session);
+      session.resetAppState();
+      throw err;
+    }
+
+    // The most recently launched app becomes the current session
+    this.registry.currentId = session.id;
+
+    // A launch that fails from here on quits the app and frees its profile and display
+    try {
+      // Wait until the app is ready, by default until the first window has loaded
+      if (config.waitForFirstWindow !== false) {
+        await waitForReadiness(session.browser, config.readiness ?? { mode: 'load' }, config.waitTimeout ?? 10000);
+      }
+
+      // Set window size if specified
+      if (config.windowSize) {
+        await this.applyLaunchWindowSize(session.browser, config.windowSize.width, config.windowSize.height);
+      }
+
+      // Initialize CDP session for advanced features
+      await this.initializeCDP();
+
+      await this.registerWindows();
+      await this.startMonitor(session, config.recovery);
+      await this.installMenuHooks(session);
+    } catch (err) {
+      await this.close();
+      throw err;
+    }
+
+    logger.info(`Electron app launched successfully in session: ${session.id}`);
+  }
+
+  /**
+   * Pick a local chromedriver for the app's Chromium version. Without one,
+   * WebdriverIO downloads it into the cache dir unless downloads are disabled.
+   */
+  private selectChromedriver(chromiumVersion: string | undefined, appName: string, config: ChromedriverConfig = {}): string | undefined {
+    const offline = config.download === false;
+
+    if (!chromiumVersion) {
+      if (offline) {
+        throw new Error(
+          `Could not determine the Chromium version of ${appName}, so no matching chromedriver can be selected offline. ` +
+          'Check that the Electron binary can run, or enable downloads.'
+        );
+      }
+      return undefined;
+    }
+
+    if (offline) {
+      return resolveChromedriver(chromiumVersion, config);
+    }
+
+    const match = findChromedriver(chromiumVersion, config);
+    if (!match) {
+      logger.info(`No local chromedriver for Chromium ${chromiumVersion}; WebdriverIO will download one`);
+    }
+    return match?.path;
+  }
+
+  /**
+   * Attach to an app already running with --remote-debugging-port. Closing the
+   * session later detaches WebDriver and leaves the app process running.
+   */
+  async attachApp(config: ElectronAttachConfig): Promise<void> {
+    const session = this.openSession();
+    if (session.browser) {
+      await this.close();
+    }
 
-    // Wait for first window if requested
-    if (config.waitForFirstWindow !== false) {
-      await this.browser.pause(1000);
+    const endpoint = await resolveDebuggerEndpoint(config);
+    const chromedriverPath = this.selectChromedriver(endpoint.chromiumVersion, `the app at ${endpoint.address}`, config.chromedriver);
+
+    logger.info(`Attaching to Electron app at ${endpoint.address}`);
+
+    const capabilities: WebdriverIO.Capabilities = {
+      browserName: 'chrome',
+      'goog:chromeOptions': {
+        debuggerAddress: endpoint.address,
+        windowTypes: ['app', 'webview']
+      },
+      'wdio:enforceWebDriverClassic': true,
+      ...BROWSER_LOGGING_CAPABILITY
+    };
+    if (endpoint.chromiumVersion) {
+      capabilities.browserVersion = endpoint.chromiumVersion;
+      // Chromedriver connects to debuggerAddress and never starts this binary. Naming one keeps
+      // WebdriverIO from downloading Chrome for Testing just to learn the browser version.
+      capabilities['goog:chromeOptions']!.binary = process.execPath;
     }
+    capabilities['wdio:chromedriverOptions'] = chromedriverPath
+      ? { binary: chromedriverPath }
+      : { cacheDir: config.chromedriver?.cacheDir || DEFAULT_CHROMEDRIVER_CACHE_DIR };
+
+    session.browser = await remote({ capabilities });
+    session.attachConfig = config;
+    session.debuggerAddress = endpoint.address;
 
-    // Set window size if specified - use JavaScript since WebDriver setWindowSize doesn't work
-    if (config.windowSize) {
-      await this.setWindowSizeViaJS(config.windowSize.width, config.windowSize.height);
+    // The most recently connected app becomes the current session
+    this.registry.currentId = session.id;
+
+    // Expose browser.electron like startElectron does; main-process access needs the app's preload bridge
+    try {
+      await new ElectronWorkerService().before(capabilities, [], session.browser);
+    } catch (err) {
+      logger.warn('Electron service API not available on attached app:', err);
     }
 
-    // Initialize CDP session for advanced features
-    await this.initializeCDP();
+    session.lastFailure = null;
 
-    logger.info('Electron app launched successfully');
+    // An attach that fails from here on detaches again, leaving the app as it was
+    try {
+      await this.initializeCDP();
+
+      await this.registerWindows();
+      await this.startMonitor(session);
+      await this.installMenuHooks(session);
+    } catch (err) {
+      await this.close();
+      throw err;
+    }
+
+    logger.info(`Attached to Electron app in session: ${session.id}`);
   }
 
   private async initializeCDP(): Promise<void> {
-    if (!this.browser) return;
+    const session = this.session;
+    if (!session.browser) return;
 
     try {
       // Enable CDP domains for console and network monitoring
-      this.cdpSession = await (this.browser as unknown as { getPuppeteer: () => Promise<unknown> }).getPuppeteer?.();
+      session.cdpSession = await (session.browser as unknown as { getPuppeteer: () => Promise<unknown> }).getPuppeteer?.();
 
-      if (this.cdpSession) {
+      if (session.cdpSession) {
         logger.debug('CDP session initialized');
       }
     } catch (err) {
@@ -104,56 +446,331 @@ export class Context {
   }
 
   async getBrowser(): Promise<WdioBrowser> {
-    if (!this.browser) {
-      throw new Error('Electron app not launched. Call launchApp() first.');
+    const session = this.session;
+
+    // Wait for an automatic relaunch in progress
+    if (session.recovery) {
+      await session.recovery;
     }
-    return this.browser;
+
+    if (!session.browser) {
+      throw new Error(`Electron app not launched in session "${this.sessionId}". Call launchApp() first.`);
+    }
+
+    const health = session.monitor?.health;
+    if ((health === 'crashed' || health === 'exited') && session.lastFailure) {
+      throw new Error(`${describeFailure(session.id, session.lastFailure)} Launch it again with electron_launch.`);
+    }
+
+    return session.browser;
+  }
+
+  /**
+   * Messages about things that happened between tool calls (crashes, relaunches), cleared once read
+   */
+  takeNotices(): string[] {
+    const session = this.registry.sessions.get(this.sessionId);
+    if (!session || session.notices.length === 0) {
+      return [];
+    }
+    return session.notices.splice(0);
+  }
+
+  private async startMonitor(session: Session, recovery: RecoveryConfig = {}): Promise<void> {
+    const monitor = new AppMonitor(session.browser, session.id, {
+      checkInterval: recovery.checkInterval ?? 2000,
+      hangTimeout: recovery.hangTimeout ?? 10000,
+      onFailure: failure => this.handleAppFailure(session, failure)
+    });
+    session.monitor = monitor;
+    await monitor.start();
+  }
+
+  // Capture context menus from the start, before the app pops one up
+  private async installMenuHooks(session: Session): Promise<void> {
+    if (!session.browser?.electron?.bridgeActive) return;
+    try {
+      await session.browser.electron.execute(CONTEXT_MENU_HOOK_SCRIPT);
+    } catch (err) {
+      logger.warn('Could not install context menu capture:', err);
+    }
+  }
+
+  private async removeMenuHooks(session: Session): Promise<void> {
+    if (!session.browser?.electron?.bridgeActive) return;
+    try {
+      await session.browser.electron.execute(CONTEXT_MENU_UNHOOK_SCRIPT);
+    } catch (err) {
+      logger.debug('Could not remove context menu capture:', err);
+    }
+  }
+
+  private handleAppFailure(session: Session, failure: AppFailure): void {
+    session.lastFailure = failure;
+
+    if (failure.type === 'hang') {
+      session.notices.push(`Warning: ${describeFailure(session.id, failure)}`);
+      return;
+    }
+
+    const recovery = session.appConfig?.recovery;
+    const maxRelaunches = recovery?.maxRelaunches ?? 3;
+    if (!recovery?.autoRelaunch || !session.appConfig) {
+      session.notices.push(`Warning: ${describeFailure(session.id, failure)}`);
+      return;
+    }
+    if (session.relaunchCount >= maxRelaunches) {
+      session.notices.push(`Warning: ${describeFailure(session.id, failure)} Not relaunching: already relaunched ${maxRelaunches} times.`);
+      return;
+    }
+
+    session.recovery = this.relaunch(session, failure).finally(() => {
+      session.recovery = null;
+    });
+  }
+
+  /**
+   * Relaunch a crashed app with its previous config and last known window size
+   */
+  private async relaunch(session: Session, failure: AppFailure): Promise<void> {
+    const previousConfig = session.appConfig!;
+    const windowSize = session.monitor?.lastWindowSize ?? previousConfig.windowSize;
+    const relaunchCount = session.relaunchCount + 1;
+    const currentId = this.registry.currentId;
+
+    logger.info(`Relaunching app in session ${session.id} (attempt ${relaunchCount})`);
+
+    try {
+      await this.forSession(session.id).launchApp({ ...previousConfig, windowSize });
+      session.relaunchCount = relaunchCount;
+      session.lastFailure = failure;
+
+      const size = windowSize ? ` with window size ${windowSize.width}x${windowSize.height}` : '';
+      session.notices.push(
+        `Warning: ${describeFailure(session.id, failure)} The app was relaunched automatically${size} ` +
+        `(relaunch ${relaunchCount} of ${previousConfig.recovery?.maxRelaunches ?? 3}). Take a new snapshot: earlier element refs are no longer valid.`
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      session.notices.push(`Warning: ${describeFailure(session.id, failure)} Automatic relaunch failed: ${message}`);
+    } finally {
+      this.registry.currentId = currentId;
+    }
+  }
+
+  isAttached(): boolean {
+    return this.registry.sessions.get(this.sessionId)?.connectionType === 'attached';
   }
 
   isConnected(): boolean {
-    return this.browser !== null;
+    return (this.registry.sessions.get(this.sessionId)?.browser ?? null) !== null;
   }
 
-  async captureSnapshot(): Promise<PageSnapshot> {
+  /**
+   * Capture the active window. Without a mode, the mode of the previous snapshot is kept.
+   */
+  async captureSnapshot(mode?: SnapshotMode): Promise<PageSnapshot> {
     const browser = await this.getBrowser();
+    const snapshotMode = mode ?? this.session.snapshot?.mode ?? 'dom';
+    const startedAt = Date.now();
 
+    const windowHandle = await this.getActiveWindowHandle(browser);
+    const windowId = this.getWindowId(windowHandle);
     const title = await browser.getTitle();
     const url = await browser.getUrl();
-    const elements = await this.discoverElements();
 
-    this.snapshot = {
+    const snapshot: PageSnapshot = {
       title,
       url,
-      elements,
+      windowId,
+      windowHandle,
+      mode: snapshotMode,
+      elements: new Map(),
+      totalElements: 0,
+      captureTime: 0,
       timestamp: Date.now()
     };
 
-    return this.snapshot;
+    const discovery = snapshotMode === 'ax' ? await this.discoverAXTree() : await this.discoverElements();
+    const discovered = Array.from(discovery.elements.values());
+    snapshot.axTree = discovery.tree;
+    snapshot.totalElements = discovery.total;
+
+    // <webview> guests are separate pages, discovered one by one
+    for (const [i, webview] of discovery.webviews.entries()) {
+      const guest = await this.discoverWebview(browser, snapshotMode, webview, `g${i + 1}.`);
+      if (!guest) continue;
+      discovered.push(...guest.elements.values());
+      snapshot.totalElements += guest.total;
+      snapshot.axTree?.push({ role: 'webview', name: webview.segment.label, states: [], children: guest.tree ?? [] });
+    }
+
+    // Discovery numbers elements in document order; swap those for stable refs
+    const refs = this.session.elementRefs.assign(windowId, windowRefPrefix(windowId), discovered);
+    for (const info of discovered) {
+      const ref = refs.get(info.ref)!;
+      snapshot.elements.set(ref, { ...info, ref, parentRef: info.parentRef && refs.get(info.parentRef) });
+    }
+    if (snapshot.axTree) {
+      renameAXTreeRefs(snapshot.axTree, refs);
+    }
+    snapshot.captureTime = Date.now() - startedAt;
+    this.session.snapshot = snapshot;
+    this.session.windowSnapshots.set(windowId, snapshot);
+
+    return snapshot;
+  }
+
+  /**
+   * Capture the active window and compare it with the window's previous snapshot.
+   * Returns null when there is no previous snapshot of the window.
+   */
+  async diffSnapshot(mode?: SnapshotMode): Promise<{ snapshot: PageSnapshot; diff: SnapshotDiff | null }> {
+    const browser = await this.getBrowser();
+    const windowId = this.getWindowId(await this.getActiveWindowHandle(browser));
+    const previous = this.session.windowSnapshots.get(windowId);
+
+    const snapshot = await this.captureSnapshot(mode);
+    return { snapshot, diff: previous ? diffSnapshots(previous, snapshot) : null };
   }
 
   async getSnapshot(): Promise<PageSnapshot> {
-    if (!this.snapshot) {
+    const { snapshot } = this.session;
+    if (!snapshot) {
       return this.captureSnapshot();
     }
-    return this.snapshot;
+    return snapshot;
   }
 
-  formatSnapshotAsText(): string {
-    if (!this.snapshot) {
+  /**
+   * Capture a snapshot, or reuse the one a cursor points into, and pick the page of elements a query asks for
+   */
+  async querySnapshot(query: SnapshotQuery, mode?: SnapshotMode): Promise<SnapshotPage> {
+    let snapshot: PageSnapshot;
+    let offset = 0;
+    let elements: ElementInfo[];
+    let rootRef: string | undefined;
+
+    // Later pages page through the elements the first page matched, so they do not shift as the app changes
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      const current = this.session.snapshot;
+      const matches = this.session.snapshotMatches;
+      if (!current || current.timestamp !== cursor.timestamp || matches?.timestamp !== cursor.timestamp) {
+        throw new Error('The cursor belongs to an earlier snapshot. Take a new snapshot without a cursor.');
+      }
+      snapshot = current;
+      offset = cursor.offset;
+      elements = matches.refs.map(ref => current.elements.get(ref)!);
+      rootRef = matches.rootRef;
+    } else {
+      snapshot = await this.captureSnapshot(mode);
+      ({ elements, rootRef } = await this.matchSnapshot(snapshot, query));
+      this.session.snapshotMatches = { timestamp: snapshot.timestamp, refs: elements.map(el => el.ref), rootRef };
+    }
+
+    const limit = query.limit ?? elements.length;
+    const page = elements.slice(offset, offset + limit);
+    const next = offset + page.length;
+
+    return {
+      snapshot,
+      elements: page,
+      matched: elements.length,
+      offset,
+      nextCursor: next < elements.length ? encodeCursor(snapshot.timestamp, next) : undefined,
+      filtered: !!((query.root && !rootRef) || query.roles?.length || query.text || query.viewportOnly || page.length < elements.length),
+      rootRef
+    };
+  }
+
+  // The snapshot elements a query picks out, in document order
+  private async matchSnapshot(snapshot: PageSnapshot, query: SnapshotQuery): Promise<{ elements: ElementInfo[]; rootRef?: string }> {
+    let elements = Array.from(snapshot.elements.values());
+    let rootRef: string | undefined;
+
+    if (query.root) {
+      const root = snapshot.elements.get(query.root);
+      if (root) {
+        rootRef = root.ref;
+        const scope = scopeOf(root);
+        elements = elements.filter(el => scope ? isWithin(el, scope) : hasAncestorRef(snapshot, el, root.ref));
+      } else if (/^(w\d+\.)?(f\d+\.)?e\d+$/.test(query.root)) {
+        throw new Error(`Root ref ${query.root} is not in the snapshot of window ${snapshot.windowId}`);
+      } else {
+        const browser = await this.getBrowser();
+        await this.leaveFrame();
+        const domPath = await browser.execute(SELECTOR_PATH_SCRIPT, query.root) as string | null;
+        if (!domPath) {
+          throw new Error(`No element matches selector "${query.root}"`);
+        }
+        elements = elements.filter(el => isWithin(el, { frames: [], domPath }));
+      }
+    }
+
+    elements = elements.filter(el => matchesFilters(el, query));
+
+    if (query.viewportOnly) {
+      const inViewport = await this.getViewportFlags(elements);
+      elements = elements.filter((_el, i) => inViewport[i] !== false);
+    }
+
+    return { elements, rootRef };
+  }
+
+  // Whether each element overlaps the viewport now; null where that cannot be told
+  private async getViewportFlags(elements: ElementInfo[]): Promise<Array<boolean | null>> {
+    const browser = await this.getBrowser();
+    await this.leaveFrame();
+
+    const targets = elements.map(viewportTarget);
+    const flags = await browser.execute(IN_VIEWPORT_SCRIPT, targets.filter(target => target !== null)) as Array<boolean | null>;
+
+    let next = 0;
+    return targets.map(target => target === null ? null : flags[next++]);
+  }
+
+  /**
+   * The latest snapshot as text, or one page of it. AX snapshots print as a tree
+   * unless filters picked out single elements.
+   */
+  formatSnapshotAsText(page?: SnapshotPage, verbose = false): string {
+    const snapshot = page?.snapshot ?? this.session.snapshot;
+    if (!snapshot) {
       return 'No snapshot available';
     }
 
     const lines: string[] = [
-      `Window: ${this.snapshot.title}`,
-      `URL: ${this.snapshot.url}`,
-      '',
-      'Interactive Elements:'
+      `Window ${snapshot.windowId}: ${snapshot.title}`,
+      `URL: ${snapshot.url}`,
+      `Captured ${snapshot.elements.size} elements in ${snapshot.captureTime}ms`,
+      ''
     ];
 
-    for (const [ref, info] of this.snapshot.elements) {
-      const label = info.ariaLabel || info.text || info.role || info.tagName;
-      const enabled = info.isEnabled ? '' : ' [disabled]';
-      lines.push(`  [${ref}] ${info.tagName}: ${label.slice(0, 50)}${enabled}`);
+    const elements = page ? page.elements : Array.from(snapshot.elements.values());
+    if (page && (page.matched !== snapshot.elements.size || page.offset > 0)) {
+      lines.push(page.matched === 0
+        ? 'No elements match the filters'
+        : `Showing ${page.offset + 1}-${page.offset + elements.length} of ${page.matched} matching elements`);
+    }
+
+    const tree = snapshot.mode === 'ax' && !page?.filtered
+      ? (page?.rootRef ? findAXNode(snapshot.axTree ?? [], page.rootRef) : snapshot.axTree)
+      : undefined;
+
+    if (tree) {
+      lines.push('Accessibility Tree:', ...formatAXTree(tree, 1));
+    } else {
+      lines.push(snapshot.totalElements > snapshot.elements.size && !page
+        ? `Interactive Elements (first ${snapshot.elements.size} of ${snapshot.totalElements}):`
+        : 'Interactive Elements:');
+      for (const info of elements) {
+        lines.push(...formatElement(info, verbose));
+      }
+    }
+
+    if (page?.nextCursor) {
+      lines.push('', `More elements: call again with cursor "${page.nextCursor}"`);
     }
 
     return lines.join('\n');
@@ -164,158 +781,432 @@ export class Context {
     const info = snapshot.elements.get(ref);
 
     if (!info) {
+      const refWindowId = windowIdOfRef(ref);
+      if (refWindowId !== snapshot.windowId) {
+        throw new Error(
+          `Element ref ${ref} belongs to window ${refWindowId}, but the current snapshot is of window ${snapshot.windowId} ("${snapshot.title}"). ` +
+          `Switch with electron_windows(action: "switch", id: "${refWindowId}") to use it.`
+        );
+      }
+      if (this.session.elementRefs.isStale(snapshot.windowId, ref)) {
+        throw new Error(
+          `Stale element ref ${ref}: the element it pointed to is no longer in window ${snapshot.windowId}. ` +
+          'Take a new snapshot (or use electron_snapshot_diff) to see the current elements.'
+        );
+      }
       throw new Error(`Element ref not found: ${ref}. Available refs: ${Array.from(snapshot.elements.keys()).join(', ')}`);
     }
 
+    // Refs only resolve in the window they were taken from
+    const browser = await this.getBrowser();
+    if (await this.getActiveWindowHandle(browser) !== snapshot.windowHandle) {
+      throw new Error(
+        `Element ref ${ref} is from window ${snapshot.windowId} ("${snapshot.title}"), which is no longer the active window. ` +
+        `Switch back with electron_windows(action: "switch", id: "${snapshot.windowId}") or take a new snapshot.`
+      );
+    }
+
+    await this.enterFrames(browser, info.frames ?? []);
+
+    return this.locateElement(browser, info);
+  }
+
+  /**
+   * Resolve a ref and wait until a user could act on it: attached, visible, enabled,
+   * not moving and not covered at its centre. Throws naming the check that kept failing.
+   */
+  async getActionableElement(ref: string, options: ActionabilityOptions = {}): Promise<WdioElement> {
     const browser = await this.getBrowser();
+    const { appConfig, attachConfig } = this.session;
+    const timeout = appConfig?.actionTimeout ?? attachConfig?.actionTimeout ?? DEFAULT_ACTION_TIMEOUT;
+    const deadline = Date.now() + timeout;
+    const checks = { enabled: options.enabled !== false, hitTarget: options.hitTarget !== false };
+
+    let element = await this.revealElement(browser, ref);
+    for (;;) {
+      let result: ActionabilityResult;
+      try {
+        result = await browser.execute(ACTIONABILITY_SCRIPT, element, checks) as ActionabilityResult;
+      } catch (err) {
+        if (!/stale element/i.test(err instanceof Error ? err.message : String(err))) throw err;
+        result = { failed: 'attached', detail: 'it was removed from the page' };
+      }
+
+      if (!result.failed) return element;
+      if (Date.now() >= deadline) {
+        throw new Error(`Element ${ref} is not actionable after ${timeout}ms: ${result.detail} (${result.failed} check)`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, ACTIONABILITY_INTERVAL));
+      // A re-rendered element is found again through its ref
+      if (result.failed === 'attached') {
+        element = await this.revealElement(browser, ref);
+      }
+    }
+  }
+
+  // Actions happen where a user could see them, so the element is scrolled into view first
+  private async revealElement(browser: WdioBrowser, ref: string): Promise<WdioElement> {
+    const element = await this.getElementByRef(ref);
+    try {
+      await browser.execute(SCROLL_INTO_VIEW_SCRIPT, element);
+    } catch (err) {
+      logger.debug(`Could not scroll ${ref} into view:`, err);
+    }
+    return element;
+  }
+
+  private async locateElement(browser: WdioBrowser, info: ElementInfo): Promise<WdioElement> {
+    if (info.backendNodeId !== undefined) {
+      try {
+        return await this.resolveBackendNode(browser, info.backendNodeId, info.ref);
+      } catch (err) {
+        logger.debug(`Could not resolve ${info.ref} by DOM node, trying its DOM path:`, err);
+      }
+    }
+
+    if (info.domPath) {
+      const el = await browser.execute(RESOLVE_DOM_PATH_SCRIPT, info.domPath);
+      if (el) return el as WdioElement;
+      logger.debug(`Nothing at the DOM path of ${info.ref}, falling back to attributes`);
+    }
+
     return this.findElement(browser, info);
   }
 
   /**
-   * Set window size using JavaScript - works around Electron/Chromedriver limitation
+   * Run pointer actions with modifier keys held. The key source presses the
+   * modifiers while the pointer idles; everything is released afterwards.
    */
-  async setWindowSizeViaJS(width: number, height: number, x?: number, y?: number): Promise<boolean> {
-    if (!this.browser) return false;
-
-    const script = `
-      (function() {
-        // Try Electron's remote module (Electron < 14)
-        if (typeof require !== 'undefined') {
-          try {
-            const { remote } = require('electron');
-            if (remote && remote.getCurrentWindow) {
-              const win = remote.getCurrentWindow();
-              win.setSize(${width}, ${height});
-              ${x !== undefined && y !== undefined ? `win.setPosition(${x}, ${y});` : ''}
-              return { success: true, method: 'remote' };
-            }
-          } catch (e) {}
-
-          // Try @electron/remote (Electron 14+)
-          try {
-            const remote = require('@electron/remote');
-            if (remote && remote.getCurrentWindow) {
-              const win = remote.getCurrentWindow();
-              win.setSize(${width}, ${height});
-              ${x !== undefined && y !== undefined ? `win.setPosition(${x}, ${y});` : ''}
-              return { success: true, method: '@electron/remote' };
-            }
-          } catch (e) {}
-        }
+  async performPointerActions(steps: (pointer: PointerAction) => void, modifiers: ModifierKey[] = []): Promise<void> {
+    const browser = await this.getBrowser();
+    const keys: KeyAction = browser.action('key');
+    const pointer: PointerAction = browser.action('pointer', { parameters: { pointerType: 'mouse' } });
 
-        // Fallback to window.resizeTo
-        try {
-          window.resizeTo(${width}, ${height});
-          ${x !== undefined && y !== undefined ? `window.moveTo(${x}, ${y});` : ''}
-          return { success: true, method: 'window.resizeTo' };
-        } catch (e) {
-          return { success: false, error: e.message };
-        }
-      })();
-    `;
+    for (const modifier of modifiers) {
+      keys.down(MODIFIER_KEYS[modifier]);
+      pointer.pause(0);
+    }
+    steps(pointer);
+
+    await browser.actions([keys, pointer]);
+  }
+
+  // Keyboard: the chords are pressed one after another, each modifier released after its chord
+  async pressKeys(chords: KeyChord[]): Promise<void> {
+    const browser = await this.getBrowser();
+    const keys: KeyAction = browser.action('key');
+
+    for (const { modifiers, key } of chords) {
+      for (const modifier of modifiers) {
+        keys.down(MODIFIER_KEYS[modifier]);
+      }
+      keys.down(keyValue(key)).up(keyValue(key));
+      for (const modifier of [...modifiers].reverse()) {
+        keys.up(MODIFIER_KEYS[modifier]);
+      }
+    }
+
+    await browser.actions([keys]);
+  }
+
+  // Move keyboard focus to an element from getElementByRef
+  async focusElement(element: WdioElement): Promise<void> {
+    await this.executeOnElement('arguments[0].focus();', element);
+  }
+
+  // Windows
+  async listWindows(): Promise<WindowInfo[]> {
+    const browser = await this.getBrowser();
+    const activeHandle = await this.getActiveWindowHandle(browser);
+    const handles = await this.getAppWindowHandles(browser);
+    const windows: WindowInfo[] = [];
 
     try {
-      const result = await this.browser.execute(script) as { success: boolean };
-      if (result?.success) {
-        logger.info(`Window resized to ${width}x${height}`);
-        return true;
+      for (const handle of handles) {
+        await browser.switchToWindow(handle);
+        windows.push(await this.describeWindow(browser, handle, activeHandle));
       }
-    } catch (err) {
-      logger.warn('Could not resize window via JS:', err);
+    } finally {
+      await browser.switchToWindow(activeHandle);
+    }
+
+    return windows.sort((a, b) => windowNumber(a.id) - windowNumber(b.id));
+  }
+
+  async switchWindow(target: WindowTarget): Promise<WindowInfo> {
+    const browser = await this.getBrowser();
+    const window = findWindow(await this.listWindows(), target);
+
+    await browser.switchToWindow(window.handle);
+    logger.info(`Switched to window ${window.id}: ${window.title}`);
+    return { ...window, isActive: true };
+  }
+
+  /**
+   * Close a window, by default the active one. The active window moves to the
+   * first remaining window if the active one was closed.
+   */
+  async closeWindow(target?: WindowTarget): Promise<{ closed: WindowInfo; active?: WindowInfo }> {
+    const browser = await this.getBrowser();
+    const windows = await this.listWindows();
+    const closed = target ? findWindow(windows, target) : windows.find(w => w.isActive)!;
+    const previousActive = windows.find(w => w.isActive);
+
+    await browser.switchToWindow(closed.handle);
+    const remaining: string[] = await browser.closeWindow();
+
+    const next = previousActive && previousActive.handle !== closed.handle
+      ? previousActive
+      : windows.find(w => w.handle !== closed.handle && remaining.includes(w.handle));
+    if (next) {
+      await browser.switchToWindow(next.handle);
+    }
+
+    return { closed, active: next ? { ...next, isActive: true } : undefined };
+  }
+
+  /**
+   * Wait for a window the session has not seen yet (not open at launch or in an earlier list)
+   */
+  async waitForNewWindow(timeout: number, switchTo = true): Promise<WindowInfo> {
+    const browser = await this.getBrowser();
+    const { windowIds } = this.session;
+    let newHandle: string | undefined;
+
+    await browser.waitUntil(async () => {
+      const handles = await this.getAppWindowHandles(browser);
+      newHandle = handles.find(handle => !windowIds.has(handle));
+      return newHandle !== undefined;
+    }, { timeout, interval: 250, timeoutMsg: `No new window opened within ${timeout}ms` });
+
+    const activeHandle = await this.getActiveWindowHandle(browser);
+    await browser.switchToWindow(newHandle!);
+    const window = await this.describeWindow(browser, newHandle!, switchTo ? newHandle! : activeHandle);
+    if (!switchTo) {
+      await browser.switchToWindow(activeHandle);
+    }
+
+    logger.info(`New window ${window.id} opened: ${window.title}`);
+    return window;
+  }
+
+  // Give every open window an id, so later windows count as new. Runs during
+  // launch (also inside an automatic relaunch), so it must not wait in getBrowser.
+  private async registerWindows(): Promise<void> {
+    const { browser } = this.session;
+    if (!browser) return;
+    this.getWindowId(await this.getActiveWindowHandle(browser));
+    for (const handle of await this.getAppWindowHandles(browser)) {
+      this.getWindowId(handle);
+    }
+  }
+
+  private getWindowId(handle: string): string {
+    const { windowIds } = this.session;
+    if (!windowIds.has(handle)) {
+      windowIds.set(handle, windowIds.size + 1);
     }
+    return `w${windowIds.get(handle)}`;
+  }
 
-    // Try CDP fallback - set viewport size
+  /**
+   * The current WebDriver window, moving to the first open window if it was closed.
+   * Leaves any frame a ref switched into.
+   */
+  private async getActiveWindowHandle(browser: WdioBrowser): Promise<string> {
+    await this.leaveFrame();
     try {
-      await this.browser.call('Emulation.setDeviceMetricsOverride', {
-        width,
-        height,
-        deviceScaleFactor: 1,
-        mobile: false
-      });
-      logger.info(`Viewport resized to ${width}x${height} via CDP`);
-      return true;
-    } catch (err) {
-      logger.warn('Could not resize via CDP:', err);
+      return await browser.getWindowHandle();
+    } catch {
+      const handles = await this.getAppWindowHandles(browser);
+      if (handles.length === 0) {
+        throw new Error('The app has no open windows');
+      }
+      await browser.switchToWindow(handles[0]);
+      return handles[0];
     }
+  }
+
+  // Describe the window WebDriver is currently switched to
+  private async describeWindow(browser: WdioBrowser, handle: string, activeHandle: string): Promise<WindowInfo> {
+    const base = { id: this.getWindowId(handle), handle, isActive: handle === activeHandle };
 
-    return false;
+    try {
+      const state = await browser.execute(WINDOW_INFO_SCRIPT) as {
+        title: string; url: string; x: number; y: number; width: number; height: number; focused: boolean; visible: boolean;
+      };
+      return {
+        ...base,
+        title: state.title,
+        url: state.url,
+        bounds: { x: state.x, y: state.y, width: state.width, height: state.height },
+        isFocused: state.focused,
+        isVisible: state.visible
+      };
+    } catch {
+      // Windows without a page (e.g. still loading) only report what WebDriver knows
+      return { ...base, title: await browser.getTitle().catch(() => ''), url: '', isFocused: false, isVisible: false };
+    }
+  }
+
+  // Native window state of the active window, through the main process
+  async getWindowState(): Promise<WindowState> {
+    return this.setWindowState({ type: 'get' });
+  }
+
+  async setWindowState(change: WindowStateChange): Promise<WindowState> {
+    const browser = await this.getBrowser();
+    return this.applyWindowState(browser, change);
+  }
+
+  private async applyWindowState(browser: WdioBrowser, change: WindowStateChange): Promise<WindowState> {
+    if (!browser.electron?.bridgeActive) {
+      throw new Error(MAIN_PROCESS_UNAVAILABLE);
+    }
+    const handle = await this.getActiveWindowHandle(browser);
+    await browser.execute(SET_WINDOW_MARKER_SCRIPT, handle);
+    return browser.electron.execute(WINDOW_STATE_SCRIPT, handle, change) as Promise<WindowState>;
+  }
+
+  /**
+   * Resize, and optionally move, the active window. Without main-process access
+   * WebDriver's window rect is the only way, which Electron may ignore, so the
+   * bounds are read back from the window.
+   */
+  async resizeWindow(bounds: WindowBounds | { width: number; height: number }): Promise<{ bounds: WindowBounds; state?: WindowState }> {
+    const browser = await this.getBrowser();
+    return this.applyWindowBounds(browser, bounds);
+  }
+
+  private async applyWindowBounds(
+    browser: WdioBrowser,
+    bounds: WindowBounds | { width: number; height: number }
+  ): Promise<{ bounds: WindowBounds; state?: WindowState }> {
+    if (browser.electron?.bridgeActive) {
+      const state = await this.applyWindowState(browser, { type: 'bounds', bounds });
+      return { bounds: state.bounds, state };
+    }
+
+    await browser.setWindowSize(bounds.width, bounds.height);
+    if ('x' in bounds) {
+      await browser.setWindowRect(bounds.x, bounds.y, null, null);
+    }
+    const actual = await browser.execute(WINDOW_INFO_SCRIPT) as WindowBounds;
+    return { bounds: { x: actual.x, y: actual.y, width: actual.width, height: actual.height } };
+  }
+
+  // Apply the launch window size; a size the window does not take is logged, not fatal
+  private async applyLaunchWindowSize(browser: WdioBrowser, width: number, height: number): Promise<void> {
+    try {
+      const { bounds, state } = await this.applyWindowBounds(browser, { width, height });
+      if (state) {
+        logger.info(`Window size set to ${bounds.width}x${bounds.height}`);
+      } else if (bounds.width !== width || bounds.height !== height) {
+        logger.warn(`Requested window size ${width}x${height}, but the window is ${bounds.width}x${bounds.height}. Add the wdio-electron-service hooks to the app to resize through the main process.`);
+      }
+    } catch (err) {
+      logger.warn('Could not set window size:', err);
+    }
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
+    const session = this.registry.sessions.get(this.sessionId);
+    if (session?.browser) {
+      session.monitor?.stop();
+      // An attached app keeps running, so it gets its own console and Menu.popup back
+      await session.monitor?.removeHooks();
+      await this.removeMenuHooks(session);
       try {
-        await this.browser.deleteSession();
+        // For attached apps chromedriver only detaches, the app keeps running
+        await session.browser.deleteSession();
       } catch (err) {
         logger.warn('Error closing browser session:', err);
       }
-      this.browser = null;
-      this.snapshot = null;
-      this.consoleLogs = [];
-      this.networkEntries = [];
-      this.mockResponses = [];
-      this.cdpSession = null;
-      this.appConfig = null;
+      await this.releaseLaunchResources(session);
+      session.resetAppState();
+    }
+  }
+
+  // Profile directory and virtual display the server created for a launch
+  private async releaseLaunchResources(session: Session): Promise<void> {
+    if (session.userDataDir) {
+      await removeUserDataDir(session.userDataDir);
+    }
+    if (session.virtualDisplay) {
+      await stopVirtualDisplay(session.virtualDisplay);
     }
   }
 
   // Recording methods
-  recordAction(tool: string, params: Record<string, unknown>, elementInfo?: RecordedAction['elementInfo']): void {
-    if (this.recordingEnabled) {
-      this.actionHistory.push({
+  recordAction(
+    tool: string,
+    params: Record<string, unknown>,
+    elementInfo?: RecordedAction['elementInfo'],
+    targetElementInfo?: RecordedAction['elementInfo']
+  ): void {
+    const session = this.session;
+    if (session.recordingEnabled) {
+      session.actionHistory.push({
         tool,
         params,
         timestamp: Date.now(),
-        elementInfo
+        elementInfo,
+        targetElementInfo
       });
     }
   }
 
   startRecording(): void {
-    this.recordingEnabled = true;
-    this.actionHistory = [];
-    logger.info('Recording started');
+    const session = this.openSession();
+    session.recordingEnabled = true;
+    session.actionHistory = [];
+    logger.info(`Recording started in session: ${session.id}`);
   }
 
   stopRecording(): RecordedAction[] {
-    this.recordingEnabled = false;
-    logger.info(`Recording stopped with ${this.actionHistory.length} actions`);
-    return this.actionHistory;
+    const session = this.session;
+    session.recordingEnabled = false;
+    logger.info(`Recording stopped with ${session.actionHistory.length} actions`);
+    return session.actionHistory;
   }
 
   clearRecording(): void {
-    this.actionHistory = [];
+    this.session.actionHistory = [];
   }
 
   getRecordingStatus(): { enabled: boolean; actionCount: number } {
+    const session = this.session;
     return {
-      enabled: this.recordingEnabled,
-      actionCount: this.actionHistory.length
+      enabled: session.recordingEnabled,
+      actionCount: session.actionHistory.length
     };
   }
 
   // Console log methods
   addConsoleLog(entry: ConsoleLogEntry): void {
-    this.consoleLogs.push(entry);
+    this.session.consoleLogs.push(entry);
   }
 
   getConsoleLogs(level?: string): ConsoleLogEntry[] {
+    const { consoleLogs } = this.session;
     if (level) {
-      return this.consoleLogs.filter(log => log.level === level);
+      return consoleLogs.filter(log => log.level === level);
     }
-    return [...this.consoleLogs];
+    return [...consoleLogs];
   }
 
   clearConsoleLogs(): void {
-    this.consoleLogs = [];
+    this.session.consoleLogs = [];
   }
 
   // Network methods
   addNetworkEntry(entry: NetworkEntry): void {
-    this.networkEntries.push(entry);
+    this.session.networkEntries.push(entry);
   }
 
   getNetworkEntries(filter?: { url?: string | RegExp; method?: string }): NetworkEntry[] {
-    let entries = [...this.networkEntries];
+    let entries = [...this.session.networkEntries];
 
     if (filter?.url) {
       entries = entries.filter(e => {
@@ -334,76 +1225,207 @@ export class Context {
   }
 
   clearNetworkEntries(): void {
-    this.networkEntries = [];
+    this.session.networkEntries = [];
+  }
+
+  // Native menus
+  async getMenu(kind: MenuKind = 'application'): Promise<{ items: MenuItemInfo[]; openedAt?: number } | null> {
+    return this.executeInMain(GET_MENU_SCRIPT, [kind]);
+  }
+
+  async clickMenuItem(path: string[], kind: MenuKind = 'application'): Promise<{ label: string; type: string; checked: boolean }> {
+    return this.executeInMain(CLICK_MENU_SCRIPT, [kind, path]);
+  }
+
+  // Run the application menu item bound to an accelerator, as pressing it would
+  async triggerAccelerator(accelerator: string): Promise<{ label: string; path: string[] }> {
+    return this.executeInMain(TRIGGER_ACCELERATOR_SCRIPT, [accelerator]);
+  }
+
+  // IPC capture, buffered in the main process until drained
+  async startIpcCapture(): Promise<void> {
+    await this.executeInMain(START_IPC_CAPTURE_SCRIPT);
+    this.session.ipcCapturing = true;
+  }
+
+  async stopIpcCapture(): Promise<void> {
+    await this.collectIpcMessages();
+    await this.executeInMain(STOP_IPC_CAPTURE_SCRIPT);
+    this.session.ipcCapturing = false;
+  }
+
+  isCapturingIpc(): boolean {
+    return this.session.ipcCapturing;
+  }
+
+  async getIpcMessages(filter?: { channel?: string | RegExp; direction?: IpcMessage['direction'] }): Promise<IpcMessage[]> {
+    await this.collectIpcMessages();
+    let messages = [...this.session.ipcMessages];
+
+    if (filter?.channel) {
+      messages = messages.filter(m => {
+        if (typeof filter.channel === 'string') {
+          return m.channel.includes(filter.channel);
+        }
+        return filter.channel!.test(m.channel);
+      });
+    }
+
+    if (filter?.direction) {
+      messages = messages.filter(m => m.direction === filter.direction);
+    }
+
+    return messages;
+  }
+
+  async clearIpcMessages(): Promise<void> {
+    this.session.ipcMessages = [];
+    if (this.session.ipcCapturing) {
+      await this.executeInMain(CLEAR_IPC_SCRIPT);
+    }
+  }
+
+  // Send to a renderer from the main side; returns the receiving webContents id
+  async sendIpcMessage(channel: string, args: unknown[], webContentsId?: number): Promise<number> {
+    return this.executeInMain<number>(SEND_IPC_SCRIPT, [channel, args, webContentsId ?? null]);
+  }
+
+  // Call an ipcMain.handle handler as if the app window had invoked it
+  async invokeIpcHandler<T>(channel: string, args: unknown[]): Promise<T> {
+    return this.executeInMain<T>(INVOKE_IPC_SCRIPT, [channel, args]);
+  }
+
+  private async collectIpcMessages(): Promise<void> {
+    const session = this.session;
+    if (!session.ipcCapturing) return;
+    const messages = await this.executeInMain<IpcMessage[]>(DRAIN_IPC_SCRIPT);
+    session.ipcMessages.push(...messages);
   }
 
   // Mock responses
   addMockResponse(mock: MockResponse): void {
-    this.mockResponses.push(mock);
+    this.session.mockResponses.push(mock);
   }
 
   getMockResponses(): MockResponse[] {
-    return [...this.mockResponses];
+    return [...this.session.mockResponses];
   }
 
   clearMockResponses(): void {
-    this.mockResponses = [];
+    this.session.mockResponses = [];
+  }
+
+  // Electron API mocks, installed in the main process
+  async mockApi(mock: ApiMock): Promise<void> {
+    await this.executeInMain(buildMockScript(mock), [mock.api, mock.method, mock.mode, mock.value]);
+    const session = this.session;
+    session.apiMocks = session.apiMocks.filter(m => apiMockKey(m.api, m.method) !== apiMockKey(mock.api, mock.method));
+    session.apiMocks.push(mock);
+  }
+
+  getApiMocks(): ApiMock[] {
+    return [...this.session.apiMocks];
+  }
+
+  async getApiMockCalls(api: string, method: string): Promise<ApiMockCall[]> {
+    return this.executeInMain<ApiMockCall[]>(GET_MOCK_CALLS_SCRIPT, [apiMockKey(api, method)]);
+  }
+
+  // Forget recorded calls, keep the mocked behavior
+  async resetApiMock(api: string, method: string): Promise<void> {
+    await this.executeInMain(RESET_MOCK_SCRIPT, [apiMockKey(api, method)]);
+  }
+
+  // Put the original function back. Returns false if it was not mocked.
+  async restoreApiMock(api: string, method: string): Promise<boolean> {
+    const restored = await this.executeInMain<boolean>(RESTORE_MOCK_SCRIPT, [apiMockKey(api, method)]);
+    const session = this.session;
+    session.apiMocks = session.apiMocks.filter(m => apiMockKey(m.api, m.method) !== apiMockKey(api, method));
+    return restored;
   }
 
   // Session state
   async getSessionState(): Promise<SessionState> {
-    if (!this.browser) {
-      return {
-        isConnected: false,
-        recordingEnabled: this.recordingEnabled,
-        actionCount: this.actionHistory.length
-      };
+    const session = this.session;
+    const base: SessionState = {
+      sessionId: session.id,
+      isConnected: false,
+      health: session.monitor?.health,
+      lastFailure: session.lastFailure ?? undefined,
+      relaunchCount: session.relaunchCount,
+      apiMocks: [...session.apiMocks],
+      recordingEnabled: session.recordingEnabled,
+      actionCount: session.actionHistory.length
+    };
+
+    if (!session.browser) {
+      return base;
     }
 
     try {
-      const title = await this.browser.getTitle();
-      const windowHandles = await this.browser.getWindowHandles();
+      const title = await session.browser.getTitle();
+      const windowHandles = await this.getAppWindowHandles(session.browser);
 
       return {
+        ...base,
         isConnected: true,
-        appPath: this.appConfig?.binaryPath,
+        connectionType: session.connectionType,
+        appPath: session.appPath,
         windowTitle: title,
-        windowCount: windowHandles.length,
-        recordingEnabled: this.recordingEnabled,
-        actionCount: this.actionHistory.length
+        windowCount: windowHandles.length
       };
     } catch {
-      return {
-        isConnected: false,
-        recordingEnabled: this.recordingEnabled,
-        actionCount: this.actionHistory.length
-      };
+      return base;
     }
   }
 
-  // Element discovery
-  private async discoverElements(): Promise<Map<string, ElementInfo>> {
+
+  // Element discovery: one in-page script, with per-element WebDriver calls as a fallback
+  private async discoverElements(): Promise<DocumentDiscovery> {
     const browser = await this.getBrowser();
-    const elements = new Map<string, ElementInfo>();
 
-    // Find all interactive elements
-    const interactiveSelectors = [
-      'button',
-      'a',
-      'input',
-      'select',
-      'textarea',
-      '[role="button"]',
-      '[role="link"]',
-      '[role="checkbox"]',
-      '[role="radio"]',
-      '[role="menuitem"]',
-      '[role="tab"]',
-      '[onclick]',
-      '[tabindex]:not([tabindex="-1"])'
-    ];
+    try {
+      const result = await browser.execute(DOM_SNAPSHOT_SCRIPT, INTERACTIVE_SELECTORS.join(', '), MAX_SNAPSHOT_ELEMENTS) as
+        { elements: DomSnapshotEntry[]; total: number; webviews: WebviewEntry[] };
+
+      const refOf = (index: number) => `e${index + 1}`;
+      const elements = new Map<string, ElementInfo>();
+      result.elements.forEach((entry, i) => {
+        const ref = refOf(i);
+        elements.set(ref, {
+          ref,
+          tagName: entry.tagName,
+          text: entry.text,
+          ariaLabel: entry.ariaLabel || undefined,
+          role: entry.role || undefined,
+          isClickable: ['a', 'button', 'input'].includes(entry.tagName) || entry.role === 'button' || entry.role === 'link',
+          isVisible: true,
+          isEnabled: entry.isEnabled,
+          attributes: entry.attributes,
+          boundingBox: entry.boundingBox,
+          accessibleName: entry.accessibleName || undefined,
+          description: entry.description || undefined,
+          checked: entry.checked ?? undefined,
+          expanded: entry.expanded ?? undefined,
+          selected: entry.selected ?? undefined,
+          focused: entry.focused || undefined,
+          parentRef: entry.parent !== null ? refOf(entry.parent) : undefined,
+          domPath: entry.domPath,
+          frames: entry.frames.length ? entry.frames : undefined
+        });
+      });
 
-    const selector = interactiveSelectors.join(', ');
+      return { elements, total: result.total, webviews: result.webviews };
+    } catch (err) {
+      logger.warn('In-page element discovery failed, querying elements one by one:', err);
+      const elements = await this.discoverElementsOneByOne(browser);
+      return { elements, total: elements.size, webviews: [] };
+    }
+  }
+
+  private async discoverElementsOneByOne(browser: WdioBrowser): Promise<Map<string, ElementInfo>> {
+    const elements = new Map<string, ElementInfo>();
+    const selector = INTERACTIVE_SELECTORS.join(', ');
 
     try {
       const foundElementsPromise = browser.$$(selector);
@@ -442,6 +1464,7 @@ export class Context {
     const href = await el.getAttribute('href');
     const placeholder = await el.getAttribute('placeholder');
     const className = await el.getAttribute('class');
+    const testId = await el.getAttribute('data-testid');
     const isEnabled = await el.isEnabled();
 
     let boundingBox: ElementInfo['boundingBox'] | undefined;
@@ -469,6 +1492,7 @@ export class Context {
     if (href) attributes['href'] = href;
     if (placeholder) attributes['placeholder'] = placeholder;
     if (className) attributes['class'] = className;
+    if (testId) attributes['data-testid'] = testId;
 
     return {
       ref,
@@ -546,12 +1570,207 @@ export class Context {
     throw new Error(`Could not find element: ${info.ref} (${info.tagName})`);
   }
 
+  // AX snapshot: the accessibility tree of every frame, plus the DOM they point into
+  private async discoverAXTree(): Promise<DocumentDiscovery> {
+    const { root } = await this.sendCDPCommand<{ root: CDPDOMNode }>('DOM.getDocument', { depth: -1, pierce: true });
+    const { nodes } = await this.sendCDPCommand<{ nodes: CDPAXNode[] }>('Accessibility.getFullAXTree');
+
+    // Child frames have their own AX trees; cross-origin frames run in another process and are skipped
+    const { frameTree } = await this.sendCDPCommand<{ frameTree: CDPFrameTree }>('Page.getFrameTree');
+    const pending = [...(frameTree.childFrames ?? [])];
+    for (let frame = pending.shift(); frame; frame = pending.shift()) {
+      pending.push(...(frame.childFrames ?? []));
+      const frameId = frame.frame.id;
+      try {
+        const { backendNodeId } = await this.sendCDPCommand<{ backendNodeId: number }>('DOM.getFrameOwner', { frameId });
+        const frameAX = await this.sendCDPCommand<{ nodes: CDPAXNode[] }>('Accessibility.getFullAXTree', { frameId });
+        attachFrameAXTree(nodes, backendNodeId, frameId, frameAX.nodes);
+      } catch (err) {
+        logger.debug(`Skipping the accessibility tree of frame ${frame.frame.url}:`, err);
+      }
+    }
+
+    const { tree, elements, webviews } = buildAXSnapshot(nodes, root);
+    return { elements, total: elements.size, tree, webviews };
+  }
+
+  /**
+   * Discover a <webview> guest. Its refs get the given prefix until stable refs are
+   * assigned, and its elements carry the webview in their frames.
+   */
+  private async discoverWebview(
+    browser: WdioBrowser,
+    mode: SnapshotMode,
+    webview: WebviewEntry,
+    refPrefix: string
+  ): Promise<DocumentDiscovery | null> {
+    const frames = [...webview.frames, webview.segment];
+
+    try {
+      await this.enterFrames(browser, frames);
+      const guest = mode === 'ax' ? await this.discoverAXTree() : await this.discoverElements();
+
+      const refs = new Map(Array.from(guest.elements.keys(), ref => [ref, `${refPrefix}${ref}`]));
+      const elements = new Map<string, ElementInfo>();
+      for (const info of guest.elements.values()) {
+        const ref = refs.get(info.ref)!;
+        elements.set(ref, {
+          ...info,
+          ref,
+          parentRef: info.parentRef && refs.get(info.parentRef),
+          frames: [...frames, ...(info.frames ?? [])]
+        });
+      }
+      if (guest.tree) {
+        renameAXTreeRefs(guest.tree, refs);
+      }
+
+      return { ...guest, elements };
+    } catch (err) {
+      logger.warn(`Could not snapshot ${webview.segment.label}:`, err);
+      return null;
+    } finally {
+      await this.leaveFrame();
+    }
+  }
+
+  /**
+   * Switch WebDriver from the window's top document into the frames an element lives in.
+   * Stays there until leaveFrame, which every window-level operation calls first.
+   */
+  private async enterFrames(browser: WdioBrowser, frames: FrameSegment[]): Promise<void> {
+    await this.leaveFrame();
+    if (frames.length === 0) return;
+
+    this.session.frameContext = { hostHandle: await browser.getWindowHandle(), frames };
+    for (const frame of frames) {
+      if (frame.type === 'iframe') {
+        const iframe = await browser.execute(RESOLVE_DOM_PATH_SCRIPT, frame.domPath);
+        if (!iframe) {
+          throw new Error(`${frame.label} is no longer in the page`);
+        }
+        await browser.switchFrame(iframe);
+      } else {
+        const url = await browser.execute(WEBVIEW_URL_SCRIPT, frame.domPath) as string | null;
+        if (url === null) {
+          throw new Error(`${frame.label} is no longer in the page`);
+        }
+        await browser.switchToWindow(await this.findWebviewHandle(browser, url, frame));
+      }
+    }
+  }
+
+  /**
+   * Back to the top document of the window, if a ref switched WebDriver into a frame
+   */
+  async leaveFrame(): Promise<void> {
+    const session = this.registry.sessions.get(this.sessionId);
+    if (!session?.frameContext || !session.browser) return;
+
+    const { frameContext, browser } = session;
+    session.frameContext = null;
+    if (frameContext.frames.some(frame => frame.type === 'webview')) {
+      await browser.switchToWindow(frameContext.hostHandle);
+    }
+    await browser.switchFrame(null);
+  }
+
+  // Webview guests are separate CDP targets, and their target id is their window handle
+  private async findWebviewHandle(browser: WdioBrowser, url: string, frame: FrameSegment): Promise<string> {
+    const guests = await this.getWebviewTargets(browser);
+    const guest = guests.find(target => target.url === url) ?? (guests.length === 1 ? guests[0] : undefined);
+    if (!guest) {
+      throw new Error(`No webview guest shows ${url} (${frame.label})`);
+    }
+
+    const handles: string[] = await browser.getWindowHandles();
+    const handle = handles.find(h => sameTarget(h, guest.targetId));
+    if (!handle) {
+      throw new Error(`The guest of ${frame.label} has no WebDriver window handle`);
+    }
+    return handle;
+  }
+
+  // Takes the browser instead of using getBrowser: window registration runs inside relaunches
+  private async getWebviewTargets(browser: WdioBrowser): Promise<CDPTargetInfo[]> {
+    const { targetInfos } = await browser.sendCommandAndGetResult('Target.getTargets', {}) as { targetInfos: CDPTargetInfo[] };
+    return targetInfos.filter(target => target.type === 'webview');
+  }
+
+  /**
+   * WebDriver lists webview guests as windows too; leave them out
+   */
+  private async getAppWindowHandles(browser: WdioBrowser): Promise<string[]> {
+    const handles: string[] = await browser.getWindowHandles();
+    try {
+      const guests = await this.getWebviewTargets(browser);
+      return handles.filter(handle => !guests.some(guest => sameTarget(handle, guest.targetId)));
+    } catch (err) {
+      logger.debug('Could not list webview targets:', err);
+      return handles;
+    }
+  }
+
+  // WebDriver cannot address a DOM node by id, so the node is tagged and found by the tag
+  private async resolveBackendNode(browser: WdioBrowser, backendNodeId: number, ref: string): Promise<WdioElement> {
+    const { object } = await this.sendCDPCommand<{ object: { objectId?: string } }>('DOM.resolveNode', { backendNodeId });
+    if (!object.objectId) {
+      throw new Error(`DOM node ${backendNodeId} is gone`);
+    }
+
+    await this.sendCDPCommand('Runtime.callFunctionOn', {
+      objectId: object.objectId,
+      functionDeclaration: `function (ref) {
+        this.ownerDocument.querySelectorAll('[data-mcp-ref="' + ref + '"]').forEach((el) => el.removeAttribute('data-mcp-ref'));
+        this.setAttribute('data-mcp-ref', ref);
+      }`,
+      arguments: [{ value: ref }]
+    });
+    await this.sendCDPCommand('Runtime.releaseObject', { objectId: object.objectId });
+
+    const el = browser.$(`>>>[data-mcp-ref="${ref}"]`);
+    if (!await el.isExisting()) {
+      throw new Error(`Tagged node for ${ref} is not in the current frame`);
+    }
+    return el as unknown as WdioElement;
+  }
+
+  /**
+   * Send a Chrome DevTools Protocol command to the active window through chromedriver
+   */
+  async sendCDPCommand<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+    const browser = await this.getBrowser();
+    return browser.sendCommandAndGetResult(method, params) as T;
+  }
+
   // Execute JavaScript in the app context
   async executeScript<T>(script: string, args?: unknown[]): Promise<T> {
     const browser = await this.getBrowser();
+    await this.leaveFrame();
     return browser.execute(script, ...(args || [])) as T;
   }
 
+  /**
+   * Execute JavaScript with an element from getElementByRef as arguments[0]. Unlike
+   * executeScript, it runs in the element's frame.
+   */
+  async executeOnElement<T>(script: string, element: WdioElement, ...args: unknown[]): Promise<T> {
+    const browser = await this.getBrowser();
+    return browser.execute(script, element, ...args) as T;
+  }
+
+  /**
+   * Execute a function in the Electron main process. The script is a function
+   * expression, called with the electron module followed by args.
+   */
+  async executeInMain<T>(script: string, args?: unknown[]): Promise<T> {
+    const browser = await this.getBrowser();
+    if (!browser.electron?.bridgeActive) {
+      throw new Error(MAIN_PROCESS_UNAVAILABLE);
+    }
+    return browser.electron.execute(script, ...(args || [])) as T;
+  }
+
   // Take screenshot
   async takeScreenshot(): Promise<string> {
     const browser = await this.getBrowser();
@@ -561,3 +1780,99 @@ export class Context {
     });
   }
 }
+
+function describeFailure(sessionId: string, failure: AppFailure): string {
+  const time = new Date(failure.timestamp).toISOString();
+  const lines = [`The app in session "${sessionId}" failed at ${time}: ${failure.message}.`];
+  if (failure.lastConsoleOutput.length > 0) {
+    lines.push(`Last console output:\n${failure.lastConsoleOutput.map(line => `  ${line}`).join('\n')}\n`);
+  }
+  return lines.join('\n');
+}
+
+// Refs in the first window stay "e1", "e2"...; later windows get "w2.e1"
+function windowRefPrefix(windowId: string): string {
+  return windowId === 'w1' ? '' : `${windowId}.`;
+}
+
+function formatElement(info: ElementInfo, verbose: boolean): string[] {
+  const label = info.accessibleName || info.ariaLabel || info.text || info.role || info.tagName;
+  const states = [
+    info.checked === 'mixed' ? 'mixed' : info.checked && 'checked',
+    info.expanded !== undefined && (info.expanded ? 'expanded' : 'collapsed'),
+    info.selected && 'selected',
+    info.focused && 'focused',
+    !info.isEnabled && 'disabled'
+  ].filter(Boolean).map(state => ` [${state}]`).join('');
+  const frame = info.frames?.length ? ` (in ${info.frames.map(f => f.label).join(' > ')})` : '';
+  const lines = [`  [${info.ref}] ${info.tagName}: ${label.slice(0, 50)}${states}${frame}`];
+
+  if (verbose) {
+    const details = [
+      info.role && `role=${info.role}`,
+      ...Object.entries(info.attributes).map(([name, value]) => `${name}="${value.slice(0, 60)}"`),
+      info.description && `description="${info.description}"`,
+      info.parentRef && `inside ${info.parentRef}`,
+      info.boundingBox && `box ${info.boundingBox.width}x${info.boundingBox.height} at ${info.boundingBox.x},${info.boundingBox.y}`
+    ].filter(Boolean);
+    if (details.length > 0) {
+      lines.push(`      ${details.join(', ')}`);
+    }
+  }
+
+  return lines;
+}
+
+function findAXNode(nodes: AXSnapshotNode[], ref: string): AXSnapshotNode[] | undefined {
+  for (const node of nodes) {
+    if (node.ref === ref) return [node];
+    const found = findAXNode(node.children, ref);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Elements without a DOM path are scoped through their chain of parent refs
+function hasAncestorRef(snapshot: PageSnapshot, el: ElementInfo, ref: string): boolean {
+  for (let current: ElementInfo | undefined = el; current; current = current.parentRef ? snapshot.elements.get(current.parentRef) : undefined) {
+    if (current.ref === ref) return true;
+  }
+  return false;
+}
+
+// Elements in a webview are judged by the webview element in the host page
+function viewportTarget(el: ElementInfo): { frames: string[]; domPath: string } | null {
+  const frames = el.frames ?? [];
+  const webview = frames.findIndex(frame => frame.type === 'webview');
+  if (webview >= 0) {
+    return { frames: frames.slice(0, webview).map(frame => frame.domPath), domPath: frames[webview].domPath };
+  }
+  return el.domPath ? { frames: frames.map(frame => frame.domPath), domPath: el.domPath } : null;
+}
+
+// Window handles are target ids, possibly with a prefix (older chromedrivers use "CDwindow-")
+function sameTarget(handle: string, targetId: string): boolean {
+  return handle.toUpperCase().endsWith(targetId.toUpperCase());
+}
+
+function windowIdOfRef(ref: string): string {
+  return ref.match(/^(w\d+)\./)?.[1] ?? 'w1';
+}
+
+function windowNumber(windowId: string): number {
+  return Number(windowId.slice(1));
+}
+
+function findWindow(windows: WindowInfo[], target: WindowTarget): WindowInfo {
+  const match = windows.find(w =>
+    (target.id === undefined || w.id === target.id) &&
+    (target.title === undefined || w.title.includes(target.title)) &&
+    (target.url === undefined || w.url.includes(target.url))
+  );
+
+  if (!match) {
+    const available = windows.map(w => `${w.id} "${w.title}" (${w.url})`).join(', ');
+    throw new Error(`No window matches ${JSON.stringify(target)}. Open windows: ${available || 'none'}`);
+  }
+  return match;
+}
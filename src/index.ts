@@ -1,6 +1,7 @@
 // Main exports
 export { createServer, runServer } from './server.js';
 export { Context } from './context.js';
+export { Session, DEFAULT_SESSION_ID } from './session.js';
 export { BaseTool } from './tools/base.js';
 export { getAllTools } from './tools/index.js';
 
@@ -8,13 +9,38 @@ export { getAllTools } from './tools/index.js';
 export type {
   ElementInfo,
   PageSnapshot,
+  SnapshotMode,
+  AXSnapshotNode,
+  SnapshotDiff,
+  SnapshotQuery,
+  SnapshotFormat,
+  SnapshotPage,
+  FrameSegment,
   ToolResult,
   ToolDefinition,
   ElectronAppConfig,
+  ElectronAttachConfig,
+  ReadinessConfig,
+  ChromedriverConfig,
+  RecoveryConfig,
+  AppHealth,
+  AppFailure,
   ConsoleLogEntry,
   NetworkEntry,
   PerformanceMetrics,
   RecordedAction,
+  ModifierKey,
   MockResponse,
-  SessionState
+  ApiMock,
+  ApiMockCall,
+  IpcMessage,
+  MenuItemInfo,
+  MenuKind,
+  WindowInfo,
+  WindowTarget,
+  WindowBounds,
+  WindowState,
+  WindowStateChange,
+  SessionState,
+  SessionInfo
 } from './types.js';
@@ -0,0 +1,372 @@
+/**
+ * Watches a running Electron app for main-process exits, renderer crashes and hangs
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppFailure, AppHealth } from './types.js';
+import { WdioBrowser } from './session.js';
+import { logger } from './utils/logger.js';
+
+export interface AppMonitorOptions {
+  checkInterval: number;
+  hangTimeout: number;
+  onFailure: (failure: AppFailure) => void;
+}
+
+interface LifecycleEvent {
+  type: 'render-process-gone' | 'child-process-gone' | 'unresponsive' | 'responsive';
+  reason?: string;
+  exitCode?: number;
+  processType?: string;
+  timestamp: number;
+}
+
+interface ExitStatus {
+  exitCode: number;
+  output: string[];
+}
+
+const MAX_OUTPUT_LINES = 50;
+
+// Lets the monitor read renderer console output through getLogs('browser')
+export const BROWSER_LOGGING_CAPABILITY = { 'goog:loggingPrefs': { browser: 'ALL' } };
+
+/**
+ * Installed in the main process through the wdio-electron-service bridge. Buffers
+ * lifecycle events and main-process console output on globalThis, and writes the
+ * exit code to a status file so it survives the process. state.remove undoes all of it.
+ */
+const MAIN_HOOK_SCRIPT = `(electron, statusFile, maxLines) => {
+  if (globalThis.__mcpLifecycle) return true;
+  const state = { events: [], output: [] };
+  globalThis.__mcpLifecycle = state;
+  const undo = [];
+  const listen = (emitter, event, listener) => {
+    emitter.on(event, listener);
+    undo.push(() => {
+      if (!emitter.isDestroyed || !emitter.isDestroyed()) emitter.removeListener(event, listener);
+    });
+  };
+
+  const push = (event) => state.events.push(Object.assign({ timestamp: Date.now() }, event));
+  const watchWindow = (win) => {
+    listen(win, 'unresponsive', () => push({ type: 'unresponsive' }));
+    listen(win, 'responsive', () => push({ type: 'responsive' }));
+  };
+
+  listen(electron.app, 'render-process-gone', (_e, _wc, d) => push({ type: 'render-process-gone', reason: d.reason, exitCode: d.exitCode }));
+  listen(electron.app, 'child-process-gone', (_e, d) => push({ type: 'child-process-gone', reason: d.reason, exitCode: d.exitCode, processType: d.type }));
+  listen(electron.app, 'browser-window-created', (_e, win) => watchWindow(win));
+  electron.BrowserWindow.getAllWindows().forEach(watchWindow);
+
+  ['log', 'info', 'warn', 'error'].forEach((level) => {
+    const original = console[level];
+    console[level] = (...args) => {
+      state.output.push('[main:' + level + '] ' + args.map(String).join(' '));
+      if (state.output.length > maxLines) state.output.shift();
+      original.apply(console, args);
+    };
+    undo.push(() => { console[level] = original; });
+  });
+
+  // fs is reachable through getBuiltinModule (Electron 32+) or mainModule in CommonJS apps
+  let fs;
+  try {
+    fs = process.getBuiltinModule ? process.getBuiltinModule('fs') : process.mainModule && process.mainModule.require('fs');
+  } catch (e) {}
+  listen(process, 'exit', (code) => {
+    if (fs) fs.writeFileSync(statusFile, JSON.stringify({ exitCode: code, output: state.output }));
+  });
+
+  state.remove = () => {
+    undo.reverse().forEach((fn) => fn());
+    delete globalThis.__mcpLifecycle;
+  };
+  return true;
+}`;
+
+const REMOVE_HOOK_SCRIPT = `() => {
+  const state = globalThis.__mcpLifecycle;
+  if (!state) return false;
+  state.remove();
+  return true;
+}`;
+
+const DRAIN_EVENTS_SCRIPT = `() => {
+  const state = globalThis.__mcpLifecycle;
+  if (!state) return { events: [], output: [] };
+  return { events: state.events.splice(0), output: state.output.slice() };
+}`;
+
+export class AppMonitor {
+  health: AppHealth = 'healthy';
+  lastFailure: AppFailure | null = null;
+  lastWindowSize: { width: number; height: number } | null = null;
+  private recentOutput: string[] = [];
+  private pid: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private pendingPoll: Promise<true> | null = null;   // a poll that is still waiting on the app
+  private unresponsiveSince: number | null = null;
+  private readonly statusFile: string;
+
+  constructor(private readonly browser: WdioBrowser, sessionId: string, private readonly options: AppMonitorOptions) {
+    this.statusFile = path.join(os.tmpdir(), `electron-mcp-status-${sessionId}-${Date.now()}.json`);
+  }
+
+  get appPid(): number | null {
+    return this.pid;
+  }
+
+  async start(): Promise<void> {
+    if (this.browser.electron?.bridgeActive) {
+      try {
+        await this.browser.electron.execute(MAIN_HOOK_SCRIPT, this.statusFile, MAX_OUTPUT_LINES);
+        this.pid = await this.browser.electron.execute('() => process.pid');
+      } catch (err) {
+        logger.warn('Could not install main-process lifecycle hooks:', err);
+      }
+    }
+
+    if (!this.pid) {
+      this.pid = findDriverChildPid(this.browser.capabilities?.['wdio:driverPID']);
+    }
+
+    logger.debug(`Monitoring Electron app${this.pid ? ` (pid ${this.pid})` : ''}`);
+
+    this.timer = setInterval(() => void this.check(), this.options.checkInterval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    fs.rmSync(this.statusFile, { force: true });
+  }
+
+  /**
+   * Take the main-process hooks out again, for apps that keep running after the
+   * session ends. Call after stop().
+   */
+  async removeHooks(): Promise<void> {
+    if (!this.browser.electron?.bridgeActive || this.health === 'crashed' || this.health === 'exited' || this.pendingPoll) return;
+    try {
+      await withTimeout(this.browser.electron.execute(REMOVE_HOOK_SCRIPT), this.options.hangTimeout);
+    } catch (err) {
+      logger.debug('Could not remove main-process lifecycle hooks:', err);
+    }
+  }
+
+  getRecentOutput(): string[] {
+    return [...this.recentOutput];
+  }
+
+  private async check(): Promise<void> {
+    if (this.checking || this.health === 'crashed' || this.health === 'exited') return;
+    this.checking = true;
+
+    try {
+      if (this.pid && !isProcessAlive(this.pid)) {
+        this.reportExit();
+        return;
+      }
+
+      // A poll that outlived the hang timeout is still waiting on the hung app; do not pile more on top
+      if (this.pendingPoll) return;
+      const poll = this.poll();
+      this.pendingPoll = poll;
+      poll.catch(() => undefined).finally(() => {
+        if (this.pendingPoll === poll) this.pendingPoll = null;
+      });
+
+      const responded = await withTimeout(poll, this.options.hangTimeout);
+
+      if (!responded) {
+        if (this.unresponsiveSince === null) {
+          this.unresponsiveSince = Date.now();
+          this.health = 'unresponsive';
+          this.report('hang', `The app did not respond within ${this.options.hangTimeout}ms`);
+        }
+      } else if (this.unresponsiveSince !== null && this.health === 'unresponsive') {
+        logger.info(`App responsive again after ${Date.now() - this.unresponsiveSince}ms`);
+        this.unresponsiveSince = null;
+        this.health = 'healthy';
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+
+      if (this.pid && !isProcessAlive(this.pid)) {
+        this.reportExit();
+      } else if (/crash/i.test(message)) {
+        this.report('renderer_crash', `The renderer crashed: ${message}`);
+      } else {
+        logger.debug('Health check failed:', message);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * One round trip to the app: drain console output and lifecycle events, remember the window size
+   */
+  private async poll(): Promise<true> {
+    try {
+      const logs = await this.browser.getLogs('browser') as Array<{ level: string; message: string }>;
+      for (const log of logs) {
+        this.addOutput(`[renderer:${log.level.toLowerCase()}] ${log.message}`);
+      }
+    } catch {
+      // Browser logs need goog:loggingPrefs, which attached sessions may not have
+    }
+
+    if (this.browser.electron?.bridgeActive) {
+      const { events, output } = await this.browser.electron.execute(DRAIN_EVENTS_SCRIPT) as { events: LifecycleEvent[]; output: string[] };
+      for (const line of output) {
+        if (!this.recentOutput.includes(line)) this.addOutput(line);
+      }
+      for (const event of events) {
+        this.handleLifecycleEvent(event);
+      }
+    }
+
+    this.lastWindowSize = await this.browser.execute('return { width: window.outerWidth, height: window.outerHeight }');
+    return true;
+  }
+
+  private handleLifecycleEvent(event: LifecycleEvent): void {
+    switch (event.type) {
+      case 'render-process-gone':
+        if (event.reason === 'clean-exit') return;
+        this.report(
+          event.reason === 'oom' ? 'oom' : 'renderer_crash',
+          `The renderer process is gone (${event.reason}${event.exitCode !== undefined ? `, exit code ${event.exitCode}` : ''})`,
+          { reason: event.reason, exitCode: event.exitCode }
+        );
+        break;
+      case 'child-process-gone':
+        if (event.reason === 'clean-exit') return;
+        logger.warn(`Electron ${event.processType} process gone: ${event.reason} (exit code ${event.exitCode})`);
+        break;
+      case 'unresponsive':
+        if (this.health === 'healthy') {
+          this.unresponsiveSince = event.timestamp;
+          this.health = 'unresponsive';
+          this.report('hang', 'A window became unresponsive');
+        }
+        break;
+      case 'responsive':
+        if (this.health === 'unresponsive') {
+          this.unresponsiveSince = null;
+          this.health = 'healthy';
+        }
+        break;
+    }
+  }
+
+  private reportExit(): void {
+    const status = this.readExitStatus();
+    for (const line of status?.output ?? []) {
+      if (!this.recentOutput.includes(line)) this.addOutput(line);
+    }
+
+    if (!status) {
+      this.report('crash', 'The main process ended without running its exit handlers (killed by a signal, e.g. the OOM killer, or a native crash)');
+    } else if (status.exitCode === 0) {
+      this.report('exit', 'The app exited on its own (exit code 0)', { exitCode: 0 });
+    } else {
+      this.report('crash', `The main process exited with code ${status.exitCode}`, { exitCode: status.exitCode });
+    }
+  }
+
+  private report(type: AppFailure['type'], message: string, details: Pick<AppFailure, 'reason' | 'exitCode'> = {}): void {
+    const failure: AppFailure = {
+      type,
+      message,
+      ...details,
+      timestamp: Date.now(),
+      lastConsoleOutput: this.recentOutput.slice(-10)
+    };
+
+    if (type !== 'hang') {
+      this.health = type === 'exit' ? 'exited' : 'crashed';
+      this.stop();
+    }
+
+    this.lastFailure = failure;
+    logger.error(`Electron app failure (${type}): ${message}`);
+    this.options.onFailure(failure);
+  }
+
+  private readExitStatus(): ExitStatus | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.statusFile, 'utf-8')) as ExitStatus;
+    } catch {
+      return null;
+    }
+  }
+
+  private addOutput(line: string): void {
+    this.recentOutput.push(line);
+    if (this.recentOutput.length > MAX_OUTPUT_LINES) {
+      this.recentOutput.shift();
+    }
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+
+  // A dead child stays a zombie until chromedriver reaps it
+  if (process.platform === 'linux') {
+    try {
+      const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+      return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+    } catch {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the app process chromedriver spawned (its first child)
+ */
+function findDriverChildPid(driverPid: number | undefined): number | null {
+  if (!driverPid || process.platform === 'win32') return null;
+
+  try {
+    const output = execFileSync('ps', ['-A', '-o', 'pid=,ppid='], { encoding: 'utf-8', timeout: 5000 });
+    for (const line of output.split('\n')) {
+      const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+      if (ppid === driverPid) return pid;
+    }
+  } catch (err) {
+    logger.debug('Could not list processes:', err instanceof Error ? err.message : String(err));
+  }
+
+  return null;
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T | null> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), timeout);
+  });
+
+  try {
+    return await Promise.race([promise, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
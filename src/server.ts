@@ -6,7 +6,7 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { getAllTools } from './tools/index.js';
 import { Context } from './context.js';
-import { zodToJsonSchema } from './utils/schema.js';
+import { zodToJsonSchema, withSessionIdProperty } from './utils/schema.js';
 import { logger } from './utils/logger.js';
 
 export async function createServer() {
@@ -32,7 +32,7 @@ export async function createServer() {
     tools: tools.map(t => ({
       name: t.name,
       description: t.description,
-      inputSchema: zodToJsonSchema(t.inputSchema)
+      inputSchema: withSessionIdProperty(zodToJsonSchema(t.inputSchema))
     }))
   }));
 
@@ -50,17 +50,25 @@ export async function createServer() {
 
     logger.debug(`Executing tool: ${name}`, args);
 
+    // Scope the call to the requested session, or the current one
+    const sessionId = typeof args?.sessionId === 'string' ? args.sessionId : undefined;
+    const toolContext = context.forSession(sessionId);
+
     try {
-      const result = await tool.execute(context, args || {});
+      // A ref used by the previous tool may have left WebDriver inside an iframe or webview
+      await toolContext.leaveFrame().catch(err => logger.debug('Could not leave frame:', err));
+
+      const result = await tool.execute(toolContext, args || {});
 
       // Capture snapshot if requested
       if (result.captureSnapshot) {
-        await context.captureSnapshot();
-        const snapshotText = context.formatSnapshotAsText();
+        await toolContext.captureSnapshot();
+        const snapshotText = toolContext.formatSnapshotAsText();
         result.content = `${result.content}\n\n${snapshotText}`;
       }
 
       const content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [
+        ...noticeContent(toolContext.takeNotices()),
         { type: 'text', text: result.content }
       ];
 
@@ -81,7 +89,10 @@ export async function createServer() {
       const message = err instanceof Error ? err.message : String(err);
       logger.error(`Tool ${name} failed:`, message);
       return {
-        content: [{ type: 'text', text: `Error: ${message}` }],
+        content: [
+          ...noticeContent(toolContext.takeNotices()),
+          { type: 'text', text: `Error: ${message}` }
+        ],
         isError: true
       };
     }
@@ -90,19 +101,24 @@ export async function createServer() {
   // Cleanup on exit
   process.on('SIGINT', async () => {
     logger.info('Received SIGINT, cleaning up...');
-    await context.close();
+    await context.closeAllSessions();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
     logger.info('Received SIGTERM, cleaning up...');
-    await context.close();
+    await context.closeAllSessions();
     process.exit(0);
   });
 
   return server;
 }
 
+// Crash and relaunch notices go first so they are not missed
+function noticeContent(notices: string[]): Array<{ type: string; text: string }> {
+  return notices.map(text => ({ type: 'text', text: `Notice: ${text}` }));
+}
+
 export async function runServer() {
   const server = await createServer();
   const transport = new StdioServerTransport();
@@ -0,0 +1,113 @@
+/**
+ * Per-app session state - one entry for every named Electron app the server drives
+ */
+
+import { AppMonitor } from './monitor.js';
+import { VirtualDisplay } from './utils/virtual-display.js';
+import { ElementRefs } from './utils/element-refs.js';
+import {
+  PageSnapshot,
+  FrameSegment,
+  ElectronAppConfig,
+  ElectronAttachConfig,
+  ConsoleLogEntry,
+  NetworkEntry,
+  IpcMessage,
+  RecordedAction,
+  MockResponse,
+  ApiMock,
+  AppFailure
+} from './types.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type WdioBrowser = any;
+
+export const DEFAULT_SESSION_ID = 'default';
+
+export class Session {
+  browser: WdioBrowser | null = null;
+  snapshot: PageSnapshot | null = null;
+  snapshotMatches: SnapshotMatches | null = null;   // what the last electron_snapshot query matched, for its later pages
+  windowSnapshots = new Map<string, PageSnapshot>();   // latest snapshot of each window, by window id
+  elementRefs = new ElementRefs();
+  frameContext: { hostHandle: string; frames: FrameSegment[] } | null = null;   // frame WebDriver was switched into for an element
+  windowIds = new Map<string, number>();   // window handle -> n of "wn", in order of discovery
+  appConfig: ElectronAppConfig | null = null;
+  attachConfig: ElectronAttachConfig | null = null;
+  debuggerAddress: string | null = null;
+  userDataDir: string | null = null;   // managed throwaway profile, removed on close
+  virtualDisplay: VirtualDisplay | null = null;   // Xvfb display owned by a headless launch
+
+  // Lifecycle monitoring
+  monitor: AppMonitor | null = null;
+  recovery: Promise<void> | null = null;   // pending automatic relaunch
+  relaunchCount = 0;
+  lastFailure: AppFailure | null = null;
+  notices: string[] = [];                  // reported with the next tool result
+
+  // CDP data
+  consoleLogs: ConsoleLogEntry[] = [];
+  networkEntries: NetworkEntry[] = [];
+  ipcMessages: IpcMessage[] = [];
+  ipcCapturing = false;
+  mockResponses: MockResponse[] = [];
+  apiMocks: ApiMock[] = [];   // electron module mocks installed in the main process
+  cdpSession: unknown = null;
+
+  // Recording state
+  recordingEnabled = false;
+  actionHistory: RecordedAction[] = [];
+
+  readonly createdAt = Date.now();
+
+  constructor(readonly id: string) {}
+
+  get connectionType(): 'launched' | 'attached' | undefined {
+    if (!this.browser) return undefined;
+    return this.attachConfig ? 'attached' : 'launched';
+  }
+
+  // Binary path for launched apps, debugger address for attached ones
+  get appPath(): string | undefined {
+    return this.appConfig?.binaryPath ?? this.debuggerAddress ?? undefined;
+  }
+
+  /**
+   * Drop everything tied to the running app. Recorded actions are kept so a
+   * test can still be generated after the app is closed.
+   */
+  resetAppState(): void {
+    this.browser = null;
+    this.snapshot = null;
+    this.snapshotMatches = null;
+    this.windowSnapshots = new Map();
+    this.elementRefs = new ElementRefs();
+    this.frameContext = null;
+    this.windowIds = new Map();
+    this.appConfig = null;
+    this.attachConfig = null;
+    this.debuggerAddress = null;
+    this.userDataDir = null;
+    this.virtualDisplay = null;
+    this.monitor = null;
+    this.consoleLogs = [];
+    this.networkEntries = [];
+    this.ipcMessages = [];
+    this.ipcCapturing = false;
+    this.mockResponses = [];
+    this.apiMocks = [];
+    this.cdpSession = null;
+  }
+}
+
+export interface SnapshotMatches {
+  timestamp: number;   // of the snapshot the refs belong to
+  refs: string[];
+  rootRef?: string;
+}
+
+// Shared between a Context and the session-scoped views created from it
+export interface SessionRegistry {
+  sessions: Map<string, Session>;
+  currentId: string | null;
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+
+const schema = z.object({
+  host: z.string().optional().default('127.0.0.1').describe('Host the app\'s remote debugging port listens on'),
+  port: z.number().optional().describe('Remote debugging port the app was started with (--remote-debugging-port, not --inspect)'),
+  wsEndpoint: z.string().optional().describe('DevTools websocket URL (ws://host:port/devtools/browser/...) instead of host and port'),
+  chromedriverPaths: z.array(z.string()).optional().describe('Chromedriver binaries or directories to search before the cache directory'),
+  chromedriverCacheDir: z.string().optional().describe('Directory holding cached chromedriver downloads (default ~/.cache/electron-mcp-server/chromedriver)'),
+  offline: z.boolean().optional().default(false).describe('Never download chromedriver; fail with instructions if no local one matches the app\'s Chromium version'),
+  actionTimeout: z.number().int().positive().optional().default(5000).describe('How long interaction tools wait, in ms, for an element to be visible, enabled, stable and uncovered before failing'),
+  sessionId: z.string().optional().describe('Name for this app session. Attaching into an existing session replaces its app.')
+});
+
+export class ElectronAttachTool extends BaseTool {
+  readonly name = 'electron_attach';
+  readonly description = 'Attach to an Electron app that is already running with --remote-debugging-port. A Node.js --inspect port alone is not enough: it only reaches the main process, so the app must also be started with --remote-debugging-port. electron_close detaches without quitting the app.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const {
+      host, port, wsEndpoint, chromedriverPaths, chromedriverCacheDir, offline, actionTimeout, sessionId
+    } = this.parseParams(schema, params);
+    const sessionContext = context.forSession(sessionId);
+
+    if (!port && !wsEndpoint) {
+      return this.error('Provide either port or wsEndpoint to attach to a running app');
+    }
+
+    try {
+      await sessionContext.attachApp({
+        host,
+        port,
+        wsEndpoint,
+        chromedriver: {
+          paths: chromedriverPaths,
+          cacheDir: chromedriverCacheDir,
+          download: !offline
+        },
+        actionTimeout
+      });
+
+      // Record action if recording is enabled
+      sessionContext.recordAction('electron_attach', { host, port, wsEndpoint });
+
+      const target = wsEndpoint || `${host}:${port}`;
+      return this.success(`Attached to Electron app at ${target} in session "${sessionContext.sessionId}"`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to attach to Electron app: ${message}`);
+    }
+  }
+}
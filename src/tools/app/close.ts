@@ -7,7 +7,7 @@ const schema = z.object({});
 
 export class ElectronCloseTool extends BaseTool {
   readonly name = 'electron_close';
-  readonly description = 'Close the Electron application and end the WebdriverIO session';
+  readonly description = 'Close the Electron application and end the WebdriverIO session. Apps joined with electron_attach are detached and left running.';
   readonly inputSchema = schema;
 
   async execute(context: Context, _params: unknown): Promise<ToolResult> {
@@ -19,8 +19,13 @@ export class ElectronCloseTool extends BaseTool {
       // Record action if recording is enabled
       context.recordAction('electron_close', {});
 
+      const attached = context.isAttached();
       await context.close();
-      return this.success('Electron app closed successfully');
+
+      if (attached) {
+        return this.success(`Detached from Electron app; the app is still running (session "${context.sessionId}")`);
+      }
+      return this.success(`Electron app closed successfully (session "${context.sessionId}")`);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return this.error(`Failed to close Electron app: ${message}`);
@@ -1,2 +1,3 @@
 export { ElectronLaunchTool } from './launch.js';
 export { ElectronCloseTool } from './close.js';
+export { ElectronAttachTool } from './attach.js';
@@ -4,41 +4,89 @@ import { Context } from '../../context.js';
 import { ToolResult } from '../../types.js';
 
 const schema = z.object({
-  binaryPath: z.string().describe('Path to the Electron application binary (.app on macOS, .exe on Windows)'),
+  binaryPath: z.string().describe('Path to the Electron application binary (.app on macOS, .exe on Windows), or a packaged build: linux-unpacked directory, extracted AppImage (squashfs-root/AppRun) or app binary with resources/app.asar'),
   args: z.array(z.string()).optional().describe('Command line arguments to pass to the app'),
   cwd: z.string().optional().describe('Working directory for the app'),
-  env: z.record(z.string()).optional().describe('Environment variables to set'),
+  env: z.record(z.string()).optional().describe('Environment variables to set for the app process'),
+  switches: z.array(z.string()).optional().describe('Extra Chromium/Electron switches (e.g., --lang=de, --force-device-scale-factor=1)'),
+  isolateUserData: z.boolean().optional().default(false).describe('Launch with a fresh temporary --user-data-dir that is deleted on close'),
+  userDataFixture: z.string().optional().describe('Directory to copy into the temporary user data dir (implies isolateUserData)'),
+  headless: z.boolean().optional().default(false).describe('Linux only: run the app on a private Xvfb display sized to the window, adding --disable-gpu (and --no-sandbox as root or in a container). Needs Xvfb installed.'),
   windowWidth: z.number().optional().default(1280).describe('Initial window width'),
   windowHeight: z.number().optional().default(720).describe('Initial window height'),
-  waitTimeout: z.number().optional().default(10000).describe('Timeout in ms to wait for app to start')
+  waitTimeout: z.number().optional().default(10000).describe('Timeout in ms to wait for app to start'),
+  waitFor: z.enum(['load', 'window', 'selector', 'network_idle', 'predicate']).optional().default('load')
+    .describe('When the app counts as ready: first window loaded, a window matching title/URL, a selector displayed, network idle, or a JS predicate'),
+  readyWindowTitle: z.string().optional().describe('For waitFor=window: wait for a window whose title contains this text (e.g., skip a splash window)'),
+  readyWindowUrl: z.string().optional().describe('For waitFor=window: wait for a window whose URL contains this text'),
+  readySelector: z.string().optional().describe('For waitFor=selector: CSS selector that must be displayed'),
+  readyScript: z.string().optional().describe('For waitFor=predicate: function body returning true when ready (e.g., "return window.appReady === true")'),
+  networkIdleMs: z.number().optional().describe('For waitFor=network_idle: ms without new requests (default 500)'),
+  chromedriverPaths: z.array(z.string()).optional().describe('Chromedriver binaries or directories to search before the cache directory'),
+  chromedriverCacheDir: z.string().optional().describe('Directory holding cached chromedriver downloads (default ~/.cache/electron-mcp-server/chromedriver)'),
+  offline: z.boolean().optional().default(false).describe('Never download chromedriver; fail with instructions if no local one matches the app\'s Chromium version'),
+  autoRelaunch: z.boolean().optional().default(false).describe('Relaunch the app with the same options if it crashes or exits (element refs from before are invalidated)'),
+  maxRelaunches: z.number().optional().default(3).describe('Give up relaunching after this many automatic relaunches'),
+  hangTimeout: z.number().optional().default(10000).describe('Report the app as hung when it does not answer for this many ms'),
+  actionTimeout: z.number().int().positive().optional().default(5000).describe('How long interaction tools wait, in ms, for an element to be visible, enabled, stable and uncovered before failing'),
+  sessionId: z.string().optional().describe('Name for this app session (e.g., "sender", "receiver"). Launching into an existing session replaces its app.')
 });
 
 export class ElectronLaunchTool extends BaseTool {
   readonly name = 'electron_launch';
-  readonly description = 'Launch an Electron application for testing. Connects via WebdriverIO with the Electron service.';
+  readonly description = 'Launch an Electron application for testing. Connects via WebdriverIO with the Electron service. Several apps can run side by side in named sessions; the launched session becomes the current one.';
   readonly inputSchema = schema;
 
   async execute(context: Context, params: unknown): Promise<ToolResult> {
-    const { binaryPath, args, cwd, env, windowWidth, windowHeight, waitTimeout } = this.parseParams(schema, params);
+    const {
+      binaryPath, args, cwd, env, switches, isolateUserData, userDataFixture, headless,
+      windowWidth, windowHeight, waitTimeout, waitFor, readyWindowTitle, readyWindowUrl,
+      readySelector, readyScript, networkIdleMs, chromedriverPaths, chromedriverCacheDir, offline,
+      autoRelaunch, maxRelaunches, hangTimeout, actionTimeout, sessionId
+    } = this.parseParams(schema, params);
+    const sessionContext = context.forSession(sessionId);
 
     try {
-      await context.launchApp({
+      await sessionContext.launchApp({
         binaryPath,
         args,
         cwd,
         env,
+        switches,
+        isolateUserData,
+        userDataFixture,
+        headless,
         windowSize: {
           width: windowWidth || 1280,
           height: windowHeight || 720
         },
         waitForFirstWindow: true,
-        waitTimeout: waitTimeout || 10000
+        waitTimeout: waitTimeout || 10000,
+        readiness: {
+          mode: waitFor || 'load',
+          windowTitle: readyWindowTitle,
+          windowUrl: readyWindowUrl,
+          selector: readySelector,
+          script: readyScript,
+          idleTime: networkIdleMs
+        },
+        chromedriver: {
+          paths: chromedriverPaths,
+          cacheDir: chromedriverCacheDir,
+          download: !offline
+        },
+        recovery: {
+          autoRelaunch,
+          maxRelaunches,
+          hangTimeout
+        },
+        actionTimeout
       });
 
       // Record action if recording is enabled
-      context.recordAction('electron_launch', { binaryPath, args });
+      sessionContext.recordAction('electron_launch', { binaryPath, args });
 
-      return this.success(`Electron app launched: ${binaryPath}`, true);
+      return this.success(`Electron app launched in session "${sessionContext.sessionId}": ${binaryPath}`, true);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return this.error(`Failed to launch Electron app: ${message}`);
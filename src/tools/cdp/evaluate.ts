@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { BaseTool } from '../base.js';
 import { Context } from '../../context.js';
 import { ToolResult } from '../../types.js';
+import { formatScriptResult } from '../../utils/format.js';
 
 const schema = z.object({
   script: z.string().describe('JavaScript code to execute in the app context'),
@@ -38,19 +39,7 @@ export class ElectronCDPEvaluateTool extends BaseTool {
         return this.success('Script executed successfully');
       }
 
-      // Format the result
-      let resultStr: string;
-      if (result === undefined) {
-        resultStr = 'undefined';
-      } else if (result === null) {
-        resultStr = 'null';
-      } else if (typeof result === 'object') {
-        resultStr = JSON.stringify(result, null, 2);
-      } else {
-        resultStr = String(result);
-      }
-
-      return this.success(`Script result:\n${resultStr}`);
+      return this.success(`Script result:\n${formatScriptResult(result)}`);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return this.error(`Script execution failed: ${message}`);
@@ -23,7 +23,7 @@ export class ElectronClickTool extends BaseTool {
       const snapshot = await context.getSnapshot();
       const elementInfo = snapshot.elements.get(ref);
 
-      const element = await context.getElementByRef(ref);
+      const element = await context.getActionableElement(ref);
       await element.click();
 
       // Record action if recording is enabled
@@ -1,3 +1,5 @@
 export { ElectronSnapshotTool } from './snapshot.js';
+export { ElectronSnapshotDiffTool } from './snapshot-diff.js';
 export { ElectronClickTool } from './click.js';
 export { ElectronTypeTool } from './type.js';
+export { ElectronSetControlTool } from './set-control.js';
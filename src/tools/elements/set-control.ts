@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import {
+  controlKind,
+  INPUT_FORMATS,
+  CONTROL_STATE_SCRIPT,
+  SELECT_OPTIONS_SCRIPT,
+  SET_INPUT_VALUE_SCRIPT,
+  FIND_OPTION_SCRIPT,
+  OPTION_NAMES_SCRIPT
+} from '../../utils/controls.js';
+
+// How long a combobox gets to show its options after being opened
+const OPTIONS_TIMEOUT = 2000;
+// Most arrow key presses used to move a custom slider
+const MAX_SLIDER_STEPS = 200;
+
+const schema = z.object({
+  ref: z.string().describe('Element reference (e.g., e1, e2) of the control'),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional()
+    .describe('select: option label or value (a list for multi-selects); checkbox/switch: true or false (default true); radio: true; range/slider: a number; date/time/color inputs: a value in the input\'s format, e.g. 2024-05-31; combobox/listbox: the option name')
+});
+
+interface ControlState {
+  checked: boolean | 'mixed' | null;
+  value: string;
+  valueNow: number | null;
+}
+
+export class ElectronSetControlTool extends BaseTool {
+  readonly name = 'electron_set_control';
+  readonly description = 'Set a form control the way a user would: pick a select or combobox option, check or uncheck a checkbox or switch, choose a radio button, move a slider, or fill a date/time input. The control type comes from the snapshot. Reports the resulting value.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { ref, value } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      const snapshot = await context.getSnapshot();
+      const info = snapshot.elements.get(ref);
+      const kind = info ? controlKind(info) : null;
+
+      // Selects, inputs and sliders are set by script or keyboard; the rest are clicked
+      const clicked = kind === 'checkbox' || kind === 'radio' || kind === 'combobox' || kind === 'listbox';
+      const element = await context.getActionableElement(ref, { hitTarget: clicked });
+      const elementInfo = info!;
+
+      if (!kind) {
+        const role = elementInfo.role ? ` with role ${elementInfo.role}` : '';
+        return this.error(`${ref} (${elementInfo.tagName}${role}) is not a control electron_set_control can set. Use electron_type for text fields.`);
+      }
+
+      const readState = () => context.executeOnElement<ControlState>(CONTROL_STATE_SCRIPT, element);
+      const recorded: Record<string, unknown> = { ref, kind, value };
+
+      switch (kind) {
+        case 'select': {
+          if (value === undefined || typeof value === 'boolean') {
+            return this.error(`${ref} is a select: give the option label or value to pick`);
+          }
+          const wanted = Array.isArray(value) ? value : [String(value)];
+          const result = await context.executeOnElement<{ selected?: string[]; error?: string }>(SELECT_OPTIONS_SCRIPT, element, wanted);
+          if (result.error) {
+            return this.error(`Failed to set ${ref}: ${result.error}`);
+          }
+          recorded.selected = result.selected;
+          break;
+        }
+
+        case 'checkbox':
+        case 'radio': {
+          const checked = toChecked(value);
+          if (checked === null) {
+            return this.error(`${ref} is a ${kind}: value must be true or false`);
+          }
+          if (kind === 'radio' && !checked) {
+            return this.error(`${ref} is a radio button, which cannot be unchecked. Choose another option of its group instead.`);
+          }
+          if ((await readState()).checked !== checked) {
+            await element.click();
+          }
+          recorded.value = checked;
+          break;
+        }
+
+        case 'input': {
+          const type = elementInfo.attributes['type'].toLowerCase();
+          if (value === undefined || typeof value === 'boolean' || Array.isArray(value)) {
+            return this.error(`${ref} is a ${type} input: give a value as ${INPUT_FORMATS[type]}`);
+          }
+          const text = String(value);
+          const result = await context.executeOnElement<string>(SET_INPUT_VALUE_SCRIPT, element, text);
+          // Inputs drop values that do not parse
+          if (result === '' && text !== '') {
+            return this.error(`"${text}" is not a valid value for the ${type} input ${ref}. Use ${INPUT_FORMATS[type]}.`);
+          }
+          break;
+        }
+
+        case 'slider': {
+          const target = Number(value);
+          if (value === undefined || typeof value === 'boolean' || Array.isArray(value) || Number.isNaN(target)) {
+            return this.error(`${ref} is a slider: give the value as a number`);
+          }
+          const steps = await this.moveSlider(context, element, target, readState);
+          if (typeof steps === 'string') {
+            return this.error(steps);
+          }
+          recorded.key = steps.key;
+          recorded.count = steps.count;
+          break;
+        }
+
+        case 'combobox':
+        case 'listbox': {
+          if (value === undefined || typeof value === 'boolean' || Array.isArray(value)) {
+            return this.error(`${ref} is a ${kind}: give the name of the option to pick`);
+          }
+          const label = String(value);
+          const option = await this.findOption(context, element, kind, label);
+          if (!option) {
+            const names = await context.executeOnElement<string[]>(OPTION_NAMES_SCRIPT, element);
+            return this.error(`No option "${label}" in ${ref}. Options: ${names.length > 0 ? names.join(', ') : 'none shown'}`);
+          }
+          await option.click();
+          break;
+        }
+      }
+
+      context.recordAction('electron_set_control', recorded, {
+        ref,
+        tagName: elementInfo.tagName,
+        text: elementInfo.text,
+        attributes: elementInfo.attributes
+      });
+
+      const state = await readState().catch(() => null);
+      const result = !state
+        ? ''
+        : state.checked !== null
+          ? ` (now ${state.checked === 'mixed' ? 'mixed' : state.checked ? 'checked' : 'unchecked'})`
+          : ` (value: "${state.value.slice(0, 100)}")`;
+      return this.success(`Set ${kind} ${ref}${result}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to set control ${ref}: ${message}`);
+    }
+  }
+
+  // Custom sliders only move by keyboard: arrow keys until aria-valuenow reaches the target
+  private async moveSlider(
+    context: Context,
+    element: unknown,
+    target: number,
+    readState: () => Promise<ControlState>
+  ): Promise<{ key: string; count: number } | string> {
+    let now = (await readState()).valueNow;
+    if (now === null) {
+      return 'The slider has no aria-valuenow, so its value cannot be read';
+    }
+
+    const key = target > now ? 'ArrowUp' : 'ArrowDown';
+    await context.focusElement(element);
+
+    let count = 0;
+    while (count < MAX_SLIDER_STEPS && (key === 'ArrowUp' ? now < target : now > target)) {
+      await context.pressKeys([{ modifiers: [], key }]);
+      count++;
+      const next: number | null = (await readState()).valueNow;
+      if (next === null || next === now) break;   // at its minimum or maximum
+      now = next;
+    }
+    return { key, count };
+  }
+
+  // Comboboxes show their options once opened; listboxes always do
+  private async findOption(context: Context, element: { click(): Promise<void> }, kind: 'combobox' | 'listbox', label: string) {
+    const find = () => context.executeOnElement<{ click(): Promise<void> } | null>(FIND_OPTION_SCRIPT, element, label);
+
+    let option = await find();
+    if (option || kind === 'listbox') return option;
+
+    await element.click();
+    const browser = await context.getBrowser();
+    await browser.waitUntil(async () => {
+      option = await find();
+      return option !== null;
+    }, { timeout: OPTIONS_TIMEOUT, interval: 200 }).catch(() => undefined);
+    return option;
+  }
+}
+
+function toChecked(value: unknown): boolean | null {
+  if (value === undefined) return true;
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'on', 'checked', 'yes', '1'].includes(text)) return true;
+  if (['false', 'off', 'unchecked', 'no', '0'].includes(text)) return false;
+  return null;
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ElementInfo, ToolResult } from '../../types.js';
+
+const schema = z.object({
+  mode: z.enum(['dom', 'ax']).optional()
+    .describe('Snapshot mode for the new snapshot (default: the mode of the previous snapshot)')
+});
+
+export class ElectronSnapshotDiffTool extends BaseTool {
+  readonly name = 'electron_snapshot_diff';
+  readonly description = 'Take a new snapshot and report the elements added, removed and changed since the previous snapshot of the active window. Refs are stable, so unchanged elements keep their refs.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { mode } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      const { snapshot, diff } = await context.diffSnapshot(mode);
+
+      if (!diff) {
+        return this.success(
+          `No earlier snapshot of window ${snapshot.windowId}; this snapshot is the baseline for the next diff.\n\n` +
+          context.formatSnapshotAsText()
+        );
+      }
+
+      const seconds = ((snapshot.timestamp - diff.since) / 1000).toFixed(1);
+      const lines = [`Window ${diff.windowId}: changes since the snapshot ${seconds}s ago`];
+
+      if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+        lines.push('No changes');
+        return this.success(lines.join('\n'));
+      }
+
+      if (diff.added.length > 0) {
+        lines.push('', `Added (${diff.added.length}):`, ...diff.added.map(el => `  + ${describe(el)}`));
+      }
+      if (diff.removed.length > 0) {
+        lines.push('', `Removed (${diff.removed.length}):`, ...diff.removed.map(el => `  - ${describe(el)}`));
+      }
+      if (diff.changed.length > 0) {
+        lines.push('', `Changed (${diff.changed.length}):`);
+        for (const { element, changes } of diff.changed) {
+          lines.push(`  ~ ${describe(element)}`, ...changes.map(change => `      ${change}`));
+        }
+      }
+
+      return this.success(lines.join('\n'));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to diff snapshots: ${message}`);
+    }
+  }
+}
+
+function describe(el: ElementInfo): string {
+  const label = el.accessibleName || el.ariaLabel || el.text || el.role || el.tagName;
+  return `[${el.ref}] ${el.role ?? el.tagName}: ${label.slice(0, 50)}`;
+}
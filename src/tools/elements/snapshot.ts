@@ -1,27 +1,68 @@
 import { z } from 'zod';
 import { BaseTool } from '../base.js';
 import { Context } from '../../context.js';
-import { ToolResult } from '../../types.js';
+import { SnapshotPage, ToolResult } from '../../types.js';
 
-const schema = z.object({});
+const schema = z.object({
+  mode: z.enum(['dom', 'ax']).optional()
+    .describe('dom: interactive elements matched by CSS selectors, ax: nested accessibility tree (roles, names, values, states) with refs on actionable nodes, including custom widgets. Default: the mode of the previous snapshot, else dom'),
+  root: z.string().optional()
+    .describe('Only include elements inside this element, given as a ref from an earlier snapshot or a CSS selector'),
+  role: z.array(z.string()).optional()
+    .describe('Only include elements with one of these roles (tag name for elements without a role)'),
+  text: z.string().optional()
+    .describe('Only include elements whose name or text contains this, case-insensitive'),
+  viewportOnly: z.boolean().optional()
+    .describe('Only include elements currently scrolled into view'),
+  limit: z.number().int().positive().optional()
+    .describe('Most elements to return; the response includes a cursor for the next page'),
+  cursor: z.string().optional()
+    .describe('Cursor from a previous response, to page through the same snapshot'),
+  format: z.enum(['compact', 'verbose', 'json']).optional().default('compact')
+    .describe('compact: one line per element, verbose: adds attributes, box and parent, json: structured data for programmatic clients')
+});
 
 export class ElectronSnapshotTool extends BaseTool {
   readonly name = 'electron_snapshot';
-  readonly description = 'Capture the current UI state including all interactive elements. Returns element references (e1, e2, etc.) that can be used for interactions.';
+  readonly description = 'Capture the current UI state including all interactive elements. Returns element references (e1, e2, etc.) that can be used for interactions. Can be scoped to part of the page, filtered and paged.';
   readonly inputSchema = schema;
 
-  async execute(context: Context, _params: unknown): Promise<ToolResult> {
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { mode, role, format, ...query } = this.parseParams(schema, params);
+
     if (!context.isConnected()) {
       return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
     }
 
     try {
-      await context.captureSnapshot();
-      const snapshotText = context.formatSnapshotAsText();
-      return this.success(snapshotText, false);
+      const page = await context.querySnapshot({ ...query, roles: role }, mode);
+
+      if (format === 'json') {
+        return this.success(JSON.stringify(toJson(page), null, 2), false);
+      }
+
+      return this.success(context.formatSnapshotAsText(page, format === 'verbose'), false);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return this.error(`Failed to capture snapshot: ${message}`);
     }
   }
 }
+
+function toJson(page: SnapshotPage) {
+  const { snapshot } = page;
+  return {
+    windowId: snapshot.windowId,
+    title: snapshot.title,
+    url: snapshot.url,
+    mode: snapshot.mode,
+    timestamp: snapshot.timestamp,
+    captureTime: snapshot.captureTime,
+    totalElements: snapshot.totalElements,
+    matched: page.matched,
+    offset: page.offset,
+    nextCursor: page.nextCursor ?? null,
+    elements: page.elements,
+    tree: snapshot.mode === 'ax' && !page.filtered && !page.rootRef ? snapshot.axTree : undefined
+  };
+}
@@ -25,7 +25,7 @@ export class ElectronTypeTool extends BaseTool {
       const snapshot = await context.getSnapshot();
       const elementInfo = snapshot.elements.get(ref);
 
-      const element = await context.getElementByRef(ref);
+      const element = await context.getActionableElement(ref, { hitTarget: false });
 
       if (clear) {
         await element.clearValue();
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import { resolveLocalFiles, readDropFiles, DROP_FILES_SCRIPT } from '../../utils/files.js';
+
+const schema = z.object({
+  ref: z.string().describe('Element reference of the drop zone'),
+  paths: z.array(z.string()).min(1).describe('Local file paths to drop; relative paths resolve against the server\'s working directory')
+});
+
+export class ElectronDropFilesTool extends BaseTool {
+  readonly name = 'electron_drop_files';
+  readonly description = 'Drop local files onto an element: fires dragenter, dragover and drop with File objects holding the files\' contents, as when files are dragged in from the desktop';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { ref, paths } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      const files = await readDropFiles(await resolveLocalFiles(paths));
+      const snapshot = await context.getSnapshot();
+      const elementInfo = snapshot.elements.get(ref);
+
+      const element = await context.getActionableElement(ref, { enabled: false });
+      const result = await context.executeOnElement<{ accepted: boolean; names: string[] }>(DROP_FILES_SCRIPT, element, files);
+
+      context.recordAction('electron_drop_files', { ref, paths: files.map(file => file.path) }, elementInfo ? {
+        ref,
+        tagName: elementInfo.tagName,
+        text: elementInfo.text,
+        attributes: elementInfo.attributes
+      } : undefined);
+
+      const note = result.accepted ? '' : '\nNote: the page did not call preventDefault on dragover or drop, so it may not handle dropped files here.';
+      return this.success(`Dropped ${result.names.join(', ')} onto ${ref}${note}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to drop files onto ${ref}: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { ElectronUploadFilesTool } from './upload.js';
+export { ElectronDropFilesTool } from './drop.js';
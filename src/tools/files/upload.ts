@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import { resolveLocalFiles, FILE_INPUT_SCRIPT, FILE_INPUT_STATE_SCRIPT } from '../../utils/files.js';
+
+const schema = z.object({
+  ref: z.string().describe('Element reference of an <input type="file">, or of the button or label in front of a hidden one'),
+  paths: z.array(z.string()).min(1).describe('Local file paths to select; relative paths resolve against the server\'s working directory')
+});
+
+interface FileInputState {
+  id: string;
+  name: string | null;
+  multiple: boolean;
+  files: string[];
+}
+
+export class ElectronUploadFilesTool extends BaseTool {
+  readonly name = 'electron_upload_files';
+  readonly description = 'Select local files in a file input, as if chosen in the file dialog. The ref may be the input itself or the button/label that stands in for a hidden input.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { ref, paths } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      const files = await resolveLocalFiles(paths);
+      // No actionability wait: file inputs are usually hidden behind a styled button
+      const element = await context.getElementByRef(ref);
+
+      const input = await context.executeOnElement<{ addValue(value: string): Promise<void> } | null>(FILE_INPUT_SCRIPT, element);
+      if (!input) {
+        return this.error(`No file input at or around ${ref}`);
+      }
+
+      const before = await context.executeOnElement<FileInputState>(FILE_INPUT_STATE_SCRIPT, input);
+      if (files.length > 1 && !before.multiple) {
+        return this.error(`The file input at ${ref} takes a single file, got ${files.length}`);
+      }
+
+      // Chromedriver adds to the files of a multiple input, so start from an empty one
+      await context.executeOnElement('arguments[0].value = "";', input);
+      await input.addValue(files.join('\n'));
+
+      const after = await context.executeOnElement<FileInputState>(FILE_INPUT_STATE_SCRIPT, input);
+
+      context.recordAction('electron_upload_files', { ref, paths: files }, {
+        ref,
+        tagName: 'input',
+        attributes: Object.fromEntries(
+          [['type', 'file'], ['id', after.id], ['name', after.name ?? '']].filter(([, value]) => value)
+        )
+      });
+
+      return this.success(`Selected ${after.files.length} file(s) in ${ref}: ${after.files.join(', ')}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to upload files to ${ref}: ${message}`);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { BaseTool } from '../base.js';
 import { Context } from '../../context.js';
 import { ToolResult, RecordedAction } from '../../types.js';
+import { parseChord, isNamedKey } from '../../utils/keys.js';
 
 const schema = z.object({
   format: z.enum(['webdriverio_js', 'webdriverio_ts', 'playwright_js', 'playwright_ts']).describe('Test framework and language format'),
@@ -55,7 +56,7 @@ export class ElectronGenerateTestTool extends BaseTool {
 
   private generateWebdriverIOJS(actions: RecordedAction[], testName: string, appPath: string): string {
     const lines: string[] = [
-      "const { remote } = require('webdriverio');",
+      "const { remote, Key } = require('webdriverio');",
       '',
       `describe('Electron App Tests', () => {`,
       '    let browser;',
@@ -93,7 +94,7 @@ export class ElectronGenerateTestTool extends BaseTool {
 
   private generateWebdriverIOTS(actions: RecordedAction[], testName: string, appPath: string): string {
     const lines: string[] = [
-      "import { remote, Browser } from 'webdriverio';",
+      "import { remote, Key, Browser } from 'webdriverio';",
       '',
       `describe('Electron App Tests', () => {`,
       '    let browser: Browser;',
@@ -136,7 +137,7 @@ export class ElectronGenerateTestTool extends BaseTool {
       '',
       `test('${testName.replace(/_/g, ' ')}', async () => {`,
       `    const electronApp = await electron.launch({ executablePath: '${appPath}' });`,
-      '    const window = await electronApp.firstWindow();',
+      '    let window = await electronApp.firstWindow();',
       '',
       '    try {'
     ];
@@ -163,7 +164,7 @@ export class ElectronGenerateTestTool extends BaseTool {
       '',
       `test('${testName.replace(/_/g, ' ')}', async () => {`,
       `    const electronApp: ElectronApplication = await electron.launch({ executablePath: '${appPath}' });`,
-      '    const window: Page = await electronApp.firstWindow();',
+      '    let window: Page = await electronApp.firstWindow();',
       '',
       '    try {'
     ];
@@ -189,12 +190,38 @@ export class ElectronGenerateTestTool extends BaseTool {
     switch (tool) {
       case 'electron_launch':
         return `// App launched: ${params.binaryPath}`;
+      case 'electron_attach':
+        return `// Attached to running app: ${params.wsEndpoint || `${params.host}:${params.port}`}`;
       case 'electron_click':
         return this.generateClickCode(params, elementInfo, 'wdio');
       case 'electron_type':
         return this.generateTypeCode(params, elementInfo, 'wdio');
+      case 'electron_hover':
+      case 'electron_double_click':
+      case 'electron_right_click':
+      case 'electron_drag':
+        return this.generatePointerCode(action, 'wdio');
+      case 'electron_press_key':
+        return this.generateKeysCode(action, 'wdio');
+      case 'electron_set_control':
+        return this.generateSetControlCode(params, elementInfo, 'wdio');
+      case 'electron_upload_files':
+      case 'electron_drop_files':
+        return this.generateFilesCode(action, 'wdio');
+      case 'electron_scroll':
+        return this.generateScrollCode(params, elementInfo, 'wdio');
       case 'electron_screenshot':
         return `await browser.saveScreenshot('${params.filename || 'screenshot.png'}');`;
+      case 'electron_main_evaluate':
+        return `await browser.electron.execute(${[params.script, ...this.argList(params.args)].join(', ')});`;
+      case 'electron_mock_api':
+        return this.generateMockApiWebdriverIO(params);
+      case 'electron_menu_click':
+        return this.generateMenuClickCode(params, 'await browser.electron.execute');
+      case 'electron_windows':
+        return this.generateWindowsWebdriverIO(params);
+      case 'electron_window_state':
+        return `await browser.electron.execute((electron) => { const win = electron.BrowserWindow.getFocusedWindow() || electron.BrowserWindow.getAllWindows()[0]; ${this.windowStateCall(params)}; });`;
       case 'electron_close':
         return '// App closed';
       default:
@@ -208,12 +235,38 @@ export class ElectronGenerateTestTool extends BaseTool {
     switch (tool) {
       case 'electron_launch':
         return `// App launched: ${params.binaryPath}`;
+      case 'electron_attach':
+        return `// Attached to running app: ${params.wsEndpoint || `${params.host}:${params.port}`}`;
       case 'electron_click':
         return this.generateClickCode(params, elementInfo, 'playwright');
       case 'electron_type':
         return this.generateTypeCode(params, elementInfo, 'playwright');
+      case 'electron_hover':
+      case 'electron_double_click':
+      case 'electron_right_click':
+      case 'electron_drag':
+        return this.generatePointerCode(action, 'playwright');
+      case 'electron_press_key':
+        return this.generateKeysCode(action, 'playwright');
+      case 'electron_set_control':
+        return this.generateSetControlCode(params, elementInfo, 'playwright');
+      case 'electron_upload_files':
+      case 'electron_drop_files':
+        return this.generateFilesCode(action, 'playwright');
+      case 'electron_scroll':
+        return this.generateScrollCode(params, elementInfo, 'playwright');
       case 'electron_screenshot':
         return `await window.screenshot({ path: '${params.filename || 'screenshot.png'}' });`;
+      case 'electron_main_evaluate':
+        return this.generateMainEvaluatePlaywright(params);
+      case 'electron_mock_api':
+        return this.generateMockApiPlaywright(params);
+      case 'electron_menu_click':
+        return this.generateMenuClickCode(params, 'await electronApp.evaluate');
+      case 'electron_windows':
+        return this.generateWindowsPlaywright(params);
+      case 'electron_window_state':
+        return `await (await electronApp.browserWindow(window)).evaluate((win) => { ${this.windowStateCall(params)}; });`;
       case 'electron_close':
         return '// App closed';
       default:
@@ -221,6 +274,154 @@ export class ElectronGenerateTestTool extends BaseTool {
     }
   }
 
+  private argList(args: unknown): string[] {
+    return Array.isArray(args) ? args.map(arg => JSON.stringify(arg)) : [];
+  }
+
+  // electronApp.evaluate passes a single argument, so several args are spread from an array
+  private generateMainEvaluatePlaywright(params: Record<string, unknown>): string {
+    const args = this.argList(params.args);
+    if (args.length <= 1) {
+      return `await electronApp.evaluate(${[params.script, ...args].join(', ')});`;
+    }
+    return `await electronApp.evaluate((electron, args) => (${params.script})(electron, ...args), [${args.join(', ')}]);`;
+  }
+
+  // Module functions use the service's mock API; class methods are patched on the prototype
+  private generateMockApiWebdriverIO(params: Record<string, unknown>): string {
+    const { action, api, method } = params;
+    const target = `${api}.${method}`;
+    const isClass = /^[A-Z]/.test(String(api));
+
+    switch (action) {
+      case 'mock':
+        if (isClass) {
+          return `await browser.electron.execute((electron, value) => { electron.${api}.prototype.${method} = ${this.mockFunctionCode(params)}; }, ${JSON.stringify(params.value ?? null)});`;
+        }
+        return `await browser.electron.mock('${api}', '${method}').then(mock => mock.${this.wdioMockSetter(params)});`;
+      case 'calls':
+        return `// electron.${target} was called ${params.callCount} time(s)`;
+      case 'reset':
+        return isClass ? `// Cleared calls of electron.${target}` : `await browser.electron.resetAllMocks('${api}');`;
+      case 'restore':
+        return isClass ? `// Restored electron.${target}` : `await browser.electron.restoreAllMocks('${api}');`;
+      default:
+        return `// electron_mock_api ${action} ${target}`;
+    }
+  }
+
+  private wdioMockSetter(params: Record<string, unknown>): string {
+    const value = JSON.stringify(params.value ?? null);
+    switch (params.mode) {
+      case 'resolve':
+        return `mockResolvedValue(${value})`;
+      case 'reject':
+        return `mockRejectedValue(new Error(${value}))`;
+      case 'implementation':
+        return `mockImplementation(${params.implementation})`;
+      default:
+        return `mockReturnValue(${value})`;
+    }
+  }
+
+  private generateMockApiPlaywright(params: Record<string, unknown>): string {
+    const { action, api, method } = params;
+    const target = `${api}.${method}`;
+    const holder = /^[A-Z]/.test(String(api)) ? `electron.${api}.prototype` : `electron.${api}`;
+
+    if (action === 'mock') {
+      return `await electronApp.evaluate((electron, value) => { ${holder}.${method} = ${this.mockFunctionCode(params)}; }, ${JSON.stringify(params.value ?? null)});`;
+    }
+    if (action === 'calls') {
+      return `// electron.${target} was called ${params.callCount} time(s)`;
+    }
+    return `// ${action === 'reset' ? 'Cleared calls of' : 'Restored'} electron.${target}`;
+  }
+
+  // Function expression that behaves like the mock, with the canned value in scope as `value`
+  private mockFunctionCode(params: Record<string, unknown>): string {
+    switch (params.mode) {
+      case 'resolve':
+        return 'async () => value';
+      case 'reject':
+        return 'async () => { throw new Error(String(value)); }';
+      case 'implementation':
+        return String(params.implementation);
+      default:
+        return '() => value';
+    }
+  }
+
+  // Walks the application menu by label and clicks the last item
+  private generateMenuClickCode(params: Record<string, unknown>, evaluate: string): string {
+    const path = params.path as string[];
+    if (params.menu === 'context') {
+      return `// Context menu: clicked "${path.join(' > ')}"`;
+    }
+    const walk = '(electron, path) => path.reduce((items, label, i) => { ' +
+      'const item = items.find(it => it.label.replace(/&/g, \'\').toLowerCase() === label.toLowerCase()); ' +
+      'return i === path.length - 1 ? item.click() : item.submenu.items; ' +
+      '}, electron.Menu.getApplicationMenu().items)';
+    return `${evaluate}(${walk}, ${JSON.stringify(path)});`;
+  }
+
+  // browser.switchWindow matches the title or URL
+  private generateWindowsWebdriverIO(params: Record<string, unknown>): string {
+    const matcher = JSON.stringify(params.title || params.url);
+    switch (params.action) {
+      case 'switch':
+        return `await browser.switchWindow(${matcher});`;
+      case 'close':
+        return `await browser.switchWindow(${matcher}); await browser.closeWindow();`;
+      case 'wait_for_new':
+        return params.switchTo === false
+          ? `// New window opened: ${params.title}`
+          : `await browser.waitUntil(() => browser.switchWindow(${matcher}).then(() => true, () => false));`;
+      default:
+        return `// electron_windows ${params.action}`;
+    }
+  }
+
+  private generateWindowsPlaywright(params: Record<string, unknown>): string {
+    const url = JSON.stringify(params.url);
+    switch (params.action) {
+      case 'switch':
+        return `window = electronApp.windows().find(w => w.url() === ${url});`;
+      case 'close':
+        return `await electronApp.windows().find(w => w.url() === ${url}).close();`;
+      case 'wait_for_new':
+        return params.switchTo === false
+          ? `await electronApp.waitForEvent('window');`
+          : `window = await electronApp.waitForEvent('window');`;
+      default:
+        return `// electron_windows ${params.action}`;
+    }
+  }
+
+  // BrowserWindow call for a recorded electron_window_state action, on a variable named win
+  private windowStateCall(params: Record<string, unknown>): string {
+    switch (params.action) {
+      case 'set_bounds': {
+        const bounds = Object.fromEntries(['x', 'y', 'width', 'height'].filter(key => params[key] !== undefined).map(key => [key, params[key]]));
+        return `win.setBounds(${JSON.stringify(bounds)})`;
+      }
+      case 'minimize':
+        return 'win.minimize()';
+      case 'maximize':
+        return 'win.maximize()';
+      case 'restore':
+        return 'win.setFullScreen(false); win.restore(); win.unmaximize()';
+      case 'fullscreen':
+        return `win.setFullScreen(${params.enabled !== false})`;
+      case 'focus':
+        return 'win.focus()';
+      case 'always_on_top':
+        return `win.setAlwaysOnTop(${params.enabled !== false})`;
+      default:
+        return `/* ${params.action} */`;
+    }
+  }
+
   private generateClickCode(params: Record<string, unknown>, elementInfo: RecordedAction['elementInfo'], framework: 'wdio' | 'playwright'): string {
     if (!elementInfo) {
       return `// Click on element ${params.ref}`;
@@ -258,6 +459,203 @@ export class ElectronGenerateTestTool extends BaseTool {
     }
   }
 
+  private generatePointerCode(action: RecordedAction, framework: 'wdio' | 'playwright'): string {
+    const { tool, params, elementInfo, targetElementInfo } = action;
+    const verb = tool.replace('electron_', '').replace(/_/g, ' ');
+
+    if (!elementInfo || (params.targetRef && !targetElementInfo)) {
+      return `// ${verb} ${params.ref}${params.targetRef ? ` onto ${params.targetRef}` : ''}`;
+    }
+
+    const selector = this.generateSelector(elementInfo);
+    const target = targetElementInfo ? this.generateSelector(targetElementInfo) : undefined;
+    const modifiers = (params.modifiers as string[] | undefined) ?? [];
+
+    if (framework === 'wdio') {
+      const code = this.pointerWebdriverIO(tool, selector, target, params);
+      if (modifiers.length === 0) return code;
+      const keys = modifiers.map(key => `.down(Key.${key === 'Meta' ? 'Command' : key})`).join('');
+      return `await browser.action('key')${keys}.perform(true); ${code} await browser.releaseActions();`;
+    }
+
+    // Playwright takes modifiers as a click option; drags hold them on the keyboard
+    const options = modifiers.length > 0 ? `modifiers: ${JSON.stringify(modifiers)}` : '';
+    switch (tool) {
+      case 'electron_hover':
+        return `await window.hover('${selector}'${options && `, { ${options} }`});`;
+      case 'electron_double_click':
+        return `await window.dblclick('${selector}'${options && `, { ${options} }`});`;
+      case 'electron_right_click':
+        return `await window.click('${selector}', { button: 'right'${options && `, ${options}`} });`;
+      default: {
+        const code = this.dragPlaywright(selector, target, params);
+        if (modifiers.length === 0) return code;
+        const down = modifiers.map(key => `await window.keyboard.down('${key}');`).join(' ');
+        const up = modifiers.map(key => `await window.keyboard.up('${key}');`).join(' ');
+        return `${down} ${code} ${up}`;
+      }
+    }
+  }
+
+  private pointerWebdriverIO(tool: string, selector: string, target: string | undefined, params: Record<string, unknown>): string {
+    const { x, y } = params;
+    switch (tool) {
+      case 'electron_hover':
+        return `await browser.$('${selector}').moveTo();`;
+      case 'electron_double_click':
+        return `await browser.$('${selector}').doubleClick();`;
+      case 'electron_right_click':
+        return `await browser.$('${selector}').click({ button: 'right' });`;
+      default:
+        if (!target) {
+          return `await browser.$('${selector}').dragAndDrop({ x: ${x}, y: ${y} });`;
+        }
+        if (!x && !y) {
+          return `await browser.$('${selector}').dragAndDrop(await browser.$('${target}'));`;
+        }
+        return `await browser.action('pointer').move({ origin: await browser.$('${selector}') }).down()` +
+          `.move({ origin: await browser.$('${target}'), x: ${x}, y: ${y}, duration: 300 }).up().perform();`;
+    }
+  }
+
+  // Offsets are from element centres, which Playwright's dragAndDrop cannot express, so drags with an offset use the mouse
+  private dragPlaywright(selector: string, target: string | undefined, params: Record<string, unknown>): string {
+    const { x, y } = params;
+    if (target && !x && !y) {
+      return `await window.dragAndDrop('${selector}', '${target}');`;
+    }
+    return `{ const from = await window.locator('${selector}').boundingBox(); ` +
+      `const to = ${target ? `await window.locator('${target}').boundingBox()` : 'from'}; ` +
+      `if (!from || !to) throw new Error('Drag source or target is not visible'); ` +
+      'await window.mouse.move(from.x + from.width / 2, from.y + from.height / 2); await window.mouse.down(); ' +
+      `await window.mouse.move(to.x + to.width / 2 + ${x}, to.y + to.height / 2 + ${y}, { steps: 10 }); await window.mouse.up(); }`;
+  }
+
+  // Accelerators were recorded with the menu item they ran, so they replay as menu clicks
+  private generateKeysCode(action: RecordedAction, framework: 'wdio' | 'playwright'): string {
+    const { params, elementInfo } = action;
+    const keys = params.keys as string[];
+
+    if (params.mode === 'accelerator') {
+      return this.generateMenuClickCode({ path: params.path }, framework === 'wdio' ? 'await browser.electron.execute' : 'await electronApp.evaluate');
+    }
+
+    const selector = elementInfo ? this.generateSelector(elementInfo) : undefined;
+    if (framework === 'wdio') {
+      const focus = selector ? `await browser.execute((el) => el.focus(), await browser.$('${selector}')); ` : '';
+      const presses = keys.map(parseChord).map(chord => {
+        const values = [...chord.modifiers, chord.key].map(key => isNamedKey(key) ? `Key.${key === 'Meta' ? 'Command' : key}` : JSON.stringify(key));
+        return `await browser.keys([${values.join(', ')}]);`;
+      });
+      return focus + presses.join(' ');
+    }
+
+    const focus = selector ? `await window.focus('${selector}'); ` : '';
+    return focus + keys.map(key => `await window.keyboard.press('${key}');`).join(' ');
+  }
+
+  private generateSetControlCode(params: Record<string, unknown>, elementInfo: RecordedAction['elementInfo'], framework: 'wdio' | 'playwright'): string {
+    if (!elementInfo) {
+      return `// Set control ${params.ref} to ${JSON.stringify(params.value)}`;
+    }
+
+    const selector = this.generateSelector(elementInfo);
+    const value = JSON.stringify(params.value);
+    const wdio = framework === 'wdio';
+
+    switch (params.kind) {
+      case 'select': {
+        const labels = params.selected as string[];
+        return wdio
+          ? labels.map(label => `await browser.$('${selector}').selectByVisibleText(${JSON.stringify(label)});`).join(' ')
+          : `await window.selectOption('${selector}', ${JSON.stringify(labels.map(label => ({ label })))});`;
+      }
+      case 'checkbox':
+        // Native checkboxes report isSelected, ARIA ones aria-checked
+        return wdio
+          ? `{ const el = await browser.$('${selector}'); const checked = (await el.getAttribute('aria-checked')) === 'true' || await el.isSelected(); if (checked !== ${params.value}) await el.click(); }`
+          : `await window.setChecked('${selector}', ${params.value});`;
+      case 'radio':
+        return wdio ? `await browser.$('${selector}').click();` : `await window.check('${selector}');`;
+      case 'input':
+        return wdio
+          ? `await browser.execute((el, value) => { Object.getOwnPropertyDescriptor(Object.getPrototypeOf(el), 'value').set.call(el, value); el.dispatchEvent(new Event('input', { bubbles: true })); el.dispatchEvent(new Event('change', { bubbles: true })); }, await browser.$('${selector}'), ${JSON.stringify(String(params.value))});`
+          : `await window.fill('${selector}', ${JSON.stringify(String(params.value))});`;
+      case 'slider':
+        return wdio
+          ? `await browser.execute((el) => el.focus(), await browser.$('${selector}')); for (let i = 0; i < ${params.count}; i++) await browser.keys([Key.${params.key}]);`
+          : `await window.focus('${selector}'); for (let i = 0; i < ${params.count}; i++) await window.keyboard.press('${params.key}');`;
+      case 'combobox':
+        return wdio
+          ? `await browser.$('${selector}').click(); await browser.$(${JSON.stringify(`aria/${params.value}`)}).click();`
+          : `await window.click('${selector}'); await window.getByRole('option', { name: ${value} }).click();`;
+      case 'listbox':
+        return wdio
+          ? `await browser.$(${JSON.stringify(`aria/${params.value}`)}).click();`
+          : `await window.locator('${selector}').getByRole('option', { name: ${value} }).click();`;
+      default:
+        return `// Set ${params.kind} ${params.ref} to ${value}`;
+    }
+  }
+
+  // Drops read the files in the test and dispatch the drag events in the page
+  private generateFilesCode(action: RecordedAction, framework: 'wdio' | 'playwright'): string {
+    const { tool, params, elementInfo } = action;
+    const paths = params.paths as string[];
+
+    if (!elementInfo) {
+      return `// ${tool === 'electron_upload_files' ? 'Upload' : 'Drop'} ${paths.join(', ')} on element ${params.ref}`;
+    }
+
+    if (tool === 'electron_upload_files') {
+      const selector = elementInfo.attributes?.['id'] || elementInfo.attributes?.['name'] ? this.generateSelector(elementInfo) : 'input[type="file"]';
+      return framework === 'wdio'
+        ? `await browser.$('${selector}').addValue(${JSON.stringify(paths.join('\n'))});`
+        : `await window.setInputFiles('${selector}', ${JSON.stringify(paths)});`;
+    }
+
+    const selector = this.generateSelector(elementInfo);
+    const read = `const { readFileSync } = await import('fs'); ` +
+      `const files = ${JSON.stringify(paths)}.map((p) => ({ name: p.split(/[\\\\/]/).pop(), data: readFileSync(p).toString('base64') }));`;
+    const drop = '(el, files) => { const dataTransfer = new DataTransfer(); ' +
+      'for (const f of files) dataTransfer.items.add(new File([Uint8Array.from(atob(f.data), (c) => c.charCodeAt(0))], f.name)); ' +
+      "for (const type of ['dragenter', 'dragover', 'drop']) el.dispatchEvent(new DragEvent(type, { bubbles: true, cancelable: true, dataTransfer })); }";
+    return framework === 'wdio'
+      ? `{ ${read} await browser.execute(${drop}, await browser.$('${selector}'), files); }`
+      : `{ ${read} await window.locator('${selector}').evaluate(${drop}, files); }`;
+  }
+
+  // Scrolls replay as wheel input over the container; "until" scrolls loop until the element exists
+  private generateScrollCode(params: Record<string, unknown>, elementInfo: RecordedAction['elementInfo'], framework: 'wdio' | 'playwright'): string {
+    const { deltaX, deltaY, untilText, untilSelector, maxScrolls } = params;
+    const selector = elementInfo ? this.generateSelector(elementInfo) : undefined;
+
+    // Recorded without a scroll step when the target was already rendered
+    const revealOnly = deltaX === undefined && deltaY === undefined;
+
+    if (framework === 'wdio') {
+      const step = selector
+        ? `await browser.action('wheel').scroll({ origin: await browser.$('${selector}'), deltaX: ${deltaX}, deltaY: ${deltaY} }).perform();`
+        : `await browser.scroll(${deltaX}, ${deltaY});`;
+      if (!untilText && !untilSelector) return step;
+
+      const target = JSON.stringify(untilSelector ?? `//*[contains(text(), ${JSON.stringify(untilText)})]`);
+      if (revealOnly) return `await browser.$(${target}).scrollIntoView();`;
+      return `for (let i = 0; i < ${maxScrolls} && !(await browser.$(${target}).isExisting()); i++) { ${step} await browser.pause(150); } ` +
+        `await browser.$(${target}).scrollIntoView();`;
+    }
+
+    const step = selector
+      ? `await window.hover('${selector}'); await window.mouse.wheel(${deltaX}, ${deltaY});`
+      : `await window.mouse.wheel(${deltaX}, ${deltaY});`;
+    if (!untilText && !untilSelector) return step;
+
+    const target = untilSelector ? `window.locator(${JSON.stringify(untilSelector)})` : `window.getByText(${JSON.stringify(untilText)})`;
+    if (revealOnly) return `await ${target}.first().scrollIntoViewIfNeeded();`;
+    return `for (let i = 0; i < ${maxScrolls} && (await ${target}.count()) === 0; i++) { ${step} await window.waitForTimeout(150); } ` +
+      `await ${target}.first().scrollIntoViewIfNeeded();`;
+  }
+
   private generateSelector(elementInfo: RecordedAction['elementInfo']): string {
     if (!elementInfo) return '';
 
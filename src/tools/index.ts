@@ -1,16 +1,28 @@
 import { BaseTool } from './base.js';
 
 // App lifecycle
-import { ElectronLaunchTool, ElectronCloseTool } from './app/index.js';
+import { ElectronLaunchTool, ElectronCloseTool, ElectronAttachTool } from './app/index.js';
+
+// Sessions
+import { ElectronSessionListTool, ElectronSessionSwitchTool, ElectronSessionCloseTool } from './session/index.js';
 
 // Elements
-import { ElectronSnapshotTool, ElectronClickTool, ElectronTypeTool } from './elements/index.js';
+import { ElectronSnapshotTool, ElectronSnapshotDiffTool, ElectronClickTool, ElectronTypeTool, ElectronSetControlTool } from './elements/index.js';
+
+// Pointer
+import { ElectronHoverTool, ElectronDoubleClickTool, ElectronRightClickTool, ElectronDragTool } from './pointer/index.js';
+
+// Keyboard
+import { ElectronPressKeyTool } from './keyboard/index.js';
+
+// Files
+import { ElectronUploadFilesTool, ElectronDropFilesTool } from './files/index.js';
 
 // Page
-import { ElectronScreenshotTool } from './page/index.js';
+import { ElectronScreenshotTool, ElectronScrollTool } from './page/index.js';
 
 // Window
-import { ResizeWindowTool } from './window/index.js';
+import { ResizeWindowTool, ElectronWindowsTool, ElectronWindowStateTool } from './window/index.js';
 
 // Recording
 import { ElectronStartRecordingTool, ElectronStopRecordingTool, ElectronRecordingStatusTool } from './recording/index.js';
@@ -21,6 +33,12 @@ import { ElectronGenerateTestTool, ElectronGeneratorSetupTool, ElectronGenerator
 // CDP tools
 import { ElectronCDPNetworkTool, ElectronCDPConsoleTool, ElectronCDPPerformanceTool, ElectronCDPEvaluateTool } from './cdp/index.js';
 
+// Main process tools
+import { ElectronMainEvaluateTool, ElectronMockApiTool, ElectronIpcTool } from './main/index.js';
+
+// Menu tools
+import { ElectronMenuSnapshotTool, ElectronMenuClickTool } from './menu/index.js';
+
 // Planner tools
 import { ElectronPlannerSetupTool, ElectronPlannerExploreTool, ElectronPlannerSaveTool } from './planner/index.js';
 
@@ -32,20 +50,44 @@ import { ElectronVerifyElementVisibleTool, ElectronVerifyTextVisibleTool, Electr
 
 export function getAllTools(): BaseTool[] {
   return [
-    // App lifecycle (2)
+    // App lifecycle (3)
     new ElectronLaunchTool(),
     new ElectronCloseTool(),
+    new ElectronAttachTool(),
 
-    // Elements (3)
+    // Sessions (3)
+    new ElectronSessionListTool(),
+    new ElectronSessionSwitchTool(),
+    new ElectronSessionCloseTool(),
+
+    // Elements (5)
     new ElectronSnapshotTool(),
+    new ElectronSnapshotDiffTool(),
     new ElectronClickTool(),
     new ElectronTypeTool(),
+    new ElectronSetControlTool(),
+
+    // Pointer (4)
+    new ElectronHoverTool(),
+    new ElectronDoubleClickTool(),
+    new ElectronRightClickTool(),
+    new ElectronDragTool(),
+
+    // Keyboard (1)
+    new ElectronPressKeyTool(),
 
-    // Page (1)
+    // Files (2)
+    new ElectronUploadFilesTool(),
+    new ElectronDropFilesTool(),
+
+    // Page (2)
     new ElectronScreenshotTool(),
+    new ElectronScrollTool(),
 
-    // Window (1)
+    // Window (3)
     new ResizeWindowTool(),
+    new ElectronWindowsTool(),
+    new ElectronWindowStateTool(),
 
     // Recording (3)
     new ElectronStartRecordingTool(),
@@ -64,6 +106,15 @@ export function getAllTools(): BaseTool[] {
     new ElectronCDPPerformanceTool(),
     new ElectronCDPEvaluateTool(),
 
+    // Main process (3)
+    new ElectronMainEvaluateTool(),
+    new ElectronMockApiTool(),
+    new ElectronIpcTool(),
+
+    // Menus (2)
+    new ElectronMenuSnapshotTool(),
+    new ElectronMenuClickTool(),
+
     // Planner (3)
     new ElectronPlannerSetupTool(),
     new ElectronPlannerExploreTool(),
@@ -87,14 +138,34 @@ export {
   // App
   ElectronLaunchTool,
   ElectronCloseTool,
+  ElectronAttachTool,
+  // Sessions
+  ElectronSessionListTool,
+  ElectronSessionSwitchTool,
+  ElectronSessionCloseTool,
   // Elements
   ElectronSnapshotTool,
+  ElectronSnapshotDiffTool,
   ElectronClickTool,
   ElectronTypeTool,
+  ElectronSetControlTool,
+  // Pointer
+  ElectronHoverTool,
+  ElectronDoubleClickTool,
+  ElectronRightClickTool,
+  ElectronDragTool,
+  // Keyboard
+  ElectronPressKeyTool,
+  // Files
+  ElectronUploadFilesTool,
+  ElectronDropFilesTool,
   // Page
   ElectronScreenshotTool,
+  ElectronScrollTool,
   // Window
   ResizeWindowTool,
+  ElectronWindowsTool,
+  ElectronWindowStateTool,
   // Recording
   ElectronStartRecordingTool,
   ElectronStopRecordingTool,
@@ -109,6 +180,13 @@ export {
   ElectronCDPConsoleTool,
   ElectronCDPPerformanceTool,
   ElectronCDPEvaluateTool,
+  // Main process
+  ElectronMainEvaluateTool,
+  ElectronMockApiTool,
+  ElectronIpcTool,
+  // Menus
+  ElectronMenuSnapshotTool,
+  ElectronMenuClickTool,
   // Planner
   ElectronPlannerSetupTool,
   ElectronPlannerExploreTool,
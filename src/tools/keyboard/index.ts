@@ -0,0 +1 @@
+export { ElectronPressKeyTool } from './press-key.js';
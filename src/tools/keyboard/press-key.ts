@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import { parseChord, formatChord, KeyChord } from '../../utils/keys.js';
+
+const schema = z.object({
+  keys: z.union([z.string(), z.array(z.string()).min(1)])
+    .describe('Key or chord, or a list pressed in order, e.g. "Enter", "Control+Shift+P", ["ArrowDown", "ArrowDown", "Enter"]. CmdOrCtrl means Meta on macOS and Control elsewhere.'),
+  ref: z.string().optional().describe('Element to focus before pressing (default: whatever has focus)'),
+  mode: z.enum(['page', 'accelerator']).optional().default('page')
+    .describe('page: send key events to the page, accelerator: run the application menu item bound to each chord through the main process, for shortcuts handled by menus')
+});
+
+export class ElectronPressKeyTool extends BaseTool {
+  readonly name = 'electron_press_key';
+  readonly description = 'Press keys and shortcuts such as Enter, Escape, Tab, arrow keys or Control+Shift+P, on a focused element or the page. Can also fire application menu accelerators through the main process.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { keys, ref, mode } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    const sequence = Array.isArray(keys) ? keys : [keys];
+
+    if (mode === 'accelerator') {
+      if (ref) {
+        return this.error('Accelerators run through the application menu; leave out ref in accelerator mode');
+      }
+
+      try {
+        const triggered: string[] = [];
+        for (const accelerator of sequence) {
+          const item = await context.triggerAccelerator(accelerator);
+          context.recordAction('electron_press_key', { keys: [accelerator], mode, path: item.path });
+          triggered.push(`"${item.path.join(' > ')}" (${accelerator})`);
+        }
+        return this.success(`Triggered ${triggered.join(', ')}`, true);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return this.error(`Failed to trigger accelerator: ${message}`);
+      }
+    }
+
+    let chords: KeyChord[];
+    try {
+      chords = sequence.map(parseChord);
+    } catch (err) {
+      return this.error(err instanceof Error ? err.message : String(err));
+    }
+    const pressed = chords.map(formatChord);
+
+    try {
+      let elementInfo;
+      if (ref) {
+        const snapshot = await context.getSnapshot();
+        elementInfo = snapshot.elements.get(ref);
+        await context.focusElement(await context.getActionableElement(ref, { hitTarget: false }));
+      }
+
+      await context.pressKeys(chords);
+
+      context.recordAction('electron_press_key', { keys: pressed, ref, mode }, elementInfo ? {
+        ref: elementInfo.ref,
+        tagName: elementInfo.tagName,
+        text: elementInfo.text,
+        attributes: elementInfo.attributes
+      } : undefined);
+
+      return this.success(`Pressed ${pressed.join(', ')}${ref ? ` on ${ref}` : ''}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to press ${pressed.join(', ')}: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import { formatScriptResult } from '../../utils/format.js';
+
+const schema = z.object({
+  script: z.string().describe('Function to run in the main process, called with the electron module and args, e.g. "(electron) => electron.app.getPath(\'userData\')". A function body using `electron` and `args` also works, e.g. "return electron.BrowserWindow.getAllWindows().length"'),
+  args: z.array(z.unknown()).optional().describe('Arguments passed to the function after the electron module')
+});
+
+// Arrow functions and function expressions are passed through, anything else is a body
+const FUNCTION_PATTERN = /^\s*(async\s+)?(function\b|\([^)]*\)\s*=>|[\w$]+\s*=>)/;
+
+export class ElectronMainEvaluateTool extends BaseTool {
+  readonly name = 'electron_main_evaluate';
+  readonly description = 'Execute JavaScript in the Electron main process with access to the electron module (app, BrowserWindow, dialog, ...) and return the result';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { script, args } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    const fn = FUNCTION_PATTERN.test(script)
+      ? script
+      : `async (electron, ...args) => { ${script} }`;
+
+    try {
+      const result = await context.executeInMain(fn, args);
+
+      // Record action if recording is enabled
+      context.recordAction('electron_main_evaluate', { script: fn, args: args || [] });
+
+      return this.success(`Main process result:\n${formatScriptResult(result)}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Main process script failed: ${message}`);
+    }
+  }
+}
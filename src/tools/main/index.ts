@@ -0,0 +1,3 @@
+export { ElectronMainEvaluateTool } from './evaluate.js';
+export { ElectronMockApiTool } from './mock-api.js';
+export { ElectronIpcTool } from './ipc.js';
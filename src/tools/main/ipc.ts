@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { IpcMessage, ToolResult } from '../../types.js';
+import { formatScriptResult } from '../../utils/format.js';
+
+const schema = z.object({
+  action: z.enum(['start', 'stop', 'get', 'clear', 'send', 'invoke'])
+    .describe('start/stop capturing, get captured messages, clear them, send a message to a renderer, or invoke an ipcMain.handle handler'),
+  filter: z.object({
+    channel: z.string().optional().describe('Filter by channel (partial match)'),
+    direction: z.enum(['renderer-to-main', 'main-to-renderer']).optional().describe('Filter by direction')
+  }).optional().describe('Filter criteria for get action'),
+  channel: z.string().optional().describe('Channel for send and invoke'),
+  args: z.array(z.unknown()).optional().describe('Arguments for send and invoke'),
+  webContentsId: z.number().optional().describe('For send: target webContents id (default: focused window)')
+});
+
+export class ElectronIpcTool extends BaseTool {
+  readonly name = 'electron_ipc';
+  readonly description = 'Capture IPC traffic between renderer and main process (ipcRenderer.send/sendSync/invoke, webContents.send) with arguments, results and timestamps, send messages to a renderer, or invoke ipcMain handlers';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { action, filter, channel, args, webContentsId } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      switch (action) {
+        case 'start': {
+          await context.startIpcCapture();
+          return this.success('IPC capture started');
+        }
+
+        case 'stop': {
+          await context.stopIpcCapture();
+          return this.success('IPC capture stopped. Captured messages are kept until cleared.');
+        }
+
+        case 'get': {
+          const messages = await context.getIpcMessages(filter);
+
+          if (messages.length === 0) {
+            return this.success(context.isCapturingIpc()
+              ? 'No IPC messages captured'
+              : 'No IPC messages captured. Start capturing with action "start".');
+          }
+
+          return this.success(`IPC messages (${messages.length}):\n${messages.map(formatMessage).join('\n')}`);
+        }
+
+        case 'clear': {
+          await context.clearIpcMessages();
+          return this.success('IPC messages cleared');
+        }
+
+        case 'send': {
+          if (!channel) {
+            return this.error('Channel required for send action');
+          }
+          const targetId = await context.sendIpcMessage(channel, args || [], webContentsId);
+          context.recordAction('electron_ipc', { action, channel, args: args || [] });
+          return this.success(`Sent "${channel}" to webContents ${targetId}`);
+        }
+
+        case 'invoke': {
+          if (!channel) {
+            return this.error('Channel required for invoke action');
+          }
+          const result = await context.invokeIpcHandler(channel, args || []);
+          context.recordAction('electron_ipc', { action, channel, args: args || [] });
+          return this.success(`Handler for "${channel}" returned:\n${formatScriptResult(result)}`);
+        }
+
+        default:
+          return this.error(`Unknown action: ${action}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`IPC operation failed: ${message}`);
+    }
+  }
+}
+
+function formatMessage(message: IpcMessage): string {
+  const time = new Date(message.timestamp).toISOString().slice(11, 23);
+  const arrow = message.direction === 'renderer-to-main' ? 'renderer -> main' : 'main -> renderer';
+  let line = `[${time}] ${arrow} ${message.type} "${message.channel}" ${JSON.stringify(message.args)}`;
+
+  if (message.error !== undefined) {
+    line += ` -> threw ${message.error}`;
+  } else if (message.result !== undefined) {
+    line += ` -> ${JSON.stringify(message.result)}`;
+  }
+  if (message.duration !== undefined) {
+    line += ` (${message.duration}ms)`;
+  }
+
+  return line;
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+
+const schema = z.object({
+  action: z.enum(['mock', 'calls', 'reset', 'restore', 'list']).optional().default('mock')
+    .describe('mock: install or replace a mock, calls: show recorded calls, reset: forget recorded calls, restore: put the original back, list: show active mocks'),
+  api: z.string().optional().describe('electron export to mock, e.g. "dialog", "shell", "app", "clipboard" or a class such as "Notification" (mocked on its prototype)'),
+  method: z.string().optional().describe('Function to mock, e.g. "showOpenDialog", "openExternal", "getPath", "show"'),
+  mode: z.enum(['return', 'resolve', 'reject', 'implementation']).optional().default('return')
+    .describe('return: return value as is, resolve: return a promise of value (e.g. dialog.showOpenDialog), reject: reject with value as the error message, implementation: run the implementation function'),
+  value: z.unknown().optional().describe('Canned value, e.g. { "canceled": false, "filePaths": ["/tmp/report.pdf"] }'),
+  implementation: z.string().optional().describe('For mode=implementation: function source run in the main process, e.g. "(name) => `/tmp/${name}`"')
+});
+
+export class ElectronMockApiTool extends BaseTool {
+  readonly name = 'electron_mock_api';
+  readonly description = 'Mock Electron main-process APIs (native dialogs, shell.openExternal, app.getPath, Notification, ...) with canned values, and inspect, reset or restore the mocks. Calls to a mock are recorded with their arguments.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { action = 'mock', api, method, mode = 'return', value, implementation } = this.parseParams(schema, params);
+
+    if (action === 'list') {
+      const mocks = context.getApiMocks();
+      if (mocks.length === 0) {
+        return this.success('No Electron APIs are mocked.');
+      }
+      const lines = mocks.map(m => `- ${m.api}.${m.method} (${m.mode}${m.mode === 'implementation' ? '' : `: ${JSON.stringify(m.value)}`})`);
+      return this.success(`Mocked Electron APIs (${mocks.length}):\n${lines.join('\n')}`);
+    }
+
+    if (!api || !method) {
+      return this.error(`Action "${action}" needs api and method (e.g. api: "dialog", method: "showOpenDialog").`);
+    }
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    const target = `${api}.${method}`;
+
+    try {
+      switch (action) {
+        case 'mock': {
+          if (mode === 'implementation' && !implementation) {
+            return this.error('Mode "implementation" needs an implementation function.');
+          }
+          await context.mockApi({ api, method, mode, value, implementation, createdAt: Date.now() });
+          context.recordAction('electron_mock_api', { action, api, method, mode, value, implementation });
+          return this.success(`Mocked electron.${target} (${mode})`);
+        }
+
+        case 'calls': {
+          const calls = await context.getApiMockCalls(api, method);
+          context.recordAction('electron_mock_api', { action, api, method, callCount: calls.length });
+          if (calls.length === 0) {
+            return this.success(`electron.${target} has not been called.`);
+          }
+          const lines = calls.map((call, i) => `${i + 1}. ${JSON.stringify(call.args)}`);
+          return this.success(`electron.${target} was called ${calls.length} time(s):\n${lines.join('\n')}`);
+        }
+
+        case 'reset':
+          await context.resetApiMock(api, method);
+          context.recordAction('electron_mock_api', { action, api, method });
+          return this.success(`Cleared recorded calls of electron.${target}`);
+
+        case 'restore': {
+          const restored = await context.restoreApiMock(api, method);
+          context.recordAction('electron_mock_api', { action, api, method });
+          return this.success(restored ? `Restored the original electron.${target}` : `electron.${target} was not mocked`);
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to ${action} electron.${target}: ${message}`);
+    }
+  }
+}
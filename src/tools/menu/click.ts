@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+
+const schema = z.object({
+  path: z.string().describe('Label path of the item, separated by ">", e.g. "File > Export > PDF". Matching ignores case and & mnemonics.'),
+  menu: z.enum(['application', 'context']).optional().default('application')
+    .describe('application: the menu bar, context: the open context menu')
+});
+
+export class ElectronMenuClickTool extends BaseTool {
+  readonly name = 'electron_menu_click';
+  readonly description = 'Click a native menu item by its label path, in the application menu or the open context menu. Runs the item like a user click, including roles and checkbox toggling.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { path, menu = 'application' } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    const labels = path.split('>').map(label => label.trim()).filter(Boolean);
+    if (labels.length === 0) {
+      return this.error('Menu path is empty');
+    }
+
+    try {
+      const item = await context.clickMenuItem(labels, menu);
+
+      // Record action if recording is enabled
+      context.recordAction('electron_menu_click', { path: labels, menu });
+
+      const state = item.type === 'checkbox' || item.type === 'radio' ? ` (now ${item.checked ? 'checked' : 'unchecked'})` : '';
+      return this.success(`Clicked ${menu} menu item "${labels.join(' > ')}"${state}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to click menu item: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { ElectronMenuSnapshotTool } from './snapshot.js';
+export { ElectronMenuClickTool } from './click.js';
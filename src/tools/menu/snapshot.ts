@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { MenuItemInfo, ToolResult } from '../../types.js';
+
+const schema = z.object({
+  menu: z.enum(['application', 'context']).optional().default('application')
+    .describe('application: the menu bar (Menu.getApplicationMenu()), context: the context menu that is open'),
+  showHidden: z.boolean().optional().default(false).describe('Include items that are not visible')
+});
+
+export class ElectronMenuSnapshotTool extends BaseTool {
+  readonly name = 'electron_menu_snapshot';
+  readonly description = 'Read the native application menu or the open context menu as a tree with labels, roles, accelerators and enabled/checked state. Use the labels with electron_menu_click.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { menu = 'application', showHidden } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      const result = await context.getMenu(menu);
+
+      if (!result) {
+        return this.success(menu === 'context'
+          ? 'No context menu is open. Right-click in the app first.'
+          : 'The app has no application menu.');
+      }
+
+      const heading = menu === 'context'
+        ? `Context menu (opened ${new Date(result.openedAt!).toISOString()}):`
+        : 'Application menu:';
+      const lines = formatMenu(result.items, 0, showHidden ?? false);
+
+      return this.success(`${heading}\n${lines.join('\n')}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to read menu: ${message}`);
+    }
+  }
+}
+
+function formatMenu(items: MenuItemInfo[], depth: number, showHidden: boolean): string[] {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+
+  for (const item of items) {
+    if (!item.visible && !showHidden) continue;
+
+    if (item.type === 'separator') {
+      lines.push(`${indent}---`);
+      continue;
+    }
+
+    const check = item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] ';
+    const details = [
+      item.accelerator,
+      item.role && `role: ${item.role}`,
+      !item.enabled && 'disabled',
+      !item.visible && 'hidden'
+    ].filter(Boolean);
+
+    lines.push(`${indent}${check}${item.label}${item.submenu ? ' >' : ''}${details.length ? `  (${details.join(', ')})` : ''}`);
+
+    if (item.submenu) {
+      lines.push(...formatMenu(item.submenu, depth + 1, showHidden));
+    }
+  }
+
+  return lines;
+}
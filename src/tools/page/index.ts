@@ -1 +1,2 @@
 export { ElectronScreenshotTool } from './screenshot.js';
+export { ElectronScrollTool } from './scroll.js';
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import { SCROLL_SCRIPT, FIND_AND_REVEAL_SCRIPT, ScrollOptions, ScrollResult } from '../../utils/scroll.js';
+
+// Time for scroll handlers and virtualized lists to render after each step
+const SCROLL_SETTLE_MS = 150;
+
+const schema = z.object({
+  ref: z.string().optional().describe('Element whose scroll container to scroll (the element itself or its closest scrollable ancestor). Default: the window'),
+  direction: z.enum(['up', 'down', 'left', 'right']).optional().default('down').describe('Scroll direction'),
+  pixels: z.number().int().positive().optional().describe('Scroll by this many pixels'),
+  pages: z.number().positive().optional().describe('Scroll by this many container heights (widths for left/right). Default: 1 page'),
+  to: z.enum(['top', 'bottom']).optional().describe('Scroll all the way to the top or bottom instead'),
+  untilText: z.string().optional().describe('Keep scrolling until an element with this text is rendered, then bring it into view'),
+  untilSelector: z.string().optional().describe('Keep scrolling until an element matching this CSS selector is rendered, then bring it into view'),
+  maxScrolls: z.number().int().positive().max(500).optional().default(50).describe('Most scroll steps when scrolling until text or a selector appears')
+});
+
+export class ElectronScrollTool extends BaseTool {
+  readonly name = 'electron_scroll';
+  readonly description = 'Scroll the window or a scroll container by pixels or pages, or to the top or bottom. Can keep scrolling until some text or a selector appears, for virtualized lists that only render the visible rows.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { ref, direction = 'down', pixels, pages, to, untilText, untilSelector, maxScrolls = 50 } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    if (to && (pixels !== undefined || pages !== undefined)) {
+      return this.error('Give either to, or pixels/pages, not both');
+    }
+    if (untilText && untilSelector) {
+      return this.error('Give either untilText or untilSelector, not both');
+    }
+
+    try {
+      let elementInfo;
+      let element: unknown = null;
+      if (ref) {
+        const snapshot = await context.getSnapshot();
+        elementInfo = snapshot.elements.get(ref);
+        element = await context.getElementByRef(ref);
+      }
+
+      // Without a ref this runs in the top document; executeOnElement stays in the ref's frame
+      const run = <T>(script: string, ...args: unknown[]) => ref
+        ? context.executeOnElement<T>(script, element, ...args)
+        : context.executeScript<T>(script, [null, ...args]);
+      const options: ScrollOptions = { direction, pixels, pages, to };
+
+      const recorded = elementInfo ? {
+        ref: elementInfo.ref,
+        tagName: elementInfo.tagName,
+        text: elementInfo.text,
+        attributes: elementInfo.attributes
+      } : undefined;
+
+      if (!untilText && !untilSelector) {
+        const result = await run<ScrollResult>(SCROLL_SCRIPT, options);
+        context.recordAction('electron_scroll', { ref, to, deltaX: result.deltaX, deltaY: result.deltaY }, recorded);
+        const position = `now at ${result.top}/${result.maxTop}px${result.maxLeft > 0 ? `, ${result.left}/${result.maxLeft}px across` : ''}`;
+        return this.success(`${result.moved ? 'Scrolled' : 'Could not scroll further:'} ${result.container} ${to ? `to the ${to}` : direction}, ${position}`, true);
+      }
+
+      const target = untilText ? `text "${untilText}"` : `selector ${untilSelector}`;
+      const reveal = () => run<boolean>(FIND_AND_REVEAL_SCRIPT, untilText ?? null, untilSelector ?? null);
+
+      let scrolls = 0;
+      let found = await reveal();
+      let last: ScrollResult | undefined;
+      while (!found && scrolls < maxScrolls) {
+        last = await run<ScrollResult>(SCROLL_SCRIPT, options);
+        scrolls++;
+        await new Promise(resolve => setTimeout(resolve, SCROLL_SETTLE_MS));
+        found = await reveal();
+        if (!found && !last.moved) break;
+      }
+
+      if (!found) {
+        const reason = last && !last.moved ? `reached the end of ${last.container}` : `gave up after ${scrolls} scrolls`;
+        return this.error(`Did not find ${target}: ${reason}`);
+      }
+
+      // Already rendered: the replay only has to bring the target into view, there is no scroll step to repeat
+      context.recordAction('electron_scroll', last ? {
+        ref,
+        deltaX: last.deltaX,
+        deltaY: last.deltaY,
+        untilText,
+        untilSelector,
+        maxScrolls
+      } : { untilText, untilSelector }, last ? recorded : undefined);
+
+      return this.success(`Found ${target} after ${scrolls} scroll(s) and brought it into view`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to scroll: ${message}`);
+    }
+  }
+}
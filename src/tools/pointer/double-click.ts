@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+import { modifiersSchema } from './modifiers.js';
+
+const schema = z.object({
+  ref: z.string().describe('Element reference (e.g., e1, e2) from the snapshot'),
+  modifiers: modifiersSchema
+});
+
+export class ElectronDoubleClickTool extends BaseTool {
+  readonly name = 'electron_double_click';
+  readonly description = 'Double-click an element using its reference from the snapshot';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { ref, modifiers } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    try {
+      const snapshot = await context.getSnapshot();
+      const elementInfo = snapshot.elements.get(ref);
+
+      const element = await context.getActionableElement(ref);
+      await context.performPointerActions(pointer => {
+        pointer.move({ origin: element }).down().up().down().up();
+      }, modifiers);
+
+      context.recordAction('electron_double_click', { ref, modifiers }, elementInfo ? {
+        ref,
+        tagName: elementInfo.tagName,
+        text: elementInfo.text,
+        attributes: elementInfo.attributes
+      } : undefined);
+
+      return this.success(`Double-clicked element ${ref}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to double-click element ${ref}: ${message}`);
+    }
+  }
+}
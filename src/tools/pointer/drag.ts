@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ElementInfo, RecordedAction, ToolResult } from '../../types.js';
+import { CENTRE_IN_VIEW_SCRIPT } from '../../utils/scroll.js';
+import { modifiersSchema } from './modifiers.js';
+
+// Pointer moves during a drag are spread over this long, so drag libraries see intermediate mousemoves
+const DRAG_MOVE_DURATION = 300;
+
+const schema = z.object({
+  ref: z.string().describe('Element reference (e.g., e1, e2) of the element to drag'),
+  targetRef: z.string().optional().describe('Element to drop onto; the drop point is its centre plus x/y'),
+  x: z.number().int().optional().default(0).describe('Horizontal offset in pixels: from the target centre, or without targetRef, from the dragged element'),
+  y: z.number().int().optional().default(0).describe('Vertical offset in pixels: from the target centre, or without targetRef, from the dragged element'),
+  modifiers: modifiersSchema
+});
+
+export class ElectronDragTool extends BaseTool {
+  readonly name = 'electron_drag';
+  readonly description = 'Drag an element onto another element or by a pixel offset, e.g. to reorder a sortable list or resize a split pane';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { ref, targetRef, x, y, modifiers } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    if (!targetRef && x === 0 && y === 0) {
+      return this.error('Give a targetRef to drop onto, or an x/y offset to drag by');
+    }
+
+    try {
+      const snapshot = await context.getSnapshot();
+      const sourceInfo = snapshot.elements.get(ref);
+      const targetInfo = targetRef ? snapshot.elements.get(targetRef) : undefined;
+
+      // WebDriver is switched into one frame at a time
+      if (sourceInfo && targetInfo && JSON.stringify(sourceInfo.frames ?? []) !== JSON.stringify(targetInfo.frames ?? [])) {
+        return this.error(`Cannot drag ${ref} onto ${targetRef}: they are in different frames`);
+      }
+
+      // Resolving a ref scrolls it into view, so the source goes last and stays in view
+      const target = targetRef ? await context.getActionableElement(targetRef, { enabled: false }) : undefined;
+      const source = await context.getActionableElement(ref);
+      if (target && !await context.executeOnElement<boolean>(CENTRE_IN_VIEW_SCRIPT, target, x, y)) {
+        return this.error(
+          `Cannot drag ${ref} onto ${targetRef}: they do not fit in the viewport together, and the drop point must be visible. ` +
+          'Make the window larger, or drag by an x/y offset in steps.'
+        );
+      }
+
+      await context.performPointerActions(pointer => {
+        pointer.move({ origin: source }).down().pause(50);
+        if (target) {
+          pointer.move({ origin: target, x, y, duration: DRAG_MOVE_DURATION });
+        } else {
+          pointer.move({ origin: 'pointer', x, y, duration: DRAG_MOVE_DURATION });
+        }
+        pointer.pause(50).up();
+      }, modifiers);
+
+      context.recordAction('electron_drag', { ref, targetRef, x, y, modifiers }, recorded(ref, sourceInfo), targetRef ? recorded(targetRef, targetInfo) : undefined);
+
+      const destination = targetRef ? `onto ${targetRef}` : 'by';
+      const offset = x !== 0 || y !== 0 ? ` (${x}, ${y})` : '';
+      return this.success(`Dragged element ${ref} ${destination}${offset}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to drag element ${ref}: ${message}`);
+    }
+  }
+}
+
+function recorded(ref: string, info: ElementInfo | undefined): RecordedAction['elementInfo'] {
+  return info ? { ref, tagName: info.tagName, text: info.text, attributes: info.attributes } : undefined;
+}
@@ -0,0 +1,4 @@
+export { ElectronHoverTool } from './hover.js';
+export { ElectronDoubleClickTool } from './double-click.js';
+export { ElectronRightClickTool } from './right-click.js';
+export { ElectronDragTool } from './drag.js';
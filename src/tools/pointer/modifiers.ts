@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+// Shared by the pointer tools
+export const modifiersSchema = z.array(z.enum(['Alt', 'Control', 'Meta', 'Shift'])).optional().default([])
+  .describe('Modifier keys held during the action (Meta is Cmd on macOS)');
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+
+const schema = z.object({
+  sessionId: z.string().optional().describe('Session to close (defaults to the current session)')
+});
+
+export class ElectronSessionCloseTool extends BaseTool {
+  readonly name = 'electron_session_close';
+  readonly description = 'Close a named session: quits its app and discards its logs, mocks and recorded actions';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { sessionId } = this.parseParams(schema, params);
+    const target = sessionId || context.sessionId;
+
+    try {
+      await context.closeSession(target);
+
+      const remaining = context.listSessions();
+      const current = remaining.find(s => s.isCurrent);
+      const next = current ? ` Current session is now "${current.id}".` : '';
+      return this.success(`Session "${target}" closed.${next}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to close session: ${message}`);
+    }
+  }
+}
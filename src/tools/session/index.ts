@@ -0,0 +1,3 @@
+export { ElectronSessionListTool } from './list.js';
+export { ElectronSessionSwitchTool } from './switch.js';
+export { ElectronSessionCloseTool } from './close.js';
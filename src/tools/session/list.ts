@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+
+const schema = z.object({});
+
+export class ElectronSessionListTool extends BaseTool {
+  readonly name = 'electron_session_list';
+  readonly description = 'List the named app sessions, showing which one is current and whether its app is running';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, _params: unknown): Promise<ToolResult> {
+    const sessions = context.listSessions();
+
+    if (sessions.length === 0) {
+      return this.success('No sessions. Launch an app with electron_launch to start one.');
+    }
+
+    const lines = sessions.map(s => {
+      const marker = s.isCurrent ? '*' : ' ';
+      const status = !s.isConnected ? 'not running' : s.health && s.health !== 'healthy' ? s.health : 'running';
+      const app = s.appPath ? ` - ${s.appPath}` : '';
+      const recording = s.recordingEnabled ? `, recording (${s.actionCount} actions)` : '';
+      return `${marker} ${s.id} [${status}${recording}]${app}`;
+    });
+
+    return this.success(`Sessions (${sessions.length}, * = current):\n${lines.join('\n')}`);
+  }
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult } from '../../types.js';
+
+const schema = z.object({
+  sessionId: z.string().describe('Session to make current')
+});
+
+export class ElectronSessionSwitchTool extends BaseTool {
+  readonly name = 'electron_session_switch';
+  readonly description = 'Make a named session current, so tools called without a sessionId act on its app';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { sessionId } = this.parseParams(schema, params);
+
+    try {
+      context.switchSession(sessionId);
+      return this.success(`Switched to session "${sessionId}"`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to switch session: ${message}`);
+    }
+  }
+}
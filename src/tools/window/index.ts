@@ -1 +1,3 @@
 export { ResizeWindowTool } from './resize.js';
+export { ElectronWindowsTool } from './windows.js';
+export { ElectronWindowStateTool } from './state.js';
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult, WindowState, WindowStateChange } from '../../types.js';
+import { formatWindowBounds, formatWindowState } from '../../utils/format.js';
+
+const schema = z.object({
+  action: z.enum(['get', 'set_bounds', 'minimize', 'maximize', 'restore', 'fullscreen', 'focus', 'always_on_top'])
+    .describe('get the current state, set bounds, minimize, maximize, restore to normal, toggle fullscreen, focus, or toggle always-on-top'),
+  x: z.number().optional().describe('For set_bounds: window X position'),
+  y: z.number().optional().describe('For set_bounds: window Y position'),
+  width: z.number().min(100).max(10000).optional().describe('For set_bounds: window width in pixels'),
+  height: z.number().min(100).max(10000).optional().describe('For set_bounds: window height in pixels'),
+  enabled: z.boolean().optional().default(true).describe('For fullscreen and always_on_top: turn on (true) or off (false)')
+});
+
+export class ElectronWindowStateTool extends BaseTool {
+  readonly name = 'electron_window_state';
+  readonly description = 'Read or change the native state of the active BrowserWindow through the main process: bounds, minimize, maximize, restore, fullscreen, focus and always-on-top. Reports the real state after the change.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { action, x, y, width, height, enabled } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    let change: WindowStateChange;
+    switch (action) {
+      case 'set_bounds': {
+        const bounds = Object.fromEntries(Object.entries({ x, y, width, height }).filter(([, v]) => v !== undefined));
+        if (Object.keys(bounds).length === 0) {
+          return this.error('set_bounds needs at least one of x, y, width, height');
+        }
+        change = { type: 'bounds', bounds };
+        break;
+      }
+      case 'fullscreen':
+      case 'always_on_top':
+        change = { type: action, enabled: enabled !== false };
+        break;
+      default:
+        change = { type: action };
+    }
+
+    try {
+      const state = await context.setWindowState(change);
+
+      if (action === 'get') {
+        return this.success(`Window state:\n${formatWindowState(state)}`);
+      }
+
+      context.recordAction('electron_window_state', { action, x, y, width, height, enabled });
+
+      const mismatch = describeMismatch(change, state);
+      const summary = mismatch
+        ? `Requested ${action}, but ${mismatch}. The window manager may not support it (e.g. no window manager under Xvfb).`
+        : `Window ${action.replace(/_/g, ' ')} applied.`;
+
+      return this.success(`${summary}\n${formatWindowState(state)}`, true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Failed to change window state: ${message}`);
+    }
+  }
+}
+
+/**
+ * Compare the requested change with the state the main process reported afterwards
+ */
+function describeMismatch(change: WindowStateChange, state: WindowState): string | null {
+  switch (change.type) {
+    case 'bounds': {
+      const differs = (Object.keys(change.bounds) as Array<keyof typeof change.bounds>)
+        .filter(key => change.bounds[key] !== state.bounds[key]);
+      return differs.length > 0
+        ? `the window ended up at ${formatWindowBounds(state.bounds)} (${differs.join(', ')} differ)`
+        : null;
+    }
+    case 'minimize':
+      return state.isMinimized ? null : 'the window is not minimized';
+    case 'maximize':
+      return state.isMaximized ? null : 'the window is not maximized';
+    case 'restore':
+      return state.isMinimized || state.isMaximized || state.isFullScreen ? 'the window is still not in its normal state' : null;
+    case 'fullscreen':
+      return state.isFullScreen === change.enabled ? null : `fullscreen is ${state.isFullScreen ? 'on' : 'off'}`;
+    case 'focus':
+      return state.isFocused ? null : 'the window is not focused';
+    case 'always_on_top':
+      return state.isAlwaysOnTop === change.enabled ? null : `always-on-top is ${state.isAlwaysOnTop ? 'on' : 'off'}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { BaseTool } from '../base.js';
+import { Context } from '../../context.js';
+import { ToolResult, WindowInfo } from '../../types.js';
+
+const schema = z.object({
+  action: z.enum(['list', 'switch', 'close', 'wait_for_new'])
+    .describe('list windows, switch the active window, close a window (default: the active one), or wait for a new window to open'),
+  id: z.string().optional().describe('Window id from the list (w1, w2, ...)'),
+  title: z.string().optional().describe('Match a window whose title contains this text'),
+  url: z.string().optional().describe('Match a window whose URL contains this text'),
+  timeout: z.number().optional().default(10000).describe('For wait_for_new: how long to wait in ms'),
+  switchTo: z.boolean().optional().default(true).describe('For wait_for_new: make the new window active')
+});
+
+export class ElectronWindowsTool extends BaseTool {
+  readonly name = 'electron_windows';
+  readonly description = 'List the app\'s BrowserWindows with title, URL, bounds and focus, switch the active window, close one, or wait for a new window (preferences, pop-outs). Snapshots and element refs belong to the active window.';
+  readonly inputSchema = schema;
+
+  async execute(context: Context, params: unknown): Promise<ToolResult> {
+    const { action, id, title, url, timeout, switchTo } = this.parseParams(schema, params);
+
+    if (!context.isConnected()) {
+      return this.error('No Electron app is currently running. Launch an app first with electron_launch.');
+    }
+
+    const target = id !== undefined || title !== undefined || url !== undefined ? { id, title, url } : undefined;
+
+    try {
+      switch (action) {
+        case 'list': {
+          const windows = await context.listWindows();
+          return this.success(`Windows (${windows.length}, * = active):\n${windows.map(formatWindow).join('\n')}`);
+        }
+
+        case 'switch': {
+          if (!target) {
+            return this.error('Switch needs id, title or url');
+          }
+          const window = await context.switchWindow(target);
+          context.recordAction('electron_windows', { action, title: window.title, url: window.url });
+          return this.success(`Switched to window ${formatWindow(window)}`, true);
+        }
+
+        case 'close': {
+          const { closed, active } = await context.closeWindow(target);
+          context.recordAction('electron_windows', { action, title: closed.title, url: closed.url });
+          const next = active ? `\nActive window: ${formatWindow(active)}` : '\nNo windows left open.';
+          return this.success(`Closed window ${closed.id} "${closed.title}"${next}`, active !== undefined);
+        }
+
+        case 'wait_for_new': {
+          const window = await context.waitForNewWindow(timeout || 10000, switchTo !== false);
+          context.recordAction('electron_windows', { action, title: window.title, url: window.url, switchTo: switchTo !== false });
+          return this.success(`New window opened: ${formatWindow(window)}`, window.isActive);
+        }
+
+        default:
+          return this.error(`Unknown action: ${action}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.error(`Window operation failed: ${message}`);
+    }
+  }
+}
+
+function formatWindow(window: WindowInfo): string {
+  const marker = window.isActive ? '*' : ' ';
+  const bounds = window.bounds
+    ? ` ${window.bounds.width}x${window.bounds.height} at ${window.bounds.x},${window.bounds.y}`
+    : '';
+  const state = [window.isFocused && 'focused', !window.isVisible && 'hidden'].filter(Boolean).join(', ');
+  return `${marker} ${window.id} "${window.title}" ${window.url}${bounds}${state ? ` [${state}]` : ''}`;
+}
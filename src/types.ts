@@ -17,16 +17,132 @@ export interface ElementInfo {
     width: number;
     height: number;
   };
+  // Accessibility details, filled in by AX snapshots
+  accessibleName?: string;
+  description?: string;
+  checked?: boolean | 'mixed';
+  expanded?: boolean;
+  selected?: boolean;
+  focused?: boolean;
+  parentRef?: string;    // nearest ancestor that has a ref
+  backendNodeId?: number;
+  domPath?: string;      // html[1]/body[1]/div[2]/button[1] within its document, part of the ref fingerprint
+  frames?: FrameSegment[];   // iframes and webviews between the window's top document and the element
+}
+
+// One step from a document into an iframe or <webview> guest
+export interface FrameSegment {
+  type: 'iframe' | 'webview';
+  domPath: string;       // of the iframe or webview element in its parent document
+  label: string;         // e.g. iframe#help, webview (https://docs.example.com/)
+}
+
+// dom: interactive elements found by CSS selectors, ax: the page's accessibility tree
+export type SnapshotMode = 'dom' | 'ax';
+
+// Node of an AX snapshot; generic containers and ignored nodes are flattened away
+export interface AXSnapshotNode {
+  role: string;
+  name?: string;
+  value?: string;
+  description?: string;
+  states: string[];      // checked, expanded, disabled...
+  ref?: string;          // only actionable nodes get a ref
+  children: AXSnapshotNode[];
 }
 
 // Page state snapshot
 export interface PageSnapshot {
   title: string;
   url: string;
+  windowId: string;       // w1, w2... refs from other windows never resolve against this snapshot
+  windowHandle: string;
+  mode: SnapshotMode;
   elements: Map<string, ElementInfo>;
+  axTree?: AXSnapshotNode[];  // set for mode "ax"
+  totalElements: number;      // elements found, more than elements.size when the snapshot was capped
+  captureTime: number;        // ms
   timestamp: number;
 }
 
+// Narrows what a snapshot reports; the snapshot itself always covers the whole window
+export interface SnapshotQuery {
+  root?: string;          // ref or CSS selector; only elements inside it
+  roles?: string[];       // role, or tag name for elements without one
+  text?: string;          // case-insensitive match on name or text
+  viewportOnly?: boolean;
+  limit?: number;
+  cursor?: string;        // from a previous page of the same snapshot
+}
+
+export type SnapshotFormat = 'compact' | 'verbose' | 'json';
+
+// One page of the elements a query matched
+export interface SnapshotPage {
+  snapshot: PageSnapshot;
+  elements: ElementInfo[];
+  matched: number;        // all matches, across pages
+  offset: number;
+  nextCursor?: string;
+  filtered: boolean;      // anything besides a root ref narrowed the elements
+  rootRef?: string;
+}
+
+// Difference between two snapshots of the same window, by ref
+export interface SnapshotDiff {
+  windowId: string;
+  since: number;          // timestamp of the earlier snapshot
+  added: ElementInfo[];
+  removed: ElementInfo[];
+  changed: Array<{ element: ElementInfo; changes: string[] }>;
+}
+
+// Browser window as seen by WebDriver
+export interface WindowInfo {
+  id: string;             // w1, w2... stable for the session
+  handle: string;
+  title: string;
+  url: string;
+  bounds?: WindowBounds;
+  isFocused: boolean;
+  isVisible: boolean;
+  isActive: boolean;      // the window tools currently act on
+}
+
+// Picks a window by id, title or URL (title and URL match partially)
+export interface WindowTarget {
+  id?: string;
+  title?: string;
+  url?: string;
+}
+
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Native BrowserWindow state, read in the main process
+export interface WindowState {
+  id: number;             // BrowserWindow id
+  title: string;
+  bounds: WindowBounds;
+  contentBounds: WindowBounds;
+  isMinimized: boolean;
+  isMaximized: boolean;
+  isFullScreen: boolean;
+  isFocused: boolean;
+  isVisible: boolean;
+  isAlwaysOnTop: boolean;
+}
+
+export type WindowStateChange =
+  | { type: 'get' }
+  | { type: 'bounds'; bounds: Partial<WindowBounds> }
+  | { type: 'minimize' | 'maximize' | 'restore' | 'focus' }
+  | { type: 'fullscreen' | 'always_on_top'; enabled: boolean };
+
 // Tool execution result
 export interface ToolResult {
   content: string;
@@ -48,12 +164,54 @@ export interface ElectronAppConfig {
   args?: string[];
   cwd?: string;
   env?: Record<string, string>;
+  switches?: string[];          // extra Chromium/Electron switches, appended to args
+  isolateUserData?: boolean;    // launch with a throwaway --user-data-dir, removed on close
+  userDataFixture?: string;     // directory copied into the throwaway user data dir
+  headless?: boolean;           // Linux: run on a managed Xvfb display sized to windowSize
   windowSize?: {
     width: number;
     height: number;
   };
   waitForFirstWindow?: boolean;
   waitTimeout?: number;
+  readiness?: ReadinessConfig;
+  chromedriver?: ChromedriverConfig;
+  recovery?: RecoveryConfig;
+  actionTimeout?: number;       // ms interaction tools wait for an element to become actionable (default 5000)
+}
+
+// Crash/hang detection and automatic relaunch
+export interface RecoveryConfig {
+  autoRelaunch?: boolean;   // relaunch after a crash or unexpected exit (default false)
+  maxRelaunches?: number;   // give up after this many relaunches (default 3)
+  hangTimeout?: number;     // ms without a response before the app counts as hung (default 10000)
+  checkInterval?: number;   // ms between health checks (default 2000)
+}
+
+// Where to find a chromedriver matching the app's Chromium version
+export interface ChromedriverConfig {
+  paths?: string[];       // chromedriver binaries or directories to search first
+  cacheDir?: string;      // cache directory to search, and to download into when allowed
+  download?: boolean;     // let WebdriverIO download a missing chromedriver (default true)
+}
+
+// When the app counts as ready after launch
+export interface ReadinessConfig {
+  mode: 'load' | 'window' | 'selector' | 'network_idle' | 'predicate';
+  windowTitle?: string;   // window mode: title contains
+  windowUrl?: string;     // window mode: URL contains
+  selector?: string;      // selector mode: element to be displayed
+  idleTime?: number;      // network_idle mode: ms without new requests
+  script?: string;        // predicate mode: function body returning true when ready
+}
+
+// Connection to an Electron app that is already running
+export interface ElectronAttachConfig {
+  host?: string;
+  port?: number;
+  wsEndpoint?: string;
+  chromedriver?: ChromedriverConfig;
+  actionTimeout?: number;
 }
 
 // Console log entry from CDP
@@ -79,6 +237,34 @@ export interface NetworkEntry {
   responseBody?: string;
 }
 
+// Native menu item, from the application menu or a captured context menu
+export interface MenuItemInfo {
+  label: string;
+  role?: string;
+  type: 'normal' | 'separator' | 'submenu' | 'checkbox' | 'radio';
+  accelerator?: string;
+  enabled: boolean;
+  visible: boolean;
+  checked?: boolean;
+  sublabel?: string;
+  submenu?: MenuItemInfo[];
+}
+
+export type MenuKind = 'application' | 'context';
+
+// IPC message captured in the main process
+export interface IpcMessage {
+  channel: string;
+  direction: 'renderer-to-main' | 'main-to-renderer';
+  type: 'send' | 'sendSync' | 'invoke';
+  args: unknown[];
+  result?: unknown;       // sendSync return value or invoke result
+  error?: string;         // invoke handler error
+  duration?: number;      // invoke handler time in ms
+  webContentsId?: number;
+  timestamp: number;
+}
+
 // Performance metrics from CDP
 export interface PerformanceMetrics {
   timestamp: number;
@@ -105,8 +291,12 @@ export interface RecordedAction {
     text?: string;
     attributes?: Record<string, string>;
   };
+  targetElementInfo?: RecordedAction['elementInfo'];   // drop target of a drag
 }
 
+// Modifier keys held during pointer actions
+export type ModifierKey = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
 // CDP mock response
 export interface MockResponse {
   url: string | RegExp;
@@ -116,12 +306,59 @@ export interface MockResponse {
   contentType?: string;
 }
 
+// Mocked electron module function, e.g. dialog.showOpenDialog
+export interface ApiMock {
+  api: string;      // electron export: dialog, shell, app, clipboard, Notification, ...
+  method: string;
+  mode: 'return' | 'resolve' | 'reject' | 'implementation';
+  value?: unknown;           // returned or resolved value, rejection message
+  implementation?: string;   // function source for implementation mode
+  createdAt: number;
+}
+
+export interface ApiMockCall {
+  args: unknown[];
+  timestamp: number;
+}
+
 // Session state
 export interface SessionState {
+  sessionId: string;
   isConnected: boolean;
+  connectionType?: 'launched' | 'attached';
   appPath?: string;
   windowTitle?: string;
   windowCount?: number;
+  health?: AppHealth;
+  lastFailure?: AppFailure;
+  relaunchCount?: number;
+  apiMocks?: ApiMock[];
+  recordingEnabled: boolean;
+  actionCount: number;
+}
+
+// App health as seen by the lifecycle monitor
+export type AppHealth = 'healthy' | 'unresponsive' | 'crashed' | 'exited';
+
+// Crash, hang or exit detected in a running app
+export interface AppFailure {
+  type: 'crash' | 'renderer_crash' | 'oom' | 'hang' | 'exit';
+  message: string;
+  reason?: string;
+  exitCode?: number;
+  timestamp: number;
+  lastConsoleOutput: string[];
+}
+
+// Named app session summary
+export interface SessionInfo {
+  id: string;
+  isCurrent: boolean;
+  isConnected: boolean;
+  connectionType?: 'launched' | 'attached';
+  appPath?: string;
+  health?: AppHealth;
   recordingEnabled: boolean;
   actionCount: number;
+  createdAt: number;
 }
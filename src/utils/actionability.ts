@@ -0,0 +1,86 @@
+/**
+ * Actionability checks run before interactions, in the spirit of Playwright's:
+ * the element must be attached, visible, enabled, stable, and be what a click
+ * at its centre would hit.
+ */
+
+export type ActionabilityCheck = 'attached' | 'visible' | 'enabled' | 'stable' | 'hit';
+
+export interface ActionabilityOptions {
+  enabled?: boolean;     // require the element to be enabled (default true)
+  hitTarget?: boolean;   // require the element to receive pointer events at its centre (default true)
+}
+
+export interface ActionabilityResult {
+  failed?: ActionabilityCheck;
+  detail?: string;
+}
+
+/**
+ * Called with (element, { enabled, hitTarget }). Resolves to {} when the element
+ * passes, else to the first failed check and a description of why.
+ */
+export const ACTIONABILITY_SCRIPT = `
+const el = arguments[0];
+const options = arguments[1];
+
+const describe = (node) => {
+  const classes = typeof node.className === 'string' ? node.className.trim().split(/\\s+/).filter(Boolean).slice(0, 3) : [];
+  const text = (node.innerText || '').trim().replace(/\\s+/g, ' ').slice(0, 40);
+  return '<' + node.tagName.toLowerCase() + (node.id ? ' id="' + node.id + '"' : '') +
+    (classes.length ? ' class="' + classes.join(' ') + '"' : '') + '>' + (text ? ' "' + text + '"' : '');
+};
+
+return (async () => {
+  if (!el.isConnected) return { failed: 'attached', detail: 'it was removed from the page' };
+
+  const view = el.ownerDocument.defaultView;
+  const style = view.getComputedStyle(el);
+  const rect = el.getBoundingClientRect();
+  if (el.checkVisibility && !el.checkVisibility({ visibilityProperty: true })) {
+    return { failed: 'visible', detail: 'it is not visible (hidden by display or visibility on it or an ancestor)' };
+  }
+  if (style.visibility === 'hidden') return { failed: 'visible', detail: 'it is not visible (visibility: hidden)' };
+  if (rect.width === 0 || rect.height === 0) return { failed: 'visible', detail: 'it has no size' };
+
+  if (options.enabled) {
+    if (el.matches(':disabled')) return { failed: 'enabled', detail: 'it is disabled' };
+    const ariaDisabled = el.closest('[aria-disabled="true"]');
+    if (ariaDisabled) return { failed: 'enabled', detail: ariaDisabled === el ? 'it has aria-disabled="true"' : 'it is inside an element with aria-disabled="true"' };
+  }
+
+  // Animation frames do not run in hidden windows, so a timer stands in
+  const nextFrame = () => new Promise((resolve) => { view.requestAnimationFrame(resolve); setTimeout(resolve, 50); });
+  await nextFrame();
+  const first = el.getBoundingClientRect();
+  await nextFrame();
+  const second = el.getBoundingClientRect();
+  if (first.x !== second.x || first.y !== second.y || first.width !== second.width || first.height !== second.height) {
+    return { failed: 'stable', detail: 'it is still moving or resizing (an animation or transition is running)' };
+  }
+
+  if (options.hitTarget) {
+    const x = second.left + second.width / 2;
+    const y = second.top + second.height / 2;
+    if (x < 0 || y < 0 || x >= view.innerWidth || y >= view.innerHeight) {
+      return { failed: 'hit', detail: 'its centre is outside the viewport' };
+    }
+
+    const root = el.getRootNode();
+    const hit = (root.elementFromPoint ? root : el.ownerDocument).elementFromPoint(x, y);
+    for (let node = hit; node; node = node.parentElement || (node.parentNode && node.parentNode.host)) {
+      if (node === el) return {};
+    }
+    // Clicks on a label go to its control
+    if (hit && hit.tagName === 'LABEL' && hit.control === el) return {};
+    return {
+      failed: 'hit',
+      detail: hit
+        ? 'it is covered by ' + describe(hit) + ' at its centre (' + Math.round(x) + ', ' + Math.round(y) + ')'
+        : 'nothing receives pointer events at its centre'
+    };
+  }
+
+  return {};
+})();
+`;
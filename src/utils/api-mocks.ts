@@ -0,0 +1,80 @@
+/**
+ * Main-process scripts for mocking electron module functions. Mocks live on
+ * globalThis.__mcpApiMocks in the main process, keyed by "api.method".
+ * Classes (capitalized names such as Notification) are mocked on their prototype.
+ */
+
+import { ApiMock } from '../types.js';
+
+export function apiMockKey(api: string, method: string): string {
+  return `${api}.${method}`;
+}
+
+// Values cross the bridge as JSON, so windows, functions and cycles are summarized
+export const SAFE_VALUE_FN = `(value) => {
+  try {
+    return JSON.parse(JSON.stringify(value, (_key, v) => {
+      if (typeof v === 'function') return '[Function]';
+      if (v && v.constructor && v.constructor.name === 'BrowserWindow') return '[BrowserWindow ' + v.id + ']';
+      if (v && v.constructor && v.constructor.name === 'WebContents') return '[WebContents ' + v.id + ']';
+      return v;
+    }) ?? 'null');
+  } catch (e) {
+    return String(value);
+  }
+}`;
+
+/**
+ * Install or replace a mock. The implementation, when given, is inlined as function source.
+ */
+export function buildMockScript(mock: ApiMock): string {
+  const implementation = mock.mode === 'implementation' && mock.implementation ? mock.implementation : 'undefined';
+
+  return `(electron, api, method, mode, value) => {
+  const mocks = globalThis.__mcpApiMocks || (globalThis.__mcpApiMocks = {});
+  const owner = electron[api];
+  if (!owner) throw new Error('electron.' + api + ' does not exist');
+  const holder = /^[A-Z]/.test(api) ? owner.prototype : owner;
+  const key = api + '.' + method;
+  const original = mocks[key] ? mocks[key].original : holder[method];
+  if (typeof original !== 'function') throw new Error('electron.' + key + ' is not a function');
+
+  const implementation = ${implementation};
+  const safeValue = ${SAFE_VALUE_FN};
+  const entry = { holder, method, original, calls: [] };
+
+  holder[method] = function (...args) {
+    entry.calls.push({ args: args.map(safeValue), timestamp: Date.now() });
+    switch (mode) {
+      case 'resolve': return Promise.resolve(value);
+      case 'reject': return Promise.reject(new Error(String(value)));
+      case 'implementation': return implementation.apply(this, args);
+      default: return value;
+    }
+  };
+  mocks[key] = entry;
+  return true;
+}`;
+}
+
+export const GET_MOCK_CALLS_SCRIPT = `(electron, key) => {
+  const entry = (globalThis.__mcpApiMocks || {})[key];
+  if (!entry) throw new Error('electron.' + key + ' is not mocked');
+  return entry.calls;
+}`;
+
+export const RESET_MOCK_SCRIPT = `(electron, key) => {
+  const entry = (globalThis.__mcpApiMocks || {})[key];
+  if (!entry) throw new Error('electron.' + key + ' is not mocked');
+  entry.calls = [];
+  return true;
+}`;
+
+export const RESTORE_MOCK_SCRIPT = `(electron, key) => {
+  const mocks = globalThis.__mcpApiMocks || {};
+  const entry = mocks[key];
+  if (!entry) return false;
+  entry.holder[entry.method] = entry.original;
+  delete mocks[key];
+  return true;
+}`;
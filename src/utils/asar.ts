@@ -0,0 +1,54 @@
+/**
+ * Minimal reader for Electron asar archives - just enough to read single files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface AsarEntry {
+  files?: Record<string, AsarEntry>;
+  size?: number;
+  offset?: string;
+  unpacked?: boolean;
+}
+
+/**
+ * Read a file from an asar archive. Returns null if the file is not in the archive.
+ *
+ * Layout: uint32 size of the size pickle (4), uint32 header pickle size, then the
+ * header pickle (uint32 payload size, uint32 JSON length, JSON), then file contents.
+ */
+export function readAsarFile(asarPath: string, filePath: string): Buffer | null {
+  const fd = fs.openSync(asarPath, 'r');
+  try {
+    const sizeBuf = Buffer.alloc(8);
+    fs.readSync(fd, sizeBuf, 0, 8, 0);
+    const headerSize = sizeBuf.readUInt32LE(4);
+
+    const headerBuf = Buffer.alloc(headerSize);
+    fs.readSync(fd, headerBuf, 0, headerSize, 8);
+    const jsonLength = headerBuf.readUInt32LE(4);
+    const header = JSON.parse(headerBuf.toString('utf-8', 8, 8 + jsonLength)) as AsarEntry;
+
+    let entry: AsarEntry | undefined = header;
+    for (const part of filePath.split('/').filter(Boolean)) {
+      entry = entry?.files?.[part];
+    }
+
+    if (!entry || entry.files || entry.size === undefined) {
+      return null;
+    }
+
+    // Unpacked files live next to the archive in app.asar.unpacked
+    if (entry.unpacked) {
+      const unpackedPath = path.join(`${asarPath}.unpacked`, filePath);
+      return fs.existsSync(unpackedPath) ? fs.readFileSync(unpackedPath) : null;
+    }
+
+    const content = Buffer.alloc(entry.size);
+    fs.readSync(fd, content, 0, entry.size, 8 + headerSize + Number(entry.offset));
+    return content;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
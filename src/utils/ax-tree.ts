@@ -0,0 +1,271 @@
+/**
+ * Builds AX snapshots from the CDP Accessibility.getFullAXTree and DOM.getDocument results
+ */
+
+import { AXSnapshotNode, ElementInfo, FrameSegment } from '../types.js';
+import { WebviewEntry } from './dom-snapshot.js';
+
+// Subset of the CDP Accessibility.AXNode and DOM.Node types that snapshots use
+export interface CDPAXValue {
+  type: string;
+  value?: unknown;
+}
+
+export interface CDPAXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: CDPAXValue;
+  name?: CDPAXValue;
+  description?: CDPAXValue;
+  value?: CDPAXValue;
+  properties?: Array<{ name: string; value: CDPAXValue }>;
+  parentId?: string;
+  childIds?: string[];
+  backendDOMNodeId?: number;
+}
+
+export interface CDPDOMNode {
+  backendNodeId: number;
+  nodeType: number;
+  nodeName: string;
+  attributes?: string[];   // flat [name, value, name, value...]
+  children?: CDPDOMNode[];
+  shadowRoots?: CDPDOMNode[];
+  contentDocument?: CDPDOMNode;
+}
+
+export interface AXSnapshot {
+  tree: AXSnapshotNode[];
+  elements: Map<string, ElementInfo>;
+  webviews: WebviewEntry[];
+}
+
+const ACTIONABLE_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'treeitem', 'textbox', 'searchbox', 'combobox', 'listbox',
+  'slider', 'spinbutton', 'scrollbar', 'PopUpButton', 'ToggleButton', 'DisclosureTriangle'
+]);
+
+const CLICKABLE_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'treeitem', 'PopUpButton', 'ToggleButton', 'DisclosureTriangle'
+]);
+
+const DOCUMENT_ROLES = new Set(['RootWebArea', 'WebArea']);
+
+// Containers that only add nesting; they are kept when they have a name or a ref
+const TRANSPARENT_ROLES = new Set(['generic', 'none', 'presentation', 'GenericContainer', ...DOCUMENT_ROLES]);
+
+const ELEMENT_NODE = 1;
+
+// Attributes copied to ElementInfo, as in DOM snapshots
+const KEPT_ATTRIBUTES = ['id', 'name', 'type', 'href', 'placeholder', 'class', 'data-testid'];
+
+// Refs are numbered in document order; the caller swaps them for stable refs
+export function buildAXSnapshot(axNodes: CDPAXNode[], document: CDPDOMNode): AXSnapshot {
+  const nodesById = new Map(axNodes.map(node => [node.nodeId, node]));
+  const webviews: WebviewEntry[] = [];
+  const domNodes = indexDOMNodes(document, webviews);
+  const elements = new Map<string, ElementInfo>();
+  let refCount = 1;
+
+  const walk = (node: CDPAXNode, parentRef: string | undefined): AXSnapshotNode[] => {
+    const role = String(node.role?.value ?? '');
+    const name = String(node.name?.value ?? '').trim();
+
+    if (role === 'InlineTextBox') return [];
+    if (role === 'StaticText') {
+      return name ? [{ role: 'text', name, states: [], children: [] }] : [];
+    }
+
+    const properties = readProperties(node);
+    const actionable = !node.ignored &&
+      !DOCUMENT_ROLES.has(role) &&
+      (ACTIONABLE_ROLES.has(role) || properties['focusable'] === true);
+    const ref = actionable ? `e${refCount++}` : undefined;
+
+    const checked = properties['checked'] === 'mixed' ? 'mixed' : toBoolean(properties['checked']);
+    const expanded = toBoolean(properties['expanded']);
+    const selected = toBoolean(properties['selected']);
+    const focused = properties['focused'] === true;
+    const disabled = properties['disabled'] === true;
+    const description = String(node.description?.value ?? '') || undefined;
+    const value = node.value?.value !== undefined && node.value.value !== '' ? String(node.value.value) : undefined;
+
+    if (ref) {
+      const dom = node.backendDOMNodeId !== undefined ? domNodes.get(node.backendDOMNodeId) : undefined;
+      const attributes = dom ? readAttributes(dom.node) : {};
+      const kept: Record<string, string> = {};
+      for (const key of KEPT_ATTRIBUTES) {
+        if (attributes[key]) kept[key] = attributes[key];
+      }
+
+      elements.set(ref, {
+        ref,
+        tagName: dom ? dom.node.nodeName.toLowerCase() : role,
+        text: name.slice(0, 100),
+        ariaLabel: attributes['aria-label'] || undefined,
+        role,
+        isClickable: CLICKABLE_ROLES.has(role) || TRANSPARENT_ROLES.has(role),   // focusable custom widget
+        isVisible: properties['hidden'] !== true,
+        isEnabled: !disabled,
+        attributes: kept,
+        accessibleName: name || undefined,
+        description,
+        checked,
+        expanded,
+        selected,
+        focused: focused || undefined,
+        parentRef,
+        backendNodeId: node.backendDOMNodeId,
+        domPath: dom?.path,
+        frames: dom?.frames.length ? dom.frames : undefined
+      });
+    }
+
+    const children = (node.childIds ?? [])
+      .map(id => nodesById.get(id))
+      .filter((child): child is CDPAXNode => child !== undefined)
+      .flatMap(child => walk(child, ref ?? parentRef));
+
+    if (node.ignored || DOCUMENT_ROLES.has(role) || (TRANSPARENT_ROLES.has(role) && !name && !ref)) {
+      return children;
+    }
+
+    const states = [
+      checked === 'mixed' ? 'mixed' : checked && 'checked',
+      expanded === true && 'expanded',
+      expanded === false && 'collapsed',
+      selected && 'selected',
+      focused && 'focused',
+      disabled && 'disabled',
+      properties['required'] === true && 'required',
+      properties['readonly'] === true && 'readonly',
+      properties['pressed'] === true && 'pressed'
+    ].filter((state): state is string => typeof state === 'string');
+
+    return [{
+      role,
+      name: name || undefined,
+      value,
+      description,
+      states,
+      ref,
+      // Text that only repeats the node's name adds nothing
+      children: children.every(child => child.role === 'text') && children.map(child => child.name).join('').trim() === name
+        ? []
+        : children
+    }];
+  };
+
+  const root = axNodes.find(node => node.parentId === undefined) ?? axNodes[0];
+  const tree = root ? walk(root, undefined) : [];
+
+  return { tree, elements, webviews };
+}
+
+/**
+ * Hang the AX tree of a child frame below the node of its <iframe>. AX node ids
+ * are only unique within a frame, so the frame's ids get the frame id as prefix.
+ */
+export function attachFrameAXTree(nodes: CDPAXNode[], ownerBackendNodeId: number, frameId: string, frameNodes: CDPAXNode[]): void {
+  const owner = nodes.find(node => node.backendDOMNodeId === ownerBackendNodeId);
+  if (!owner || frameNodes.length === 0) return;
+
+  const id = (nodeId: string) => `${frameId}:${nodeId}`;
+  const renamed = frameNodes.map(node => ({
+    ...node,
+    nodeId: id(node.nodeId),
+    parentId: node.parentId !== undefined ? id(node.parentId) : owner.nodeId,
+    childIds: node.childIds?.map(id)
+  }));
+
+  owner.childIds = [...(owner.childIds ?? []), ...renamed.filter(node => node.parentId === owner.nodeId).map(node => node.nodeId)];
+  nodes.push(...renamed);
+}
+
+export function formatAXTree(nodes: AXSnapshotNode[], depth = 0): string[] {
+  const indent = '  '.repeat(depth);
+
+  return nodes.flatMap(node => {
+    let line = `${indent}- ${node.role}`;
+    if (node.name) line += ` "${node.name.slice(0, 80)}"`;
+    if (node.ref) line += ` [ref=${node.ref}]`;
+    if (node.value !== undefined) line += ` value="${node.value.slice(0, 80)}"`;
+    for (const state of node.states) line += ` [${state}]`;
+    if (node.description) line += ` (${node.description.slice(0, 80)})`;
+
+    return [line, ...formatAXTree(node.children, depth + 1)];
+  });
+}
+
+export function renameAXTreeRefs(nodes: AXSnapshotNode[], refs: Map<string, string>): void {
+  for (const node of nodes) {
+    if (node.ref) node.ref = refs.get(node.ref) ?? node.ref;
+    renameAXTreeRefs(node.children, refs);
+  }
+}
+
+interface IndexedDOMNode {
+  node: CDPDOMNode;
+  path: string;
+  frames: FrameSegment[];
+}
+
+// Indexes nodes by backend id, with the same element paths and frames as DOM snapshots
+function indexDOMNodes(root: CDPDOMNode, webviews: WebviewEntry[]): Map<number, IndexedDOMNode> {
+  const index = new Map<number, IndexedDOMNode>();
+  const visit = (node: CDPDOMNode, path: string, frames: FrameSegment[]) => {
+    index.set(node.backendNodeId, { node, path, frames });
+
+    if (node.nodeName === 'WEBVIEW') {
+      webviews.push({ frames, segment: { type: 'webview', domPath: path, label: frameLabel(node) } });
+    }
+    if (node.contentDocument) {
+      visit(node.contentDocument, '', [...frames, { type: 'iframe', domPath: path, label: frameLabel(node) }]);
+    }
+
+    const counts = new Map<string, number>();
+    for (const child of node.children ?? []) {
+      if (child.nodeType !== ELEMENT_NODE) {
+        visit(child, path, frames);
+        continue;
+      }
+      const tag = child.nodeName.toLowerCase();
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      visit(child, `${path ? `${path}/` : ''}${tag}[${counts.get(tag)}]`, frames);
+    }
+    node.shadowRoots?.forEach(shadowRoot => visit(shadowRoot, `${path}/#shadow-root`, frames));
+  };
+  visit(root, '', []);
+  return index;
+}
+
+function frameLabel(node: CDPDOMNode): string {
+  const attributes = readAttributes(node);
+  const src = attributes['src'];
+  return `${node.nodeName.toLowerCase()}${attributes['id'] ? `#${attributes['id']}` : ''}${src ? ` (${src.slice(0, 80)})` : ''}`;
+}
+
+function readAttributes(node: CDPDOMNode): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const flat = node.attributes ?? [];
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    attributes[flat[i]] = flat[i + 1];
+  }
+  return attributes;
+}
+
+function readProperties(node: CDPAXNode): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const property of node.properties ?? []) {
+    properties[property.name] = property.value.value;
+  }
+  return properties;
+}
+
+// CDP reports tristate and boolean properties as booleans or "true"/"false" strings
+function toBoolean(value: unknown): boolean | undefined {
+  if (value === undefined) return undefined;
+  return value === true || value === 'true';
+}
@@ -0,0 +1,129 @@
+/**
+ * Utility to find a chromedriver matching the app's Chromium version without network access
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChromedriverConfig } from '../types.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_CHROMEDRIVER_CACHE_DIR = path.join(os.homedir(), '.cache', 'electron-mcp-server', 'chromedriver');
+
+const CHROMEDRIVER_NAME = process.platform === 'win32' ? 'chromedriver.exe' : 'chromedriver';
+const MAX_SEARCH_DEPTH = 4;
+
+export interface ChromedriverCandidate {
+  path: string;
+  version?: string;
+}
+
+/**
+ * Look through configured paths and cache directories for a chromedriver whose
+ * major version matches the Chromium major version. Returns null when none matches.
+ */
+export function findChromedriver(chromiumVersion: string, config: ChromedriverConfig = {}): ChromedriverCandidate | null {
+  const major = chromiumVersion.split('.')[0];
+
+  for (const candidate of listChromedrivers(config)) {
+    if (candidate.version?.split('.')[0] === major) {
+      logger.info(`Using chromedriver ${candidate.version} at ${candidate.path}`);
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Like findChromedriver, but throws an error listing everything that was checked
+ */
+export function resolveChromedriver(chromiumVersion: string, config: ChromedriverConfig = {}): string {
+  const match = findChromedriver(chromiumVersion, config);
+  if (match) {
+    return match.path;
+  }
+
+  const major = chromiumVersion.split('.')[0];
+  const found = listChromedrivers(config);
+  const lines = [
+    `No chromedriver for Chromium ${major} found (the app runs Chromium ${chromiumVersion}).`,
+    found.length > 0
+      ? `Found incompatible chromedrivers:\n${found.map(c => `  - ${c.path} (${c.version || 'unknown version'})`).join('\n')}`
+      : 'No chromedriver binaries were found.',
+    `Searched: ${getSearchLocations(config).join(', ')}`,
+    'To fix this, either:',
+    `  - download chromedriver ${major} (https://googlechromelabs.github.io/chrome-for-testing/ or the Electron release's chromedriver zip) into ${config.cacheDir || DEFAULT_CHROMEDRIVER_CACHE_DIR}`,
+    '  - pass its location in chromedriverPaths, or set CHROMEDRIVER_PATH',
+    '  - allow downloads so WebdriverIO fetches it automatically'
+  ];
+  throw new Error(lines.join('\n'));
+}
+
+/**
+ * Read the version a chromedriver binary reports, e.g. "120.0.6099.109"
+ */
+export function getChromedriverVersion(binaryPath: string): string | undefined {
+  try {
+    const output = execFileSync(binaryPath, ['--version'], {
+      encoding: 'utf-8',
+      timeout: 10000,
+      stdio: ['ignore', 'pipe', 'ignore']
+    });
+    return output.match(/ChromeDriver\s+(\d+(?:\.\d+)*)/)?.[1];
+  } catch (err) {
+    logger.debug(`Could not read chromedriver version from ${binaryPath}:`, err instanceof Error ? err.message : String(err));
+    return undefined;
+  }
+}
+
+function getSearchLocations(config: ChromedriverConfig): string[] {
+  const locations = [
+    ...(config.paths || []),
+    ...(process.env.CHROMEDRIVER_PATH ? [process.env.CHROMEDRIVER_PATH] : []),
+    config.cacheDir || DEFAULT_CHROMEDRIVER_CACHE_DIR,
+    // Where WebdriverIO caches the drivers it downloads
+    process.env.WEBDRIVER_CACHE_DIR || os.tmpdir(),
+    // Where earlier versions of this server installed chromedriver
+    path.join(process.cwd(), '.chromedriver')
+  ];
+  return Array.from(new Set(locations));
+}
+
+function listChromedrivers(config: ChromedriverConfig): ChromedriverCandidate[] {
+  const binaries: string[] = [];
+
+  for (const location of getSearchLocations(config)) {
+    if (!fs.existsSync(location)) continue;
+
+    if (fs.statSync(location).isFile()) {
+      binaries.push(location);
+    } else {
+      collectChromedrivers(location, 0, binaries);
+    }
+  }
+
+  return Array.from(new Set(binaries)).map(p => ({ path: p, version: getChromedriverVersion(p) }));
+}
+
+function collectChromedrivers(dir: string, depth: number, result: string[]): void {
+  if (depth > MAX_SEARCH_DEPTH) return;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isFile() && entry.name === CHROMEDRIVER_NAME) {
+      result.push(fullPath);
+    } else if (entry.isDirectory() && (depth > 0 || entry.name.includes('chromedriver') || /^(linux|mac|win|\d)/.test(entry.name))) {
+      // Only enter chromedriver install trees, e.g. chromedriver/linux-120.0.6099.109/chromedriver-linux64/ or 120/
+      collectChromedrivers(fullPath, depth + 1, result);
+    }
+  }
+}
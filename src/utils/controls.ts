@@ -0,0 +1,140 @@
+/**
+ * Form controls for electron_set_control: which kind of control a snapshot
+ * element is, and in-page scripts that read and set them. The scripts take the
+ * element as arguments[0] and fire input and change events like a user edit.
+ */
+
+import { ElementInfo } from '../types.js';
+
+export type ControlKind = 'select' | 'checkbox' | 'radio' | 'input' | 'slider' | 'combobox' | 'listbox';
+
+// Inputs whose value is set directly, with the format they take
+export const INPUT_FORMATS: Record<string, string> = {
+  range: 'a number',
+  date: 'YYYY-MM-DD',
+  time: 'HH:MM or HH:MM:SS',
+  'datetime-local': 'YYYY-MM-DDTHH:MM',
+  month: 'YYYY-MM',
+  week: 'YYYY-Www',
+  color: '#rrggbb'
+};
+
+export function controlKind(info: ElementInfo): ControlKind | null {
+  const tag = info.tagName.toLowerCase();
+  const type = (info.attributes['type'] ?? '').toLowerCase();
+
+  if (tag === 'select') return 'select';
+  if (tag === 'input') {
+    if (type === 'checkbox') return 'checkbox';
+    if (type === 'radio') return 'radio';
+    if (type in INPUT_FORMATS) return 'input';
+  }
+
+  switch (info.role?.toLowerCase()) {
+    case 'checkbox':
+    case 'switch':
+    case 'menuitemcheckbox':
+      return 'checkbox';
+    case 'radio':
+    case 'menuitemradio':
+      return 'radio';
+    case 'slider':
+    case 'spinbutton':
+      return 'slider';
+    case 'combobox':
+      return 'combobox';
+    case 'listbox':
+      return 'listbox';
+    default:
+      return null;
+  }
+}
+
+// Returns { checked, value, valueNow }: checked is null for controls that cannot be checked
+export const CONTROL_STATE_SCRIPT = `
+const el = arguments[0];
+const text = (node) => (node.getAttribute('aria-label') || node.innerText || node.textContent || '').trim();
+let checked = null;
+if (el.tagName === 'INPUT' && (el.type === 'checkbox' || el.type === 'radio')) {
+  checked = el.indeterminate ? 'mixed' : el.checked;
+} else if (el.hasAttribute('aria-checked')) {
+  checked = el.getAttribute('aria-checked') === 'mixed' ? 'mixed' : el.getAttribute('aria-checked') === 'true';
+}
+
+let value;
+if (el.tagName === 'SELECT') {
+  value = Array.from(el.selectedOptions).map((option) => option.label).join(', ');
+} else if (el.getAttribute('role') === 'listbox') {
+  value = Array.from(el.querySelectorAll('[role="option"][aria-selected="true"]')).map(text).join(', ');
+} else if (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA') {
+  value = el.value;
+} else {
+  value = el.getAttribute('aria-valuetext') || el.getAttribute('aria-valuenow') || text(el);
+}
+
+const valueNow = el.getAttribute('aria-valuenow');
+return { checked, value, valueNow: valueNow === null ? null : Number(valueNow) };
+`;
+
+/**
+ * Called with (select, wanted); each wanted entry matches an option value, else a label.
+ * Returns { selected } with the chosen labels, or { error }.
+ */
+export const SELECT_OPTIONS_SCRIPT = `
+const el = arguments[0];
+const wanted = arguments[1];
+const normalize = (value) => String(value).trim().toLowerCase();
+const options = Array.from(el.options);
+const picked = wanted.map((value) =>
+  options.find((option) => option.value === value) || options.find((option) => normalize(option.label) === normalize(value)));
+
+const missing = wanted.filter((value, i) => !picked[i]);
+if (missing.length > 0) {
+  return { error: 'No option ' + missing.map((value) => '"' + value + '"').join(', ') + '. Options: ' + options.map((option) => option.label).join(', ') };
+}
+if (picked.length > 1 && !el.multiple) return { error: 'The select only takes one option' };
+const disabled = picked.find((option) => option.disabled);
+if (disabled) return { error: 'Option "' + disabled.label + '" is disabled' };
+
+options.forEach((option) => { option.selected = picked.includes(option); });
+el.dispatchEvent(new Event('input', { bubbles: true }));
+el.dispatchEvent(new Event('change', { bubbles: true }));
+return { selected: picked.map((option) => option.label) };
+`;
+
+// Called with (input, value). Uses the prototype's value setter so frameworks that track the property see the change.
+export const SET_INPUT_VALUE_SCRIPT = `
+const el = arguments[0];
+Object.getOwnPropertyDescriptor(Object.getPrototypeOf(el), 'value').set.call(el, arguments[1]);
+el.dispatchEvent(new Event('input', { bubbles: true }));
+el.dispatchEvent(new Event('change', { bubbles: true }));
+return el.value;
+`;
+
+// Options of a combobox (through aria-controls / aria-owns) or a listbox, and their names
+const OPTION_FNS = `
+const el = arguments[0];
+const name = (option) => (option.getAttribute('aria-label') || option.innerText || option.textContent || '').trim();
+const ids = (el.getAttribute('aria-controls') || el.getAttribute('aria-owns') || '').split(/\\s+/).filter(Boolean);
+const root = el.getRootNode();
+let scopes = el.getAttribute('role') === 'listbox' ? [el] : ids.map((id) => root.getElementById ? root.getElementById(id) : null).filter(Boolean);
+if (scopes.length === 0) scopes = [el.ownerDocument];
+const options = scopes
+  .flatMap((scope) => Array.from(scope.querySelectorAll('[role="option"]')))
+  .filter((option) => option.getClientRects().length > 0);
+`;
+
+// Called with (control, label); returns the option whose name is the label (else contains it), or null
+export const FIND_OPTION_SCRIPT = `
+${OPTION_FNS}
+const wanted = String(arguments[1]).trim().toLowerCase();
+return options.find((option) => name(option).toLowerCase() === wanted)
+  || options.find((option) => name(option).toLowerCase().includes(wanted))
+  || null;
+`;
+
+// Called with a control; returns the names of its visible options
+export const OPTION_NAMES_SCRIPT = `
+${OPTION_FNS}
+return options.map(name).slice(0, 30);
+`;
@@ -0,0 +1,79 @@
+/**
+ * Utility to locate the DevTools endpoint of an already-running Electron app
+ */
+
+import { ElectronAttachConfig } from '../types.js';
+import { logger } from './logger.js';
+
+export interface DebuggerEndpoint {
+  address: string;          // host:port as expected by chromedriver's debuggerAddress
+  chromiumVersion?: string; // major version, e.g. '120'
+  browser?: string;         // raw "Browser" field from /json/version
+}
+
+interface VersionInfo {
+  Browser?: string;
+  webSocketDebuggerUrl?: string;
+}
+
+const PROBE_TIMEOUT = 5000;
+
+/**
+ * Resolve host/port or websocket URL into a debugger address and check that
+ * something speaking the Chromium DevTools protocol is listening there
+ */
+export async function resolveDebuggerEndpoint(config: ElectronAttachConfig): Promise<DebuggerEndpoint> {
+  const address = getDebuggerAddress(config);
+
+  let info: VersionInfo;
+  try {
+    const response = await fetch(`http://${address}/json/version`, {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT)
+    });
+    info = await response.json() as VersionInfo;
+  } catch (err) {
+    logger.debug(`DevTools probe at ${address} failed:`, err instanceof Error ? err.message : String(err));
+    throw new Error(
+      `No DevTools endpoint reachable at ${address}. ` +
+      `Start the app with --remote-debugging-port=${address.split(':').pop()} and make sure the port is not blocked.`
+    );
+  }
+
+  // --inspect exposes the Node.js inspector of the main process, which chromedriver cannot drive
+  if (info.Browser?.toLowerCase().startsWith('node.js')) {
+    throw new Error(
+      `${address} is a Node.js inspector (${info.Browser}), opened with --inspect. ` +
+      `WebDriver needs the Chromium DevTools port: restart the app with --remote-debugging-port=<port> as well.`
+    );
+  }
+
+  const chromiumVersion = info.Browser?.match(/Chrome\/(\d+)/)?.[1];
+  logger.info(`Found DevTools endpoint at ${address}${info.Browser ? ` (${info.Browser})` : ''}`);
+
+  return {
+    address,
+    chromiumVersion,
+    browser: info.Browser
+  };
+}
+
+function getDebuggerAddress(config: ElectronAttachConfig): string {
+  if (config.wsEndpoint) {
+    let url: URL;
+    try {
+      url = new URL(config.wsEndpoint);
+    } catch {
+      throw new Error(`Invalid websocket URL: ${config.wsEndpoint}`);
+    }
+    if (!url.port) {
+      throw new Error(`Websocket URL has no port: ${config.wsEndpoint}`);
+    }
+    return `${url.hostname}:${url.port}`;
+  }
+
+  if (!config.port) {
+    throw new Error('Either port or wsEndpoint is required to attach to a running app');
+  }
+
+  return `${config.host || '127.0.0.1'}:${config.port}`;
+}
@@ -0,0 +1,274 @@
+/**
+ * In-page script for DOM snapshots. One call walks the document and returns
+ * everything ElementInfo needs, instead of ~14 WebDriver calls per element.
+ */
+
+import { FrameSegment } from '../types.js';
+
+export const INTERACTIVE_SELECTORS = [
+  'button',
+  'a',
+  'input',
+  'select',
+  'textarea',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="checkbox"]',
+  '[role="radio"]',
+  '[role="menuitem"]',
+  '[role="tab"]',
+  '[onclick]',
+  '[tabindex]:not([tabindex="-1"])'
+];
+
+// Most elements a DOM snapshot lists
+export const MAX_SNAPSHOT_ELEMENTS = 1000;
+
+// Element as returned by DOM_SNAPSHOT_SCRIPT; parent is an index into the same list
+export interface DomSnapshotEntry {
+  tagName: string;
+  text: string;
+  ariaLabel: string | null;
+  role: string | null;
+  attributes: Record<string, string>;
+  isEnabled: boolean;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  accessibleName: string;
+  description: string;
+  checked: boolean | 'mixed' | null;
+  expanded: boolean | null;
+  selected: boolean | null;
+  focused: boolean;
+  domPath: string;
+  frames: FrameSegment[];
+  parent: number | null;
+}
+
+// A <webview> found in the page; its guest is discovered separately
+export interface WebviewEntry {
+  frames: FrameSegment[];
+  segment: FrameSegment;
+}
+
+// Element paths and frame labels, shared by the snapshot and resolve scripts
+const DOM_PATH_FNS = `
+const domPath = (el) => {
+  const parts = [];
+  let node = el;
+  while (node && node.nodeType === 1) {
+    let index = 1;
+    for (let sibling = node.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.tagName === node.tagName) index++;
+    }
+    parts.unshift(node.tagName.toLowerCase() + '[' + index + ']');
+    if (node.parentElement) {
+      node = node.parentElement;
+    } else if (node.parentNode && node.parentNode.host) {
+      parts.unshift('#shadow-root');
+      node = node.parentNode.host;
+    } else {
+      node = null;
+    }
+  }
+  return parts.join('/');
+};
+
+const resolveDomPath = (doc, path) => {
+  let node = doc;
+  for (const part of path.split('/')) {
+    if (!node) return null;
+    if (part === '#shadow-root') {
+      node = node.shadowRoot;
+      continue;
+    }
+    const match = part.match(/^(.+)\\[(\\d+)\\]$/);
+    if (!match) return null;
+    const siblings = Array.from(node.children).filter((child) => child.tagName.toLowerCase() === match[1]);
+    node = siblings[Number(match[2]) - 1] || null;
+  }
+  return node;
+};
+
+const frameLabel = (el) => {
+  const tag = el.tagName.toLowerCase();
+  const src = el.getAttribute('src');
+  return tag + (el.id ? '#' + el.id : '') + (src ? ' (' + src.slice(0, 80) + ')' : '');
+};
+`;
+
+/**
+ * Called with (selector, limit); returns { elements, total, webviews } where total
+ * counts visible matches before the limit was applied. Walks open shadow roots and
+ * same-origin iframes; <webview> guests live in another process and are only listed.
+ */
+export const DOM_SNAPSHOT_SCRIPT = `
+const selector = arguments[0];
+const limit = arguments[1];
+const KEPT_ATTRIBUTES = ['id', 'name', 'type', 'href', 'placeholder', 'class', 'data-testid'];
+${DOM_PATH_FNS}
+const isVisible = (el) => {
+  if (el.checkVisibility) {
+    if (!el.checkVisibility({ visibilityProperty: true })) return false;
+  } else {
+    const style = el.ownerDocument.defaultView.getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return false;
+  }
+  const rect = el.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+};
+
+const textOf = (el, ids) => {
+  const scope = el.getRootNode();
+  return (ids || '').split(/\\s+/)
+    .map((id) => id && scope.getElementById ? scope.getElementById(id) : null)
+    .filter(Boolean)
+    .map((ref) => (ref.innerText || ref.textContent || '').trim())
+    .join(' ');
+};
+
+const accessibleName = (el) => {
+  const labelledBy = textOf(el, el.getAttribute('aria-labelledby'));
+  if (labelledBy) return labelledBy;
+  const ariaLabel = el.getAttribute('aria-label');
+  if (ariaLabel && ariaLabel.trim()) return ariaLabel.trim();
+  if (el.labels && el.labels.length) {
+    return Array.from(el.labels).map((label) => (label.innerText || '').trim()).join(' ');
+  }
+  if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type)) return el.value;
+  const text = (el.innerText || '').trim();
+  if (text) return text;
+  const img = el.querySelector && el.querySelector('img[alt]');
+  return el.getAttribute('alt') || (img && img.getAttribute('alt')) || el.getAttribute('title') || el.getAttribute('placeholder') || '';
+};
+
+const ariaState = (el, name) => {
+  const value = el.getAttribute(name);
+  if (value === null || value === 'undefined') return null;
+  return value === 'true';
+};
+
+const checkedState = (el) => {
+  if (el.tagName === 'INPUT' && (el.type === 'checkbox' || el.type === 'radio')) {
+    return el.indeterminate ? 'mixed' : el.checked;
+  }
+  return el.getAttribute('aria-checked') === 'mixed' ? 'mixed' : ariaState(el, 'aria-checked');
+};
+
+// Document order, with shadow and iframe contents right after their host.
+// offset is where the root's viewport sits in the window's viewport.
+const matches = [];
+const webviews = [];
+const visit = (root, frames, offset) => {
+  for (const el of root.querySelectorAll('*')) {
+    if (el.matches(selector) && isVisible(el)) matches.push({ el, frames, offset });
+    if (el.shadowRoot) visit(el.shadowRoot, frames, offset);
+
+    const tag = el.tagName;
+    if (tag === 'WEBVIEW') {
+      webviews.push({ frames, segment: { type: 'webview', domPath: domPath(el), label: frameLabel(el) } });
+    } else if (tag === 'IFRAME' || tag === 'FRAME') {
+      let doc = null;
+      try { doc = el.contentDocument; } catch (e) { /* cross-origin */ }
+      if (doc && doc.documentElement) {
+        const frameRect = el.getBoundingClientRect();
+        visit(doc, frames.concat([{ type: 'iframe', domPath: domPath(el), label: frameLabel(el) }]), {
+          x: offset.x + frameRect.left + el.clientLeft,
+          y: offset.y + frameRect.top + el.clientTop
+        });
+      }
+    }
+  }
+};
+visit(document, [], { x: 0, y: 0 });
+
+const found = matches.slice(0, limit);
+const indexes = new Map(found.map((match, i) => [match.el, i]));
+
+const elements = found.map(({ el, frames, offset }) => {
+  const rect = el.getBoundingClientRect();
+  const attributes = {};
+  for (const name of KEPT_ATTRIBUTES) {
+    const value = el.getAttribute(name);
+    if (value) attributes[name] = value;
+  }
+
+  let parent = el.parentElement || (el.parentNode && el.parentNode.host);
+  while (parent && !indexes.has(parent)) parent = parent.parentElement || (parent.parentNode && parent.parentNode.host);
+
+  return {
+    tagName: el.tagName.toLowerCase(),
+    text: (el.innerText || '').trim().slice(0, 100),
+    ariaLabel: el.getAttribute('aria-label'),
+    role: el.getAttribute('role'),
+    attributes,
+    isEnabled: !el.matches(':disabled'),
+    // Window document coordinates, also for elements inside iframes
+    boundingBox: {
+      x: Math.round(rect.left + offset.x + window.scrollX),
+      y: Math.round(rect.top + offset.y + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height)
+    },
+    accessibleName: accessibleName(el).replace(/\\s+/g, ' ').slice(0, 100),
+    description: (textOf(el, el.getAttribute('aria-describedby')) || el.getAttribute('title') || '').slice(0, 100),
+    checked: checkedState(el),
+    expanded: ariaState(el, 'aria-expanded'),
+    selected: el.tagName === 'OPTION' ? el.selected : ariaState(el, 'aria-selected'),
+    focused: el.getRootNode().activeElement === el,
+    domPath: domPath(el),
+    frames,
+    parent: parent ? indexes.get(parent) : null
+  };
+});
+
+return { elements, total: matches.length, webviews };
+`;
+
+// Called with a DOM path; returns the element in the current frame, or null
+export const RESOLVE_DOM_PATH_SCRIPT = `
+${DOM_PATH_FNS}
+return resolveDomPath(document, arguments[0]);
+`;
+
+// Called with the DOM path of a <webview>; returns the URL its guest shows
+export const WEBVIEW_URL_SCRIPT = `
+${DOM_PATH_FNS}
+const webview = resolveDomPath(document, arguments[0]);
+if (!webview) return null;
+try { return webview.getURL(); } catch (e) { return webview.getAttribute('src'); }
+`;
+
+// Called with a CSS selector; returns the DOM path of the first match in the top document, or null
+export const SELECTOR_PATH_SCRIPT = `
+${DOM_PATH_FNS}
+const el = document.querySelector(arguments[0]);
+return el ? domPath(el) : null;
+`;
+
+/**
+ * Called with [{ frames, domPath }] where frames are iframe DOM paths; returns for each
+ * whether it overlaps the window's viewport, or null when it cannot be found
+ */
+export const IN_VIEWPORT_SCRIPT = `
+${DOM_PATH_FNS}
+return arguments[0].map((target) => {
+  let doc = document;
+  let offsetX = 0;
+  let offsetY = 0;
+  for (const framePath of target.frames) {
+    const frame = resolveDomPath(doc, framePath);
+    if (!frame || !frame.contentDocument) return null;
+    const frameRect = frame.getBoundingClientRect();
+    offsetX += frameRect.left + frame.clientLeft;
+    offsetY += frameRect.top + frame.clientTop;
+    doc = frame.contentDocument;
+  }
+
+  const el = resolveDomPath(doc, target.domPath);
+  if (!el) return null;
+  const rect = el.getBoundingClientRect();
+  const left = rect.left + offsetX;
+  const top = rect.top + offsetY;
+  return left < window.innerWidth && top < window.innerHeight && left + rect.width > 0 && top + rect.height > 0;
+});
+`;
@@ -1,20 +1,70 @@
 /**
- * Utility to detect Electron version from target app and manage chromedriver
+ * Utility to detect the Electron and Chromium versions of a target app
  */
 
-import { execSync } from 'child_process';
+import { execFile } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { promisify } from 'util';
 import { logger } from './logger.js';
+import { readAsarFile } from './asar.js';
 
-interface ElectronInfo {
+export interface ElectronInfo {
   version: string;
-  chromiumVersion: string;
+  chromiumVersion?: string;   // full version when probed from the binary, major only from the fallback map
   binaryPath: string;
+  isPackaged: boolean;
+  resourcesPath?: string;   // packaged apps: directory holding app.asar or app/
 }
 
-// Electron to Chromium version mapping (subset of common versions)
+// Helper executables shipped next to the app binary in packaged builds
+const PACKAGED_HELPER_BINARIES = ['AppRun', 'chrome-sandbox', 'chrome_crashpad_handler', 'crashpad_handler'];
+
+// Chunk size used when scanning a binary for embedded version strings
+const BINARY_SCAN_CHUNK = 8 * 1024 * 1024;
+
+// Bytes carried over between chunks so a string split across them is still found
+const BINARY_SCAN_OVERLAP = 64;
+
+// How long the Electron binary may take to answer a version probe
+const PROBE_TIMEOUT = 15000;
+
+// Electron's fuse wire starts with this sentinel, then a version byte, a length byte and one byte per fuse
+const FUSE_SENTINEL = 'dL7pKGdnNz796PbbjQWNKmHXBZaB9tsX';
+
+const ELECTRON_VERSION_PATTERN = /Electron\/(\d+\.\d+\.\d+)/;
+const CHROMIUM_VERSION_PATTERN = /Chrome\/(\d+\.\d+\.\d+\.\d+)/;
+const RUN_AS_NODE_FUSE_PATTERN = new RegExp(`${FUSE_SENTINEL}[\\s\\S]{2}([01r])`);
+
+const execFileAsync = promisify(execFile);
+
+// Probes and scans by binary path, valid while the binary's mtime and size are unchanged
+const probeCache = new Map<string, CachedResult<ProbedVersions | null>>();
+const scanCache = new Map<string, CachedResult<ProbedVersions>>();
+const fuseCache = new Map<string, CachedResult<string | null>>();
+
+interface CachedResult<T> {
+  stamp: string;
+  result: Promise<T>;
+}
+
+interface ProbedVersions {
+  electron?: string;
+  chrome?: string;
+}
+
+// Electron to Chromium major version mapping, only used when the binary cannot be probed
 const ELECTRON_CHROMIUM_MAP: Record<string, string> = {
+  '38': '140',
+  '37': '138',
+  '36': '136',
+  '35': '134',
+  '34': '132',
+  '33': '130',
+  '32': '128',
+  '31': '126',
+  '30': '124',
+  '29': '122',
   '28': '120',
   '27': '118',
   '26': '116',
@@ -45,18 +95,18 @@ export async function detectElectronVersion(appPath: string): Promise<ElectronIn
 
       if (electronVersion) {
         const version = electronVersion.replace(/[\^~>=<]/g, '');
-        const majorVersion = version.split('.')[0];
-        const chromiumVersion = ELECTRON_CHROMIUM_MAP[majorVersion] || '120';
 
         // Find the binary path
         const binaryPath = findElectronBinary(appPath);
+        const chromiumVersion = await resolveChromiumVersion(binaryPath, version);
 
         logger.info(`Detected Electron v${version} (Chromium ${chromiumVersion})`);
 
         return {
           version,
           chromiumVersion,
-          binaryPath: binaryPath || ''
+          binaryPath: binaryPath || '',
+          isPackaged: false
         };
       }
     }
@@ -66,16 +116,16 @@ export async function detectElectronVersion(appPath: string): Promise<ElectronIn
     if (fs.existsSync(electronPackagePath)) {
       const electronPackage = JSON.parse(fs.readFileSync(electronPackagePath, 'utf-8'));
       const version = electronPackage.version;
-      const majorVersion = version.split('.')[0];
-      const chromiumVersion = ELECTRON_CHROMIUM_MAP[majorVersion] || '120';
       const binaryPath = findElectronBinary(appPath);
+      const chromiumVersion = await resolveChromiumVersion(binaryPath, version);
 
       logger.info(`Detected Electron v${version} from node_modules`);
 
       return {
         version,
         chromiumVersion,
-        binaryPath: binaryPath || ''
+        binaryPath: binaryPath || '',
+        isPackaged: false
       };
     }
 
@@ -86,6 +136,192 @@ export async function detectElectronVersion(appPath: string): Promise<ElectronIn
   }
 }
 
+/**
+ * Detect a packaged app from its binary or install directory: electron-builder
+ * unpacked builds (linux-unpacked), extracted AppImages (squashfs-root/AppRun)
+ * and macOS bundles. Returns null when the path is not a packaged app.
+ */
+export async function detectPackagedApp(binaryOrDir: string): Promise<ElectronInfo | null> {
+  try {
+    if (!fs.existsSync(binaryOrDir)) {
+      return null;
+    }
+
+    const binaryPath = resolvePackagedBinary(binaryOrDir);
+    if (!binaryPath) {
+      return null;
+    }
+
+    const resourcesPath = findResourcesDir(path.dirname(binaryPath));
+    if (!resourcesPath) {
+      return null;
+    }
+
+    const version = readVersionFromResources(resourcesPath)
+      || (await readBinaryVersions(binaryPath)).electron;
+    if (!version) {
+      logger.warn(`Found packaged app at ${binaryPath} but could not determine its Electron version`);
+      return null;
+    }
+
+    const chromiumVersion = await resolveChromiumVersion(binaryPath, version);
+
+    logger.info(`Detected packaged Electron v${version} app at ${binaryPath}`);
+
+    return {
+      version,
+      chromiumVersion,
+      binaryPath,
+      isPackaged: true,
+      resourcesPath
+    };
+  } catch (err) {
+    logger.error('Failed to detect packaged app:', err);
+    return null;
+  }
+}
+
+/**
+ * Resolve the real Electron executable for a packaged app. Directories and
+ * AppImage AppRun launchers resolve to the largest executable next to them,
+ * which is the Electron binary in electron-builder output.
+ */
+function resolvePackagedBinary(binaryOrDir: string): string | null {
+  const stat = fs.statSync(binaryOrDir);
+
+  if (stat.isFile() && path.basename(binaryOrDir) !== 'AppRun') {
+    return binaryOrDir;
+  }
+
+  const dir = !stat.isDirectory()
+    ? path.dirname(binaryOrDir)
+    : binaryOrDir.endsWith('.app') ? path.join(binaryOrDir, 'Contents', 'MacOS') : binaryOrDir;
+  let best: { file: string; size: number } | null = null;
+
+  for (const name of fs.readdirSync(dir)) {
+    if (PACKAGED_HELPER_BINARIES.includes(name) || name.includes('.so')) continue;
+
+    const file = path.join(dir, name);
+    const fileStat = fs.statSync(file);
+    const isExecutable = process.platform === 'win32'
+      ? name.toLowerCase().endsWith('.exe')
+      : (fileStat.mode & 0o111) !== 0;
+
+    if (fileStat.isFile() && isExecutable && (!best || fileStat.size > best.size)) {
+      best = { file, size: fileStat.size };
+    }
+  }
+
+  return best?.file ?? null;
+}
+
+function findResourcesDir(binaryDir: string): string | null {
+  const candidates = [
+    path.join(binaryDir, 'resources'),           // Linux / Windows
+    path.join(binaryDir, '..', 'Resources')      // macOS: Contents/MacOS -> Contents/Resources
+  ];
+
+  for (const dir of candidates) {
+    if (fs.existsSync(path.join(dir, 'app.asar')) || fs.existsSync(path.join(dir, 'app', 'package.json'))) {
+      return path.resolve(dir);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the Electron version from the bundled app's package.json, if it still lists electron
+ */
+function readVersionFromResources(resourcesPath: string): string | null {
+  const asarPath = path.join(resourcesPath, 'app.asar');
+  const content = fs.existsSync(asarPath)
+    ? readAsarFile(asarPath, 'package.json')
+    : fs.readFileSync(path.join(resourcesPath, 'app', 'package.json'));
+
+  if (!content) {
+    return null;
+  }
+
+  const packageJson = JSON.parse(content.toString('utf-8'));
+  const electronVersion =
+    packageJson.devDependencies?.electron ||
+    packageJson.dependencies?.electron;
+
+  if (!electronVersion || !/\d+\.\d+/.test(electronVersion)) {
+    return null;
+  }
+
+  return electronVersion.replace(/[\^~>=<]/g, '');
+}
+
+/**
+ * Scan the binary for the "Electron/x.y.z" string it embeds in its user agent
+ */
+export async function readVersionFromBinary(binaryPath: string): Promise<string | null> {
+  return (await readEmbeddedVersions(binaryPath)).electron ?? null;
+}
+
+/**
+ * Ask the binary for its versions, and scan it for the embedded version strings
+ * when it cannot be run or does not answer
+ */
+async function readBinaryVersions(binaryPath: string): Promise<ProbedVersions> {
+  const probed = await probeElectronBinary(binaryPath);
+  if (probed?.electron && probed.chrome) {
+    return probed;
+  }
+
+  const embedded = await readEmbeddedVersions(binaryPath);
+  return {
+    electron: probed?.electron ?? embedded.electron,
+    chrome: probed?.chrome ?? embedded.chrome
+  };
+}
+
+function readEmbeddedVersions(binaryPath: string): Promise<ProbedVersions> {
+  return cached(scanCache, binaryPath, async () => {
+    const [electron, chrome] = await scanBinary(binaryPath, [ELECTRON_VERSION_PATTERN, CHROMIUM_VERSION_PATTERN]);
+    return { electron, chrome };
+  });
+}
+
+/**
+ * Stream through a binary in chunks and return the first capture group of each
+ * pattern. Stops reading once every pattern has matched.
+ */
+async function scanBinary(binaryPath: string, patterns: RegExp[]): Promise<Array<string | undefined>> {
+  const found: Array<string | undefined> = patterns.map(() => undefined);
+  let carried = '';
+
+  for await (const chunk of fs.createReadStream(binaryPath, { highWaterMark: BINARY_SCAN_CHUNK })) {
+    const text = carried + (chunk as Buffer).toString('latin1');
+    patterns.forEach((pattern, i) => {
+      found[i] ??= text.match(pattern)?.[1];
+    });
+    if (found.every(value => value !== undefined)) break;
+
+    // Keep the tail so a version string split across chunks is still found
+    carried = text.slice(-BINARY_SCAN_OVERLAP);
+  }
+
+  return found;
+}
+
+// Reuse a result for a binary until it is replaced on disk
+function cached<T>(cache: Map<string, CachedResult<T>>, binaryPath: string, compute: () => Promise<T>): Promise<T> {
+  const stat = fs.statSync(binaryPath);
+  const stamp = `${stat.mtimeMs}:${stat.size}`;
+  const entry = cache.get(binaryPath);
+  if (entry?.stamp === stamp) {
+    return entry.result;
+  }
+
+  const result = compute();
+  cache.set(binaryPath, { stamp, result });
+  return result;
+}
+
 /**
  * Find the Electron binary path for the given app
  */
@@ -117,45 +353,62 @@ export function findElectronBinary(appPath: string): string | null {
 }
 
 /**
- * Ensure chromedriver is available for the given Chromium version
+ * Resolve the Chromium version an Electron binary ships with. Asks the binary
+ * first, then looks for the version string embedded in it, and only then falls
+ * back to the static major-version map.
  */
-export async function ensureChromedriver(chromiumVersion: string): Promise<string> {
-  const chromedriverDir = path.join(process.cwd(), '.chromedriver');
-  const chromedriverPath = path.join(chromedriverDir, `chromedriver-${chromiumVersion}`);
-
-  // Check if we already have the right version
-  if (fs.existsSync(chromedriverPath)) {
-    logger.info(`Using cached chromedriver for Chromium ${chromiumVersion}`);
-    return chromedriverPath;
+export async function resolveChromiumVersion(binaryPath: string | null, electronVersion?: string): Promise<string | undefined> {
+  if (binaryPath && fs.existsSync(binaryPath)) {
+    const { chrome } = await readBinaryVersions(binaryPath);
+    if (chrome) {
+      logger.debug(`Electron binary reports Chromium ${chrome}`);
+      return chrome;
+    }
   }
 
-  // Create directory if needed
-  if (!fs.existsSync(chromedriverDir)) {
-    fs.mkdirSync(chromedriverDir, { recursive: true });
+  const mapped = electronVersion ? ELECTRON_CHROMIUM_MAP[electronVersion.split('.')[0]] : undefined;
+  if (mapped) {
+    logger.warn(`Could not read the Chromium version from the Electron binary; assuming Chromium ${mapped} for Electron ${electronVersion}`);
+    return mapped;
   }
 
-  // Install chromedriver using npm
-  logger.info(`Installing chromedriver for Chromium ${chromiumVersion}...`);
+  logger.warn(`Could not determine the Chromium version for Electron ${electronVersion || '(unknown)'}`);
+  return undefined;
+}
 
-  try {
-    execSync(`npx @puppeteer/browsers install chromedriver@${chromiumVersion} --path ${chromedriverDir}`, {
-      stdio: 'pipe'
-    });
+/**
+ * Run the binary as plain Node.js (ELECTRON_RUN_AS_NODE) and read process.versions.
+ * Packaged apps can disable this with the RunAsNode fuse; those are not run, since
+ * they would start the app itself. Results are cached per binary.
+ */
+export function probeElectronBinary(binaryPath: string): Promise<ProbedVersions | null> {
+  return cached(probeCache, binaryPath, () => runVersionProbe(binaryPath));
+}
 
-    // Find the installed chromedriver
-    const files = fs.readdirSync(chromedriverDir, { recursive: true }) as string[];
-    const chromedriverBin = files.find(f =>
-      f.includes('chromedriver') && !f.endsWith('.zip')
-    );
+async function runVersionProbe(binaryPath: string): Promise<ProbedVersions | null> {
+  if (await readRunAsNodeFuse(binaryPath) === '0') {
+    logger.debug(`Not probing ${binaryPath}: its RunAsNode fuse is disabled`);
+    return null;
+  }
 
-    if (chromedriverBin) {
-      const fullPath = path.join(chromedriverDir, chromedriverBin);
-      fs.chmodSync(fullPath, 0o755);
-      return fullPath;
-    }
+  try {
+    const { stdout } = await execFileAsync(binaryPath, ['-e', 'process.stdout.write(JSON.stringify(process.versions))'], {
+      encoding: 'utf-8',
+      timeout: PROBE_TIMEOUT,
+      env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' }
+    });
+    const versions = JSON.parse(stdout.trim()) as Record<string, string>;
+    return { electron: versions.electron, chrome: versions.chrome };
   } catch (err) {
-    logger.error('Failed to install chromedriver:', err);
+    logger.debug(`Version probe of ${binaryPath} failed:`, err instanceof Error ? err.message : String(err));
+    return null;
   }
+}
 
-  throw new Error(`Could not install chromedriver for Chromium ${chromiumVersion}`);
+// RunAsNode is the first fuse: '1' enabled, '0' disabled; null when the binary has no fuse wire
+function readRunAsNodeFuse(binaryPath: string): Promise<string | null> {
+  return cached(fuseCache, binaryPath, async () => {
+    const [fuse] = await scanBinary(binaryPath, [RUN_AS_NODE_FUSE_PATTERN]);
+    return fuse ?? null;
+  });
 }
@@ -0,0 +1,80 @@
+/**
+ * Start a WebdriverIO session for an Electron app.
+ *
+ * Mirrors wdio-electron-service's startElectron, but builds the capabilities
+ * here so driver-level options (environment, working directory) can be set.
+ * Chromedriver spawns the app, so the app inherits chromedriver's environment.
+ */
+
+import ElectronWorkerService, { launcher as ElectronLaunchService } from 'wdio-electron-service';
+import { remote } from 'webdriverio';
+import type { SpawnOptions } from 'child_process';
+import { logger } from './logger.js';
+import { BROWSER_LOGGING_CAPABILITY } from '../monitor.js';
+
+declare global {
+  namespace WebdriverIO {
+    interface ChromedriverOptions {
+      // Passed straight to child_process.spawn when WebdriverIO starts chromedriver (read by @wdio/utils, not in its typings)
+      spawnOpts?: SpawnOptions;
+    }
+  }
+}
+
+export interface ElectronLaunchOptions {
+  appBinaryPath: string;
+  appArgs: string[];
+  appDir: string;
+  electronVersion?: string;
+  chromedriverPath?: string;
+  chromedriverCacheDir?: string;
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export async function startElectronApp(options: ElectronLaunchOptions): Promise<WebdriverIO.Browser> {
+  const serviceOptions = {
+    appBinaryPath: options.appBinaryPath,
+    appArgs: options.appArgs
+  };
+
+  // WebdriverIO turns every option into a chromedriver flag, so only set the ones in use
+  const chromedriverOptions: WebdriverIO.ChromedriverOptions = {
+    spawnOpts: {
+      // Keep WebdriverIO's NODE_OPTIONS reset unless the caller sets it explicitly
+      env: { ...process.env, NODE_OPTIONS: '', ...options.env },
+      cwd: options.cwd
+    }
+  };
+  if (options.chromedriverPath) {
+    chromedriverOptions.binary = options.chromedriverPath;
+  }
+  if (options.chromedriverCacheDir) {
+    chromedriverOptions.cacheDir = options.chromedriverCacheDir;
+  }
+
+  const capabilities: WebdriverIO.Capabilities = {
+    browserName: 'electron',
+    'wdio:electronServiceOptions': serviceOptions,
+    'wdio:chromedriverOptions': chromedriverOptions,
+    ...BROWSER_LOGGING_CAPABILITY
+  };
+
+  // The service reads browserVersion as the Electron version to pick chromedriver;
+  // packaged apps have no package.json for it to read
+  if (options.electronVersion) {
+    capabilities.browserVersion = options.electronVersion;
+  }
+
+  // rootDir lets the service read the Electron version from the app's package.json
+  const config = { rootDir: options.appDir } as ConstructorParameters<typeof ElectronLaunchService>[2];
+  const launchService = new ElectronLaunchService(serviceOptions, capabilities, config);
+  await launchService.onPrepare(config, [capabilities]);
+
+  logger.debug('Electron session capabilities:', capabilities);
+
+  const browser = await remote({ capabilities });
+  await new ElectronWorkerService(serviceOptions).before(capabilities, [], browser);
+
+  return browser;
+}
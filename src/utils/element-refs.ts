@@ -0,0 +1,102 @@
+/**
+ * Keeps element refs stable across snapshots. Elements are matched against the
+ * previous snapshot of their window by test id, then role + name + DOM path,
+ * then role + name (moved), then role + DOM path (renamed). Unmatched elements
+ * get a new ref. Refs are never handed out twice, so a ref that disappeared is
+ * known to be stale.
+ */
+
+import { ElementInfo } from '../types.js';
+
+interface WindowRefs {
+  next: number;
+  current: ElementInfo[];
+  issued: Set<string>;
+  frames: Map<string, number>;   // frame path -> n of its "fn." ref prefix
+}
+
+type Fingerprint = (el: ElementInfo) => string | undefined;
+
+const FINGERPRINTS: Fingerprint[] = [
+  el => el.attributes['data-testid'] && `${frameKey(el)}testid:${el.attributes['data-testid']}`,
+  el => el.domPath && `${frameKey(el)}${roleOf(el)}|${nameOf(el)}|${el.domPath}`,
+  el => nameOf(el) && `${frameKey(el)}${roleOf(el)}|${nameOf(el)}`,
+  el => el.domPath && `${frameKey(el)}${roleOf(el)}|${el.domPath}`
+];
+
+export class ElementRefs {
+  private readonly windows = new Map<string, WindowRefs>();
+
+  /**
+   * Pick refs for a window's freshly discovered elements. Returns a map from the
+   * refs the elements came with to their stable refs.
+   */
+  assign(windowId: string, refPrefix: string, elements: ElementInfo[]): Map<string, string> {
+    let state = this.windows.get(windowId);
+    if (!state) {
+      state = { next: 1, current: [], issued: new Set(), frames: new Map() };
+      this.windows.set(windowId, state);
+    }
+
+    const unclaimed = new Set(state.current.map(el => el.ref));
+    const assigned = new Map<string, string>();
+
+    for (const fingerprint of FINGERPRINTS) {
+      const previous = new Map<string, string[]>();
+      for (const el of state.current) {
+        const key = fingerprint(el);
+        if (!key || !unclaimed.has(el.ref)) continue;
+        previous.set(key, [...(previous.get(key) ?? []), el.ref]);
+      }
+
+      for (const el of elements) {
+        const key = fingerprint(el);
+        if (!key || assigned.has(el.ref)) continue;
+        const ref = previous.get(key)?.shift();
+        if (ref) {
+          assigned.set(el.ref, ref);
+          unclaimed.delete(ref);
+        }
+      }
+    }
+
+    for (const el of elements) {
+      if (assigned.has(el.ref)) continue;
+      const ref = `${refPrefix}${framePrefix(state, el)}e${state.next++}`;
+      assigned.set(el.ref, ref);
+      state.issued.add(ref);
+    }
+
+    state.current = elements.map(el => ({ ...el, ref: assigned.get(el.ref)! }));
+    return assigned;
+  }
+
+  // True for refs handed out in an earlier snapshot that are gone from the latest one
+  isStale(windowId: string, ref: string): boolean {
+    const state = this.windows.get(windowId);
+    return !!state && state.issued.has(ref) && !state.current.some(el => el.ref === ref);
+  }
+}
+
+// Elements only match elements in the same frame
+function frameKey(el: ElementInfo): string {
+  return el.frames?.length ? `${el.frames.map(frame => `${frame.type}:${frame.domPath}`).join('>')}>` : '';
+}
+
+// Elements inside iframes and webviews get "f1.", "f2."... per frame path
+function framePrefix(state: WindowRefs, el: ElementInfo): string {
+  const key = frameKey(el);
+  if (!key) return '';
+  if (!state.frames.has(key)) {
+    state.frames.set(key, state.frames.size + 1);
+  }
+  return `f${state.frames.get(key)}.`;
+}
+
+function roleOf(el: ElementInfo): string {
+  return el.role ?? el.tagName;
+}
+
+function nameOf(el: ElementInfo): string {
+  return el.accessibleName ?? el.text;
+}
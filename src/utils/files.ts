@@ -0,0 +1,137 @@
+/**
+ * Local files for electron_upload_files and electron_drop_files, and the
+ * in-page scripts that hand them to the app.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Dropped files are sent to the page base64-encoded in one WebDriver call
+export const MAX_DROP_BYTES = 25 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+};
+
+// File as passed to DROP_FILES_SCRIPT
+export interface DropFile {
+  name: string;
+  type: string;
+  lastModified: number;
+  path: string;
+  data: string;   // base64
+}
+
+/**
+ * Absolute paths of the given files. Throws if one is missing or not a regular file.
+ */
+export async function resolveLocalFiles(paths: string[]): Promise<string[]> {
+  return Promise.all(paths.map(async file => {
+    const absolute = path.resolve(file);
+    const stat = await fs.stat(absolute).catch(() => null);
+    if (!stat) {
+      throw new Error(`File not found: ${absolute}`);
+    }
+    if (!stat.isFile()) {
+      throw new Error(`Not a file: ${absolute}`);
+    }
+    return absolute;
+  }));
+}
+
+export async function readDropFiles(paths: string[]): Promise<DropFile[]> {
+  const files: DropFile[] = [];
+  let total = 0;
+
+  for (const file of paths) {
+    const stat = await fs.stat(file);
+    total += stat.size;
+    if (total > MAX_DROP_BYTES) {
+      throw new Error(`Dropped files are limited to ${MAX_DROP_BYTES / 1024 / 1024} MB in total`);
+    }
+    files.push({
+      name: path.basename(file),
+      type: MIME_TYPES[path.extname(file).toLowerCase()] ?? '',
+      lastModified: Math.round(stat.mtimeMs),
+      path: file,
+      data: (await fs.readFile(file)).toString('base64')
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Called with an element; returns the file input it is or labels, or the one inside
+ * it or its closest ancestors. File inputs are often hidden behind a styled button.
+ */
+export const FILE_INPUT_SCRIPT = `
+const el = arguments[0];
+const isFileInput = (node) => node && node.tagName === 'INPUT' && node.type === 'file';
+if (isFileInput(el)) return el;
+if (isFileInput(el.control)) return el.control;
+let node = el;
+for (let depth = 0; node && depth < 4; depth++, node = node.parentElement) {
+  const input = node.querySelector('input[type="file"]');
+  if (input) return input;
+}
+return null;
+`;
+
+// Called with a file input; returns what tests need to find it again and the files it holds
+export const FILE_INPUT_STATE_SCRIPT = `
+const input = arguments[0];
+return {
+  id: input.id,
+  name: input.getAttribute('name'),
+  multiple: input.multiple,
+  files: Array.from(input.files || []).map((file) => file.name)
+};
+`;
+
+/**
+ * Called with (target, files). Fires dragenter, dragover and drop carrying real File
+ * objects. File.path is set for apps that still read it. Returns { accepted, names }
+ * where accepted means the page called preventDefault on dragover or drop.
+ */
+export const DROP_FILES_SCRIPT = `
+const el = arguments[0];
+const files = arguments[1].map((entry) => {
+  const bytes = Uint8Array.from(atob(entry.data), (c) => c.charCodeAt(0));
+  const file = new File([bytes], entry.name, { type: entry.type, lastModified: entry.lastModified });
+  try { Object.defineProperty(file, 'path', { value: entry.path }); } catch (e) { /* read-only in this Electron version */ }
+  return file;
+});
+
+const dataTransfer = new DataTransfer();
+files.forEach((file) => dataTransfer.items.add(file));
+const rect = el.getBoundingClientRect();
+const init = {
+  bubbles: true,
+  cancelable: true,
+  composed: true,
+  dataTransfer,
+  clientX: rect.left + rect.width / 2,
+  clientY: rect.top + rect.height / 2
+};
+
+let accepted = false;
+for (const type of ['dragenter', 'dragover', 'drop']) {
+  const handled = !el.dispatchEvent(new DragEvent(type, init));
+  if (type !== 'dragenter') accepted = accepted || handled;
+}
+return { accepted, names: files.map((file) => file.name) };
+`;
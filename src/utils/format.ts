@@ -0,0 +1,39 @@
+/**
+ * Formatting helpers shared by tools
+ */
+
+import { WindowBounds, WindowState } from '../types.js';
+
+export function formatScriptResult(result: unknown): string {
+  if (result === undefined) {
+    return 'undefined';
+  }
+  if (result === null) {
+    return 'null';
+  }
+  if (typeof result === 'object') {
+    return JSON.stringify(result, null, 2);
+  }
+  return String(result);
+}
+
+export function formatWindowBounds(bounds: WindowBounds): string {
+  return `${bounds.width}x${bounds.height} at ${bounds.x},${bounds.y}`;
+}
+
+export function formatWindowState(state: WindowState): string {
+  const flags = [
+    state.isMinimized && 'minimized',
+    state.isMaximized && 'maximized',
+    state.isFullScreen && 'fullscreen',
+    state.isFocused && 'focused',
+    !state.isVisible && 'hidden',
+    state.isAlwaysOnTop && 'always on top'
+  ].filter(Boolean);
+
+  return [
+    `BrowserWindow ${state.id} "${state.title}"`,
+    `Bounds: ${formatWindowBounds(state.bounds)} (content ${state.contentBounds.width}x${state.contentBounds.height})`,
+    `State: ${flags.length ? flags.join(', ') : 'normal'}`
+  ].join('\n');
+}
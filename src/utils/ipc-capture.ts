@@ -0,0 +1,122 @@
+/**
+ * Main-process scripts for capturing and injecting IPC traffic. Captured
+ * messages are buffered on globalThis.__mcpIpc until the server drains them.
+ *
+ * renderer -> main: the public ipc-message / ipc-message-sync webContents events,
+ * plus ipcMain.handle handlers wrapped on lookup (Electron keeps them in ipcMain._invokeHandlers).
+ * main -> renderer: webContents.send, patched on every webContents.
+ */
+
+import { SAFE_VALUE_FN } from './api-mocks.js';
+
+const MAX_BUFFERED_MESSAGES = 1000;
+
+export const START_IPC_CAPTURE_SCRIPT = `(electron) => {
+  const state = globalThis.__mcpIpc || (globalThis.__mcpIpc = { active: false, installed: false, entries: [] });
+  state.active = true;
+  if (state.installed) return true;
+  state.installed = true;
+
+  const safeValue = ${SAFE_VALUE_FN};
+  const record = (entry) => {
+    if (!state.active) return null;
+    entry.timestamp = Date.now();
+    state.entries.push(entry);
+    if (state.entries.length > ${MAX_BUFFERED_MESSAGES}) state.entries.shift();
+    return entry;
+  };
+
+  const watchWebContents = (wc) => {
+    wc.on('ipc-message', (_event, channel, ...args) => {
+      record({ channel, direction: 'renderer-to-main', type: 'send', args: args.map(safeValue), webContentsId: wc.id });
+    });
+    wc.on('ipc-message-sync', (event, channel, ...args) => {
+      const entry = record({ channel, direction: 'renderer-to-main', type: 'sendSync', args: args.map(safeValue), webContentsId: wc.id });
+      // returnValue is write-only, so the reply is read where Electron sends it
+      const replyChannel = event._replyChannel;
+      if (entry && replyChannel && typeof replyChannel.sendReply === 'function') {
+        const sendReply = replyChannel.sendReply.bind(replyChannel);
+        replyChannel.sendReply = (value) => {
+          entry.result = safeValue(value);
+          return sendReply(value);
+        };
+      }
+    });
+
+    const originalSend = wc.send;
+    wc.send = function (channel, ...args) {
+      record({ channel, direction: 'main-to-renderer', type: 'send', args: args.map(safeValue), webContentsId: wc.id });
+      return originalSend.call(this, channel, ...args);
+    };
+  };
+  electron.webContents.getAllWebContents().forEach(watchWebContents);
+  electron.app.on('web-contents-created', (_event, wc) => watchWebContents(wc));
+
+  const handlers = electron.ipcMain._invokeHandlers;
+  if (handlers && typeof handlers.get === 'function') {
+    const originalGet = handlers.get.bind(handlers);
+    handlers.get = (channel) => {
+      const handler = originalGet(channel);
+      if (!handler) return handler;
+      return async (event, ...args) => {
+        const start = Date.now();
+        const entry = record({ channel, direction: 'renderer-to-main', type: 'invoke', args: args.map(safeValue), webContentsId: event.sender && event.sender.id });
+        try {
+          const result = await handler(event, ...args);
+          if (entry) { entry.result = safeValue(result); entry.duration = Date.now() - start; }
+          return result;
+        } catch (err) {
+          if (entry) { entry.error = String(err && err.message || err); entry.duration = Date.now() - start; }
+          throw err;
+        }
+      };
+    };
+  }
+  return true;
+}`;
+
+export const STOP_IPC_CAPTURE_SCRIPT = `() => {
+  if (globalThis.__mcpIpc) globalThis.__mcpIpc.active = false;
+  return true;
+}`;
+
+// Invoke results settle after the message is recorded, so only settled entries are drained
+export const DRAIN_IPC_SCRIPT = `() => {
+  const state = globalThis.__mcpIpc;
+  if (!state) return [];
+  const settled = state.entries.filter(e => e.type !== 'invoke' || e.duration !== undefined);
+  state.entries = state.entries.filter(e => !settled.includes(e));
+  return settled;
+}`;
+
+export const CLEAR_IPC_SCRIPT = `() => {
+  if (globalThis.__mcpIpc) globalThis.__mcpIpc.entries = [];
+  return true;
+}`;
+
+/**
+ * Send a message to a renderer, by webContents id or to the focused (else first) window
+ */
+export const SEND_IPC_SCRIPT = `(electron, channel, args, webContentsId) => {
+  const { BrowserWindow, webContents } = electron;
+  const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+  const target = webContentsId !== null ? webContents.fromId(webContentsId) : win && win.webContents;
+  if (!target) throw new Error(webContentsId !== null ? 'No webContents with id ' + webContentsId : 'The app has no window to send to');
+  target.send(channel, ...args);
+  return target.id;
+}`;
+
+/**
+ * Call an ipcMain.handle handler as if the focused (else first) window had invoked it
+ */
+export const INVOKE_IPC_SCRIPT = `async (electron, channel, args) => {
+  const safeValue = ${SAFE_VALUE_FN};
+  const { BrowserWindow, ipcMain } = electron;
+  const handlers = ipcMain._invokeHandlers;
+  const handler = handlers && handlers.get(channel);
+  if (!handler) throw new Error('No ipcMain.handle handler is registered for "' + channel + '"');
+  const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+  const sender = win && win.webContents;
+  const event = { sender, senderFrame: sender && sender.mainFrame, frameId: sender && sender.mainFrame && sender.mainFrame.routingId, processId: sender && sender.getProcessId() };
+  return safeValue(await handler(event, ...args));
+}`;
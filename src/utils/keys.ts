@@ -0,0 +1,126 @@
+/**
+ * Key names and chords such as "Control+Shift+P". Names follow KeyboardEvent.key,
+ * which both Playwright and WebdriverIO's Key constants use.
+ */
+
+import { Key } from 'webdriverio';
+import { ModifierKey } from '../types.js';
+
+export interface KeyChord {
+  modifiers: ModifierKey[];
+  key: string;   // a name from NAMED_KEYS or a single character
+}
+
+export const MODIFIER_KEYS: Record<ModifierKey, string> = {
+  Alt: Key.Alt,
+  Control: Key.Control,
+  Meta: Key.Command,
+  Shift: Key.Shift
+};
+
+const NAMED_KEYS: Record<string, string> = {
+  Enter: Key.Enter,
+  Escape: Key.Escape,
+  Tab: Key.Tab,
+  Backspace: Key.Backspace,
+  Delete: Key.Delete,
+  Insert: Key.Insert,
+  Space: Key.Space,
+  ArrowUp: Key.ArrowUp,
+  ArrowDown: Key.ArrowDown,
+  ArrowLeft: Key.ArrowLeft,
+  ArrowRight: Key.ArrowRight,
+  Home: Key.Home,
+  End: Key.End,
+  PageUp: Key.PageUp,
+  PageDown: Key.PageDown,
+  F1: Key.F1,
+  F2: Key.F2,
+  F3: Key.F3,
+  F4: Key.F4,
+  F5: Key.F5,
+  F6: Key.F6,
+  F7: Key.F7,
+  F8: Key.F8,
+  F9: Key.F9,
+  F10: Key.F10,
+  F11: Key.F11,
+  F12: Key.F12,
+  ...MODIFIER_KEYS
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'Escape',
+  return: 'Enter',
+  del: 'Delete',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  plus: '+'
+};
+
+const MODIFIER_ALIASES: Record<string, ModifierKey> = {
+  alt: 'Alt',
+  option: 'Alt',
+  control: 'Control',
+  ctrl: 'Control',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  super: 'Meta',
+  shift: 'Shift',
+  cmdorctrl: process.platform === 'darwin' ? 'Meta' : 'Control',
+  commandorcontrol: process.platform === 'darwin' ? 'Meta' : 'Control'
+};
+
+/**
+ * Parse "Control+Shift+P", "Escape" or "CmdOrCtrl+S". A lone modifier is pressed as a key.
+ */
+export function parseChord(chord: string): KeyChord {
+  const parts = chord.split('+').map(part => part.trim());
+  // "Control++" and "Control + +" press the plus key
+  if (parts.length > 1 && parts[parts.length - 1] === '' && parts[parts.length - 2] === '') {
+    parts.splice(-2, 2, '+');
+  }
+
+  const last = parts.pop()!;
+  const modifiers = parts.map(part => {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) {
+      throw new Error(`Unknown modifier "${part}" in "${chord}". Use Alt, Control, Meta, Shift or CmdOrCtrl.`);
+    }
+    return modifier;
+  });
+
+  return { modifiers, key: keyName(last, chord) };
+}
+
+export function formatChord(chord: KeyChord): string {
+  return [...chord.modifiers, chord.key].join('+');
+}
+
+// WebDriver key value for a key name or character
+export function keyValue(key: string): string {
+  return NAMED_KEYS[key] ?? key;
+}
+
+export function isNamedKey(key: string): boolean {
+  return key in NAMED_KEYS;
+}
+
+function keyName(name: string, chord: string): string {
+  if (name.length === 1) return name;
+  if (name === '') {
+    throw new Error(`Missing key in "${chord}": a chord ends with the key to press, e.g. Control+S.`);
+  }
+
+  const lower = name.toLowerCase();
+  const named = Object.keys(NAMED_KEYS).find(key => key.toLowerCase() === lower)
+    ?? KEY_ALIASES[lower]
+    ?? MODIFIER_ALIASES[lower];
+  if (!named) {
+    throw new Error(`Unknown key "${name}" in "${chord}". Use a single character or a name such as Enter, Escape, Tab, ArrowDown, PageUp, F5.`);
+  }
+  return named;
+}
@@ -0,0 +1,144 @@
+/**
+ * Main-process scripts for reading and clicking native menus. Context menus are
+ * captured as they open: Menu.prototype.popup stores the menu on
+ * globalThis.__mcpContextMenu and then shows it as usual. The menu is forgotten
+ * again when it closes, whether an item was picked or the user dismissed it.
+ */
+
+export const CONTEXT_MENU_HOOK_SCRIPT = `(electron) => {
+  if (globalThis.__mcpContextMenuHook) return true;
+  const original = electron.Menu.prototype.popup;
+  globalThis.__mcpContextMenuHook = { original };
+
+  electron.Menu.prototype.popup = function (options) {
+    const opts = options || {};
+    const context = {
+      menu: this,
+      window: opts.window || electron.BrowserWindow.getFocusedWindow(),
+      openedAt: Date.now()
+    };
+    globalThis.__mcpContextMenu = context;
+    // Escape or a click elsewhere closes the menu without picking an item
+    this.once('menu-will-close', () => {
+      if (globalThis.__mcpContextMenu === context) globalThis.__mcpContextMenu = null;
+    });
+    return original.apply(this, arguments);
+  };
+  return true;
+}`;
+
+// Puts the original Menu.prototype.popup back, so an attached app keeps working after detaching
+export const CONTEXT_MENU_UNHOOK_SCRIPT = `(electron) => {
+  const hook = globalThis.__mcpContextMenuHook;
+  if (!hook) return false;
+  electron.Menu.prototype.popup = hook.original;
+  delete globalThis.__mcpContextMenuHook;
+  delete globalThis.__mcpContextMenu;
+  return true;
+}`;
+
+// Serializes a Menu into plain items, recursively
+const SERIALIZE_MENU_FN = `function serialize(menu) {
+  return menu.items.map((item) => ({
+    label: item.label,
+    role: item.role || undefined,
+    type: item.type,
+    accelerator: item.accelerator ? String(item.accelerator) : undefined,
+    enabled: item.enabled,
+    visible: item.visible,
+    checked: item.type === 'checkbox' || item.type === 'radio' ? item.checked : undefined,
+    sublabel: item.sublabel || undefined,
+    submenu: item.submenu ? serialize(item.submenu) : undefined
+  }));
+}`;
+
+export const GET_MENU_SCRIPT = `(electron, kind) => {
+  ${SERIALIZE_MENU_FN}
+  const context = globalThis.__mcpContextMenu;
+  const menu = kind === 'context' ? context && context.menu : electron.Menu.getApplicationMenu();
+  return menu ? { items: serialize(menu), openedAt: kind === 'context' ? context.openedAt : undefined } : null;
+}`;
+
+/**
+ * Click the item at a label path. Labels match case-insensitively, ignoring & mnemonics.
+ */
+export const CLICK_MENU_SCRIPT = `(electron, kind, path) => {
+  const normalize = (label) => String(label || '').replace(/&/g, '').trim().toLowerCase();
+  const context = globalThis.__mcpContextMenu;
+  const menu = kind === 'context' ? context && context.menu : electron.Menu.getApplicationMenu();
+  if (!menu) throw new Error(kind === 'context' ? 'No context menu is open' : 'The app has no application menu');
+
+  let items = menu.items;
+  let item = null;
+  path.forEach((label, i) => {
+    if (!items) throw new Error('"' + path.slice(0, i).join(' > ') + '" has no submenu');
+    item = items.find((candidate) => candidate.type !== 'separator' && normalize(candidate.label) === normalize(label));
+    if (!item) {
+      const available = items.filter((c) => c.type !== 'separator' && c.visible).map((c) => c.label).join(', ');
+      throw new Error('No menu item "' + label + '" in ' + (i === 0 ? 'the menu' : '"' + path.slice(0, i).join(' > ') + '"') + '. Available: ' + available);
+    }
+    items = item.submenu ? item.submenu.items : null;
+  });
+
+  if (item.submenu) throw new Error('"' + path.join(' > ') + '" opens a submenu; add the item to click');
+  if (!item.enabled) throw new Error('"' + path.join(' > ') + '" is disabled');
+  if (!item.visible) throw new Error('"' + path.join(' > ') + '" is hidden');
+
+  const win = (kind === 'context' && context.window) || electron.BrowserWindow.getFocusedWindow() || electron.BrowserWindow.getAllWindows()[0];
+
+  // Close the shown menu first, as picking an item would; that also runs its popup callback
+  if (kind === 'context') {
+    globalThis.__mcpContextMenu = null;
+    context.menu.closePopup(context.window || undefined);
+  }
+  item.click({ triggeredByAccelerator: false }, win, win && win.webContents);
+  return { label: item.label, type: item.type, checked: item.checked };
+}`;
+
+/**
+ * Click the application menu item whose accelerator matches, e.g. "CmdOrCtrl+Shift+P".
+ * Accelerators are compared after resolving aliases (CmdOrCtrl, Ctrl, Option, Up...)
+ * and sorting the modifiers.
+ */
+export const TRIGGER_ACCELERATOR_SCRIPT = `(electron, accelerator) => {
+  const isMac = process.platform === 'darwin';
+  const ALIASES = {
+    cmdorctrl: isMac ? 'cmd' : 'ctrl', commandorcontrol: isMac ? 'cmd' : 'ctrl',
+    command: 'cmd', meta: isMac ? 'cmd' : 'super', control: 'ctrl', option: 'alt',
+    esc: 'escape', return: 'enter', arrowup: 'up', arrowdown: 'down', arrowleft: 'left', arrowright: 'right', '+': 'plus'
+  };
+  const MODIFIERS = ['alt', 'altgr', 'cmd', 'ctrl', 'shift', 'super'];
+  const normalize = (value) => {
+    const parts = String(value).replace(/\\s+/g, '').toLowerCase().split('+');
+    if (parts.length > 1 && parts[parts.length - 1] === '') parts.splice(-2, 2, 'plus');
+    const names = parts.map((part) => ALIASES[part] || part);
+    const key = names.pop();
+    return names.filter((name) => MODIFIERS.includes(name)).sort().concat(key).join('+');
+  };
+
+  const menu = electron.Menu.getApplicationMenu();
+  if (!menu) throw new Error('The app has no application menu');
+
+  const wanted = normalize(accelerator);
+  const found = [];
+  const all = [];
+  const walk = (items, path) => items.forEach((item) => {
+    const itemPath = path.concat(item.label);
+    if (item.accelerator) {
+      all.push(String(item.accelerator));
+      if (normalize(item.accelerator) === wanted) found.push({ item, path: itemPath });
+    }
+    if (item.submenu) walk(item.submenu.items, itemPath);
+  });
+  walk(menu.items, []);
+
+  if (found.length === 0) {
+    throw new Error('No menu item has the accelerator ' + accelerator + '. Accelerators in the menu: ' + (all.join(', ') || 'none'));
+  }
+  const match = found.find(({ item }) => item.enabled);
+  if (!match) throw new Error('"' + found[0].path.join(' > ') + '" has the accelerator ' + accelerator + ' but is disabled');
+
+  const win = electron.BrowserWindow.getFocusedWindow() || electron.BrowserWindow.getAllWindows()[0];
+  match.item.click({ triggeredByAccelerator: true }, win, win && win.webContents);
+  return { label: match.item.label, path: match.path };
+}`;
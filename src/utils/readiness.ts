@@ -0,0 +1,156 @@
+/**
+ * Readiness strategies used after launch to decide when the app is usable
+ */
+
+import { ReadinessConfig } from '../types.js';
+import { logger } from './logger.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type WdioBrowser = any;
+
+const POLL_INTERVAL = 250;
+const DEFAULT_NETWORK_IDLE_TIME = 500;
+
+/**
+ * Counts the page's requests: fetch and XHR calls still in flight, and finished
+ * resources through a PerformanceObserver, which unlike the resource timing buffer
+ * has no 250-entry limit. Installed once per document.
+ */
+const NETWORK_STATE_SCRIPT = `
+let state = window.__mcpNetwork;
+if (!state) {
+  state = window.__mcpNetwork = { inflight: 0, finished: 0 };
+  new PerformanceObserver((list) => { state.finished += list.getEntries().length; })
+    .observe({ type: 'resource', buffered: true });
+
+  const track = () => {
+    state.inflight++;
+    let done = false;
+    return () => {
+      if (!done) { done = true; state.inflight--; }
+    };
+  };
+  const fetch = window.fetch;
+  window.fetch = function () {
+    const end = track();
+    return fetch.apply(this, arguments).finally(end);
+  };
+  const send = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function () {
+    this.addEventListener('loadend', track());
+    return send.apply(this, arguments);
+  };
+}
+return { readyState: document.readyState, inflight: state.inflight, finished: state.finished };
+`;
+
+/**
+ * Wait until the configured readiness condition holds. Throws an error naming
+ * the condition when it does not hold within the timeout.
+ */
+export async function waitForReadiness(browser: WdioBrowser, readiness: ReadinessConfig, timeout: number): Promise<void> {
+  const description = describeReadiness(readiness);
+  logger.info(`Waiting up to ${timeout}ms for ${description}`);
+
+  const condition = createCondition(browser, readiness);
+  const start = Date.now();
+  let lastError: unknown = null;
+
+  try {
+    await browser.waitUntil(async () => {
+      try {
+        const ready = await condition();
+        lastError = null;
+        return ready;
+      } catch (err) {
+        // Window may be navigating or not created yet, or the condition itself is broken
+        lastError = err;
+        return false;
+      }
+    }, { timeout, interval: POLL_INTERVAL });
+  } catch {
+    const reason = lastError ? ` (last error: ${lastError instanceof Error ? lastError.message : String(lastError)})` : '';
+    throw new Error(`Timed out after ${timeout}ms waiting for ${description}${reason}`);
+  }
+
+  logger.info(`App ready after ${Date.now() - start}ms (${description})`);
+}
+
+export function describeReadiness(readiness: ReadinessConfig): string {
+  switch (readiness.mode) {
+    case 'load':
+      return 'the first window to finish loading';
+    case 'window': {
+      const parts: string[] = [];
+      if (readiness.windowTitle) parts.push(`title containing "${readiness.windowTitle}"`);
+      if (readiness.windowUrl) parts.push(`URL containing "${readiness.windowUrl}"`);
+      return `a window with ${parts.join(' and ')}`;
+    }
+    case 'selector':
+      return `selector "${readiness.selector}" to be displayed`;
+    case 'network_idle':
+      return `network idle for ${readiness.idleTime ?? DEFAULT_NETWORK_IDLE_TIME}ms`;
+    case 'predicate':
+      return `predicate "${readiness.script?.slice(0, 60)}" to return true`;
+  }
+}
+
+function createCondition(browser: WdioBrowser, readiness: ReadinessConfig): () => Promise<boolean> {
+  switch (readiness.mode) {
+    case 'load':
+      return async () => await browser.execute('return document.readyState') === 'complete';
+
+    case 'window': {
+      if (!readiness.windowTitle && !readiness.windowUrl) {
+        throw new Error('Readiness mode "window" needs windowTitle or windowUrl');
+      }
+      // Switch through all windows and stay on the first one that matches
+      return async () => {
+        const handles: string[] = await browser.getWindowHandles();
+        for (const handle of handles) {
+          await browser.switchToWindow(handle);
+          const title: string = await browser.getTitle();
+          const url: string = await browser.getUrl();
+          const titleMatches = !readiness.windowTitle || title.includes(readiness.windowTitle);
+          const urlMatches = !readiness.windowUrl || url.includes(readiness.windowUrl);
+          if (titleMatches && urlMatches) {
+            return true;
+          }
+        }
+        return false;
+      };
+    }
+
+    case 'selector': {
+      if (!readiness.selector) {
+        throw new Error('Readiness mode "selector" needs a selector');
+      }
+      return async () => browser.$(readiness.selector).isDisplayed();
+    }
+
+    case 'network_idle': {
+      // Idle once the page has loaded, nothing is in flight and no request finished for idleTime
+      const idleTime = readiness.idleTime ?? DEFAULT_NETWORK_IDLE_TIME;
+      let lastFinished = -1;
+      let lastChange = Date.now();
+      return async () => {
+        const state = await browser.execute(NETWORK_STATE_SCRIPT) as { readyState: string; inflight: number; finished: number };
+
+        if (state.inflight > 0 || state.finished !== lastFinished || state.readyState !== 'complete') {
+          lastFinished = state.finished;
+          lastChange = Date.now();
+          return false;
+        }
+        return Date.now() - lastChange >= idleTime;
+      };
+    }
+
+    case 'predicate': {
+      if (!readiness.script) {
+        throw new Error('Readiness mode "predicate" needs a script');
+      }
+      const wrappedScript = `return Boolean((function() { ${readiness.script} })())`;
+      return async () => await browser.execute(wrappedScript) === true;
+    }
+  }
+}
@@ -51,13 +51,15 @@ function zodTypeToJsonSchema(schema: z.ZodType): Record<string, unknown> {
     };
   }
 
+  // Wrappers carry the description when .describe() comes after .optional() or .default()
   if (schema instanceof z.ZodOptional) {
-    return zodTypeToJsonSchema(schema.unwrap());
+    const inner = zodTypeToJsonSchema(schema.unwrap());
+    return description ? { ...inner, description } : inner;
   }
 
   if (schema instanceof z.ZodDefault) {
     const inner = zodTypeToJsonSchema(schema._def.innerType);
-    return { ...inner, default: schema._def.defaultValue() };
+    return { ...inner, default: schema._def.defaultValue(), ...(description ? { description } : {}) };
   }
 
   if (schema instanceof z.ZodEnum) {
@@ -87,6 +89,41 @@ function zodTypeToJsonSchema(schema: z.ZodType): Record<string, unknown> {
     return zodToJsonSchema(schema);
   }
 
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: 'object',
+      additionalProperties: zodTypeToJsonSchema(schema.valueSchema),
+      description
+    };
+  }
+
+  // Any JSON value: objects, arrays and numbers must reach the tool as they are, not as strings
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return { description };
+  }
+
   // Fallback for unknown types
   return { type: 'string', description };
 }
+
+/**
+ * Add the optional sessionId parameter every tool accepts for targeting a named app session
+ */
+export function withSessionIdProperty(jsonSchema: Record<string, unknown>): Record<string, unknown> {
+  const properties = (jsonSchema.properties as Record<string, unknown> | undefined) ?? {};
+  if ('sessionId' in properties) {
+    return jsonSchema;
+  }
+
+  return {
+    ...jsonSchema,
+    type: 'object',
+    properties: {
+      ...properties,
+      sessionId: {
+        type: 'string',
+        description: 'Named app session to run against (defaults to the current session)'
+      }
+    }
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * In-page scripts for electron_scroll and for bringing elements into view
+ * before tools act on them.
+ */
+
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface ScrollOptions {
+  direction: ScrollDirection;
+  pixels?: number;
+  pages?: number;
+  to?: 'top' | 'bottom';
+}
+
+export interface ScrollResult {
+  container: string;   // what was scrolled: "the window" or a short element description
+  deltaX: number;      // pixels requested
+  deltaY: number;
+  moved: boolean;      // false at the end of the scroll range
+  top: number;
+  left: number;
+  maxTop: number;
+  maxLeft: number;
+}
+
+/**
+ * Called with (element or null, options). Scrolls the element's closest scrollable
+ * container, or the document without an element.
+ */
+export const SCROLL_SCRIPT = `
+const target = arguments[0];
+const options = arguments[1];
+const root = document.scrollingElement || document.documentElement;
+
+const canScroll = (node) => {
+  const style = node.ownerDocument.defaultView.getComputedStyle(node);
+  return (/(auto|scroll|overlay)/.test(style.overflowY) && node.scrollHeight > node.clientHeight) ||
+    (/(auto|scroll|overlay)/.test(style.overflowX) && node.scrollWidth > node.clientWidth);
+};
+
+let scroller = root;
+for (let node = target; node; node = node.parentElement || (node.parentNode && node.parentNode.host)) {
+  if (node === document.body || node === document.documentElement) break;
+  if (canScroll(node)) {
+    scroller = node;
+    break;
+  }
+}
+
+const vertical = options.direction === 'up' || options.direction === 'down';
+const sign = options.direction === 'up' || options.direction === 'left' ? -1 : 1;
+const viewport = scroller === root
+  ? { width: window.innerWidth, height: window.innerHeight }
+  : { width: scroller.clientWidth, height: scroller.clientHeight };
+const before = { top: scroller.scrollTop, left: scroller.scrollLeft };
+
+let deltaX = 0;
+let deltaY = 0;
+if (options.to === 'top') {
+  deltaY = -scroller.scrollHeight;
+} else if (options.to === 'bottom') {
+  deltaY = scroller.scrollHeight;
+} else {
+  const amount = options.pixels !== undefined
+    ? options.pixels
+    : Math.round((options.pages !== undefined ? options.pages : 1) * (vertical ? viewport.height : viewport.width));
+  if (vertical) deltaY = sign * amount; else deltaX = sign * amount;
+}
+scroller.scrollBy({ left: deltaX, top: deltaY, behavior: 'instant' });
+
+const describe = (el) => el.tagName.toLowerCase() + (el.id ? '#' + el.id : '') +
+  (el.getAttribute('aria-label') ? ' "' + el.getAttribute('aria-label') + '"' : '');
+return {
+  container: scroller === root ? 'the window' : describe(scroller),
+  deltaX,
+  deltaY,
+  moved: scroller.scrollTop !== before.top || scroller.scrollLeft !== before.left,
+  top: Math.round(scroller.scrollTop),
+  left: Math.round(scroller.scrollLeft),
+  maxTop: scroller.scrollHeight - scroller.clientHeight,
+  maxLeft: scroller.scrollWidth - scroller.clientWidth
+};
+`;
+
+/**
+ * Called with (element or null, text, selector), one of text and selector null. The element
+ * only picks the frame to run in. Looks for a rendered element with the text or matching
+ * the selector and scrolls it into view; returns whether it was found.
+ */
+export const FIND_AND_REVEAL_SCRIPT = `
+const text = arguments[1];
+const selector = arguments[2];
+let found = null;
+
+if (selector) {
+  found = document.querySelector(selector);
+} else {
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.textContent.includes(text) && node.parentElement && node.parentElement.getClientRects().length > 0) {
+      found = node.parentElement;
+      break;
+    }
+  }
+}
+
+if (!found) return false;
+found.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'instant' });
+return true;
+`;
+
+// Called with an element; scrolls it into view unless it already is
+export const SCROLL_INTO_VIEW_SCRIPT = `
+const el = arguments[0];
+if (el.scrollIntoViewIfNeeded) {
+  el.scrollIntoViewIfNeeded(true);
+} else {
+  el.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'instant' });
+}
+`;
+
+// Called with (element, x, y); whether the point x/y from the element's centre is inside the viewport
+export const CENTRE_IN_VIEW_SCRIPT = `
+const rect = arguments[0].getBoundingClientRect();
+const x = rect.left + rect.width / 2 + arguments[1];
+const y = rect.top + rect.height / 2 + arguments[2];
+return x >= 0 && y >= 0 && x < window.innerWidth && y < window.innerHeight;
+`;
@@ -0,0 +1,61 @@
+/**
+ * Compares two snapshots of the same window. Refs are stable between
+ * snapshots, so elements are paired by ref.
+ */
+
+import { ElementInfo, PageSnapshot, SnapshotDiff } from '../types.js';
+
+// Box changes smaller than this are layout noise
+const MOVE_THRESHOLD = 2;
+
+export function diffSnapshots(before: PageSnapshot, after: PageSnapshot): SnapshotDiff {
+  const added = Array.from(after.elements.values()).filter(el => !before.elements.has(el.ref));
+  const removed = Array.from(before.elements.values()).filter(el => !after.elements.has(el.ref));
+
+  const changed: SnapshotDiff['changed'] = [];
+  for (const el of after.elements.values()) {
+    const previous = before.elements.get(el.ref);
+    if (!previous) continue;
+    const changes = describeChanges(previous, el);
+    if (changes.length > 0) {
+      changed.push({ element: el, changes });
+    }
+  }
+
+  return { windowId: after.windowId, since: before.timestamp, added, removed, changed };
+}
+
+function describeChanges(before: ElementInfo, after: ElementInfo): string[] {
+  const changes: string[] = [];
+  const compare = (label: string, from: unknown, to: unknown) => {
+    if (from !== to) {
+      changes.push(`${label}: ${JSON.stringify(from ?? null)} -> ${JSON.stringify(to ?? null)}`);
+    }
+  };
+
+  compare('role', before.role, after.role);
+  compare('name', before.accessibleName, after.accessibleName);
+  compare('text', before.text, after.text);
+  compare('enabled', before.isEnabled, after.isEnabled);
+  compare('visible', before.isVisible, after.isVisible);
+  compare('checked', before.checked, after.checked);
+  compare('expanded', before.expanded, after.expanded);
+  compare('selected', before.selected, after.selected);
+  compare('focused', before.focused ?? false, after.focused ?? false);
+
+  const attributeNames = new Set([...Object.keys(before.attributes), ...Object.keys(after.attributes)]);
+  for (const name of attributeNames) {
+    compare(`@${name}`, before.attributes[name], after.attributes[name]);
+  }
+
+  const from = before.boundingBox;
+  const to = after.boundingBox;
+  if (from && to && (
+    Math.abs(from.x - to.x) > MOVE_THRESHOLD || Math.abs(from.y - to.y) > MOVE_THRESHOLD ||
+    Math.abs(from.width - to.width) > MOVE_THRESHOLD || Math.abs(from.height - to.height) > MOVE_THRESHOLD
+  )) {
+    changes.push(`box: ${from.width}x${from.height} at ${from.x},${from.y} -> ${to.width}x${to.height} at ${to.x},${to.y}`);
+  }
+
+  return changes;
+}
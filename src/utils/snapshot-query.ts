@@ -0,0 +1,63 @@
+/**
+ * Filtering and paging of snapshot elements for electron_snapshot
+ */
+
+import { ElementInfo, FrameSegment, SnapshotQuery } from '../types.js';
+
+// The element a query is scoped to, as frames plus the DOM path in the innermost frame
+export interface ScopeRoot {
+  frames: FrameSegment[];
+  domPath: string;
+}
+
+export function scopeOf(el: ElementInfo): ScopeRoot | null {
+  return el.domPath ? { frames: el.frames ?? [], domPath: el.domPath } : null;
+}
+
+/**
+ * True when el is the root or inside it, including inside iframes and webviews
+ * that are themselves inside the root
+ */
+export function isWithin(el: ElementInfo, root: ScopeRoot): boolean {
+  const frames = el.frames ?? [];
+  for (let i = 0; i < root.frames.length; i++) {
+    if (frames[i]?.type !== root.frames[i].type || frames[i]?.domPath !== root.frames[i].domPath) {
+      return false;
+    }
+  }
+
+  const path = frames.length > root.frames.length ? frames[root.frames.length].domPath : el.domPath;
+  return path !== undefined && (path === root.domPath || path.startsWith(`${root.domPath}/`));
+}
+
+export function matchesFilters(el: ElementInfo, query: Pick<SnapshotQuery, 'roles' | 'text'>): boolean {
+  if (query.roles?.length) {
+    const role = (el.role ?? el.tagName).toLowerCase();
+    if (!query.roles.some(r => r.toLowerCase() === role)) {
+      return false;
+    }
+  }
+
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    const haystack = [el.accessibleName, el.ariaLabel, el.text].filter(Boolean).join('\n').toLowerCase();
+    if (!haystack.includes(needle)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Cursors point into one snapshot: "<snapshot timestamp>:<offset>"
+export function encodeCursor(timestamp: number, offset: number): string {
+  return `${timestamp}:${offset}`;
+}
+
+export function decodeCursor(cursor: string): { timestamp: number; offset: number } {
+  const match = cursor.match(/^(\d+):(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  return { timestamp: Number(match[1]), offset: Number(match[2]) };
+}
@@ -0,0 +1,41 @@
+/**
+ * Utility to manage throwaway Electron user data directories
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+const USER_DATA_PREFIX = 'electron-mcp-profile-';
+
+/**
+ * Create an empty user data directory, optionally seeded with a copy of a fixture directory
+ */
+export async function createUserDataDir(fixtureDir?: string): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), USER_DATA_PREFIX));
+
+  if (fixtureDir) {
+    try {
+      await fs.cp(fixtureDir, dir, { recursive: true });
+    } catch (err) {
+      await removeUserDataDir(dir);
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Could not seed user data from ${fixtureDir}: ${message}`);
+    }
+    logger.info(`Created user data directory ${dir} from fixture ${fixtureDir}`);
+  } else {
+    logger.info(`Created user data directory ${dir}`);
+  }
+
+  return dir;
+}
+
+export async function removeUserDataDir(dir: string): Promise<void> {
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+    logger.debug(`Removed user data directory ${dir}`);
+  } catch (err) {
+    logger.warn(`Could not remove user data directory ${dir}:`, err);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Utility to run apps headless on Linux on a private Xvfb display
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import { logger } from './logger.js';
+
+const XVFB_BINARY = 'Xvfb';
+const COLOR_DEPTH = 24;
+const START_TIMEOUT = 10000;
+const STOP_TIMEOUT = 3000;
+
+export interface VirtualDisplay {
+  display: string;   // value for DISPLAY, e.g. ":99"
+  width: number;
+  height: number;
+  process: ChildProcess;
+}
+
+/**
+ * Start an Xvfb server with a screen of the given size. Xvfb picks a free
+ * display number itself and reports it on fd 3 (-displayfd).
+ */
+export async function startVirtualDisplay(width: number, height: number): Promise<VirtualDisplay> {
+  if (process.platform !== 'linux') {
+    throw new Error(`Headless mode needs Xvfb and is only supported on Linux (running on ${process.platform})`);
+  }
+
+  const screen = `${width}x${height}x${COLOR_DEPTH}`;
+  const child = spawn(XVFB_BINARY, ['-displayfd', '3', '-screen', '0', screen, '-nolisten', 'tcp'], {
+    stdio: ['ignore', 'ignore', 'pipe', 'pipe']
+  });
+
+  return new Promise((resolve, reject) => {
+    let stderr = '';
+    let displayOutput = '';
+
+    const fail = (message: string) => {
+      clearTimeout(timer);
+      child.kill('SIGKILL');
+      reject(new Error(message));
+    };
+
+    const timer = setTimeout(
+      () => fail(`Xvfb did not report a display within ${START_TIMEOUT}ms${stderr ? `: ${stderr.trim()}` : ''}`),
+      START_TIMEOUT
+    );
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    child.stdio[3]?.on('data', (chunk: Buffer) => {
+      displayOutput += chunk.toString();
+      if (!displayOutput.includes('\n')) return;
+
+      clearTimeout(timer);
+      const display = `:${displayOutput.trim()}`;
+      logger.info(`Started Xvfb on display ${display} (${screen}, pid ${child.pid})`);
+      resolve({ display, width, height, process: child });
+    });
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      fail(err.code === 'ENOENT'
+        ? 'Xvfb is not installed. Install it (e.g. apt-get install xvfb) to use headless mode.'
+        : `Could not start Xvfb: ${err.message}`);
+    });
+
+    child.on('exit', (code) => {
+      if (!displayOutput.includes('\n')) {
+        fail(`Xvfb exited with code ${code} before it was ready${stderr ? `: ${stderr.trim()}` : ''}`);
+      }
+    });
+  });
+}
+
+export async function stopVirtualDisplay(virtualDisplay: VirtualDisplay): Promise<void> {
+  const child = virtualDisplay.process;
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+  child.kill('SIGTERM');
+
+  const timer = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT);
+  await exited;
+  clearTimeout(timer);
+
+  logger.debug(`Stopped Xvfb on display ${virtualDisplay.display}`);
+}
+
+/**
+ * Switches Chromium needs without a GPU, and as root or inside a container
+ * where the sandbox cannot be set up
+ */
+export function getHeadlessSwitches(): string[] {
+  const switches = ['--disable-gpu'];
+  const container = isRunningInContainer();
+
+  if (process.getuid?.() === 0 || container) {
+    switches.push('--no-sandbox');
+  }
+  // Docker's default 64MB /dev/shm is too small for Chromium
+  if (container) {
+    switches.push('--disable-dev-shm-usage');
+  }
+
+  return switches;
+}
+
+function isRunningInContainer(): boolean {
+  if (fs.existsSync('/.dockerenv') || fs.existsSync('/run/.containerenv')) {
+    return true;
+  }
+
+  try {
+    return /docker|kubepods|containerd|lxc/.test(fs.readFileSync('/proc/1/cgroup', 'utf-8'));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Main-process script for reading and changing BrowserWindow state. The active
+ * WebDriver window is matched to its BrowserWindow through a marker the server
+ * sets on the page, since the renderer cannot name its own window.
+ */
+
+// How long to wait for the window manager to apply a change before reporting the real state
+const SETTLE_TIMEOUT = 2000;
+
+// Per-window limit for reading the marker, so a hung window cannot block the lookup
+const MARKER_TIMEOUT = 2000;
+
+export const SET_WINDOW_MARKER_SCRIPT = 'window.__mcpWindowMarker = arguments[0]';
+
+export const WINDOW_STATE_SCRIPT = `async (electron, marker, op) => {
+  const { BrowserWindow } = electron;
+  const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+  const readMarker = (win) => Promise.race([
+    win.webContents.executeJavaScript('window.__mcpWindowMarker').catch(() => undefined),
+    sleep(${MARKER_TIMEOUT}).then(() => undefined)
+  ]);
+
+  let win = null;
+  for (const candidate of BrowserWindow.getAllWindows()) {
+    if (await readMarker(candidate) === marker) {
+      win = candidate;
+      break;
+    }
+  }
+  if (!win) throw new Error('Could not find the BrowserWindow showing the active window');
+
+  const settle = async (done) => {
+    const end = Date.now() + ${SETTLE_TIMEOUT};
+    while (!done() && Date.now() < end) await sleep(50);
+  };
+
+  switch (op.type) {
+    case 'bounds': {
+      if (win.isFullScreen()) win.setFullScreen(false);
+      if (win.isMaximized()) win.unmaximize();
+      win.setBounds(op.bounds);
+      await settle(() => {
+        const current = win.getBounds();
+        return ['x', 'y', 'width', 'height'].every((key) => op.bounds[key] === undefined || current[key] === op.bounds[key]);
+      });
+      break;
+    }
+    case 'minimize':
+      win.minimize();
+      await settle(() => win.isMinimized());
+      break;
+    case 'maximize':
+      win.maximize();
+      await settle(() => win.isMaximized());
+      break;
+    case 'restore':
+      if (win.isFullScreen()) win.setFullScreen(false);
+      if (win.isMinimized()) win.restore();
+      if (win.isMaximized()) win.unmaximize();
+      await settle(() => !win.isMinimized() && !win.isMaximized() && !win.isFullScreen());
+      break;
+    case 'fullscreen':
+      win.setFullScreen(op.enabled);
+      await settle(() => win.isFullScreen() === op.enabled);
+      break;
+    case 'focus':
+      if (win.isMinimized()) win.restore();
+      win.show();
+      win.focus();
+      await settle(() => win.isFocused());
+      break;
+    case 'always_on_top':
+      win.setAlwaysOnTop(op.enabled);
+      await settle(() => win.isAlwaysOnTop() === op.enabled);
+      break;
+  }
+
+  return {
+    id: win.id,
+    title: win.getTitle(),
+    bounds: win.getBounds(),
+    contentBounds: win.getContentBounds(),
+    isMinimized: win.isMinimized(),
+    isMaximized: win.isMaximized(),
+    isFullScreen: win.isFullScreen(),
+    isFocused: win.isFocused(),
+    isVisible: win.isVisible(),
+    isAlwaysOnTop: win.isAlwaysOnTop()
+  };
+}`;
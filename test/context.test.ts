@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { element, snapshot } from './fixtures.js';
+
+// Launches stop at the app itself: detection, driver lookup and the launcher are stubbed
+const launch = vi.hoisted(() => ({
+  createUserDataDir: vi.fn(),
+  removeUserDataDir: vi.fn(),
+  startVirtualDisplay: vi.fn(),
+  stopVirtualDisplay: vi.fn(),
+  startElectronApp: vi.fn()
+}));
+vi.mock('../src/utils/electron-detector.js', () => ({
+  detectElectronVersion: vi.fn(),
+  detectPackagedApp: vi.fn(async () => ({ version: '28.3.3', chromiumVersion: '120.0.6099.291', binaryPath: '/opt/app/app', isPackaged: true }))
+}));
+vi.mock('../src/utils/chromedriver.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/utils/chromedriver.js')>(),
+  findChromedriver: vi.fn(() => ({ path: '/drivers/chromedriver', version: '120.0.6099.109' })),
+  resolveChromedriver: vi.fn(() => {
+    throw new Error('No chromedriver for Chromium 120 found');
+  })
+}));
+vi.mock('../src/utils/user-data.js', () => ({
+  createUserDataDir: launch.createUserDataDir,
+  removeUserDataDir: launch.removeUserDataDir
+}));
+vi.mock('../src/utils/virtual-display.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/utils/virtual-display.js')>(),
+  startVirtualDisplay: launch.startVirtualDisplay,
+  stopVirtualDisplay: launch.stopVirtualDisplay
+}));
+vi.mock('../src/utils/electron-launcher.js', () => ({ startElectronApp: launch.startElectronApp }));
+
+const { Context } = await import('../src/context.js');
+const { Session } = await import('../src/session.js');
+const { RESOLVE_DOM_PATH_SCRIPT } = await import('../src/utils/dom-snapshot.js');
+const { SCROLL_INTO_VIEW_SCRIPT } = await import('../src/utils/scroll.js');
+const { ACTIONABILITY_SCRIPT } = await import('../src/utils/actionability.js');
+
+describe('Context sessions', () => {
+  it('has no sessions until one is opened', async () => {
+    const context = new Context();
+    await context.leaveFrame();
+    context.recordAction('electron_click', { ref: 'e1' });
+
+    expect(context.listSessions()).toEqual([]);
+    expect(context.isConnected()).toBe(false);
+    expect(context.getRecordingStatus()).toEqual({ enabled: false, actionCount: 0 });
+  });
+
+  it('does not create sessions for unknown ids', async () => {
+    const context = new Context();
+    const typo = context.forSession('reciever');
+    await typo.leaveFrame();
+
+    expect(typo.isConnected()).toBe(false);
+    expect(() => context.switchSession('reciever')).toThrow(/Session not found: reciever/);
+    await expect(context.closeSession('reciever')).rejects.toThrow(/Session not found/);
+    expect(context.listSessions()).toEqual([]);
+  });
+
+  it('opens the session a recording starts in', () => {
+    const context = new Context();
+    context.forSession('sender').startRecording();
+
+    expect(context.listSessions()).toMatchObject([{ id: 'sender', isCurrent: true, isConnected: false, recordingEnabled: true }]);
+  });
+});
+
+describe('Context launch', () => {
+  const display = { display: ':99' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    launch.createUserDataDir.mockResolvedValue('/tmp/profile');
+    launch.startVirtualDisplay.mockResolvedValue(display);
+  });
+
+  it('removes the profile when the virtual display fails to start', async () => {
+    launch.startVirtualDisplay.mockRejectedValue(new Error('Xvfb is not installed'));
+    const context = new Context();
+
+    await expect(context.launchApp({ binaryPath: '/opt/app/app', isolateUserData: true, headless: true })).rejects.toThrow(/Xvfb/);
+    expect(launch.removeUserDataDir).toHaveBeenCalledWith('/tmp/profile');
+    expect(launch.startElectronApp).not.toHaveBeenCalled();
+    expect(context.listSessions()).toMatchObject([{ id: 'default', isConnected: false, appPath: undefined }]);
+  });
+
+  it('releases the profile and display when the app fails to start', async () => {
+    launch.startElectronApp.mockRejectedValue(new Error('session not created'));
+    const context = new Context();
+
+    await expect(context.launchApp({ binaryPath: '/opt/app/app', isolateUserData: true, headless: true })).rejects.toThrow(/session not created/);
+    expect(launch.startElectronApp).toHaveBeenCalledWith(expect.objectContaining({
+      chromedriverPath: '/drivers/chromedriver',
+      env: { DISPLAY: ':99' }
+    }));
+    expect(launch.removeUserDataDir).toHaveBeenCalledWith('/tmp/profile');
+    expect(launch.stopVirtualDisplay).toHaveBeenCalledWith(display);
+  });
+
+  it('allocates nothing when no chromedriver matches offline', async () => {
+    const context = new Context();
+
+    await expect(context.launchApp({
+      binaryPath: '/opt/app/app',
+      isolateUserData: true,
+      headless: true,
+      chromedriver: { download: false }
+    })).rejects.toThrow(/No chromedriver for Chromium 120/);
+    expect(launch.createUserDataDir).not.toHaveBeenCalled();
+    expect(launch.startVirtualDisplay).not.toHaveBeenCalled();
+  });
+});
+
+// A context whose current session drives the given fake browser
+function connectedContext(browser: Record<string, unknown>, setup: (session: InstanceType<typeof Session>) => void) {
+  const session = new Session('default');
+  session.browser = browser;
+  setup(session);
+  return new Context({ sessions: new Map([['default', session]]), currentId: 'default' });
+}
+
+describe('Context snapshot paging', () => {
+  function contextWithSnapshot() {
+    const browser = { execute: vi.fn() };
+    const context = connectedContext(browser, session => {
+      session.snapshot = snapshot(['e1', 'e2', 'e3', 'e4', 'e5'].map(ref => element(ref)), { timestamp: 1000 });
+      // The first page found e2, e3 and e5 in the viewport
+      session.snapshotMatches = { timestamp: 1000, refs: ['e2', 'e3', 'e5'] };
+    });
+    return { context, browser };
+  }
+
+  it('pages through what the first page matched without checking the viewport again', async () => {
+    const { context, browser } = contextWithSnapshot();
+
+    const page = await context.querySnapshot({ viewportOnly: true, limit: 2, cursor: '1000:2' });
+
+    expect(page.elements.map(el => el.ref)).toEqual(['e5']);
+    expect(page.matched).toBe(3);
+    expect(page.nextCursor).toBeUndefined();
+    expect(browser.execute).not.toHaveBeenCalled();
+  });
+
+  it('rejects cursors from an earlier snapshot', async () => {
+    const { context } = contextWithSnapshot();
+    await expect(context.querySnapshot({ viewportOnly: true, cursor: '999:2' })).rejects.toThrow(/earlier snapshot/);
+  });
+});
+
+describe('Context element refs', () => {
+  const button = { 'element-6066-11e4-a52e-4f735466cecf': 'node-1' };
+
+  function contextWithButton() {
+    const browser = {
+      getWindowHandle: vi.fn(async () => 'handle-1'),
+      execute: vi.fn(async (script: string) => script === RESOLVE_DOM_PATH_SCRIPT ? button : script === ACTIONABILITY_SCRIPT ? {} : undefined)
+    };
+    const context = connectedContext(browser, session => {
+      session.snapshot = snapshot([element('e1', { domPath: 'html[1]/body[1]/button[1]' })]);
+    });
+    const scrolls = () => browser.execute.mock.calls.filter(([script]) => script === SCROLL_INTO_VIEW_SCRIPT);
+    return { context, scrolls };
+  }
+
+  it('leaves the page where it is when only resolving a ref', async () => {
+    const { context, scrolls } = contextWithButton();
+
+    await expect(context.getElementByRef('e1')).resolves.toBe(button);
+    expect(scrolls()).toEqual([]);
+  });
+
+  it('scrolls an element into view before acting on it', async () => {
+    const { context, scrolls } = contextWithButton();
+
+    await expect(context.getActionableElement('e1')).resolves.toBe(button);
+    expect(scrolls()).toEqual([[SCROLL_INTO_VIEW_SCRIPT, button]]);
+  });
+});
+
+describe('Context actionability', () => {
+  const button = { 'element-6066-11e4-a52e-4f735466cecf': 'node-1' };
+  const rerendered = { 'element-6066-11e4-a52e-4f735466cecf': 'node-2' };
+
+  // Answers the actionability checks in turn, repeating the last answer
+  function contextWithChecks(results: Array<Record<string, unknown> | Error>) {
+    const located = [button, rerendered];
+    const browser = {
+      getWindowHandle: vi.fn(async () => 'handle-1'),
+      execute: vi.fn(async (script: string, ..._args: unknown[]) => {
+        if (script === RESOLVE_DOM_PATH_SCRIPT) return located.length > 1 ? located.shift() : located[0];
+        if (script !== ACTIONABILITY_SCRIPT) return undefined;
+        const result = results.length > 1 ? results.shift()! : results[0];
+        if (result instanceof Error) throw result;
+        return result;
+      })
+    };
+    const context = connectedContext(browser, session => {
+      session.snapshot = snapshot([element('e1', { domPath: 'html[1]/body[1]/button[1]' })]);
+      session.attachConfig = { actionTimeout: 300 };
+    });
+    const checked = () => browser.execute.mock.calls.filter(([script]) => script === ACTIONABILITY_SCRIPT).map(call => call[1]);
+    return { context, browser, checked };
+  }
+
+  it('waits for the element to pass the checks', async () => {
+    const { context, checked } = contextWithChecks([{ failed: 'stable', detail: 'it is still moving' }, {}]);
+
+    await expect(context.getActionableElement('e1', { hitTarget: false })).resolves.toBe(button);
+    expect(checked()).toEqual([button, button]);
+  });
+
+  it('passes which checks to run to the page', async () => {
+    const { context, browser } = contextWithChecks([{}]);
+
+    await context.getActionableElement('e1', { enabled: false });
+    expect(browser.execute).toHaveBeenCalledWith(ACTIONABILITY_SCRIPT, button, { enabled: false, hitTarget: true });
+  });
+
+  it('finds a re-rendered element again through its ref', async () => {
+    const { context, checked } = contextWithChecks([new Error('stale element reference: element is not attached'), {}]);
+
+    await expect(context.getActionableElement('e1')).resolves.toBe(rerendered);
+    expect(checked()).toEqual([button, rerendered]);
+  });
+
+  it('reports the last failed check when the timeout runs out', async () => {
+    const { context } = contextWithChecks([{ failed: 'hit', detail: 'it is covered by <div class="overlay">' }]);
+
+    await expect(context.getActionableElement('e1'))
+      .rejects.toThrow('Element e1 is not actionable after 300ms: it is covered by <div class="overlay"> (hit check)');
+  });
+
+  it('does not retry other errors', async () => {
+    const { context, checked } = contextWithChecks([new Error('javascript error: boom')]);
+
+    await expect(context.getActionableElement('e1')).rejects.toThrow('boom');
+    expect(checked()).toHaveLength(1);
+  });
+});
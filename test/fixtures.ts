@@ -0,0 +1,50 @@
+/**
+ * Builders for snapshot data and script runners shared by the unit tests
+ */
+
+import { ElementInfo, PageSnapshot } from '../src/types.js';
+
+export function element(ref: string, overrides: Partial<ElementInfo> = {}): ElementInfo {
+  return {
+    ref,
+    tagName: 'button',
+    text: '',
+    isClickable: true,
+    isVisible: true,
+    isEnabled: true,
+    attributes: {},
+    ...overrides
+  };
+}
+
+export function snapshot(elements: ElementInfo[], overrides: Partial<PageSnapshot> = {}): PageSnapshot {
+  return {
+    title: 'App',
+    url: 'file:///index.html',
+    windowId: 'w1',
+    windowHandle: 'handle-1',
+    mode: 'dom',
+    elements: new Map(elements.map(el => [el.ref, el])),
+    totalElements: elements.length,
+    captureTime: 0,
+    timestamp: Date.now(),
+    ...overrides
+  };
+}
+
+/**
+ * Compile a main-process script (the source of a function taking the electron
+ * module) so it can run against a fake electron module
+ */
+export function mainScript<T = unknown>(source: string): (...args: unknown[]) => T {
+  return new Function(`return (${source})`)();
+}
+
+/**
+ * Compile a renderer script (a function body reading arguments[n]) so it can
+ * run against fake DOM objects
+ */
+export function pageScript<T = unknown>(source: string): (...args: unknown[]) => T {
+  const body = new Function(source);
+  return (...args) => body(...args);
+}
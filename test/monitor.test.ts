@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import { AppMonitor } from '../src/monitor.js';
+import { AppFailure } from '../src/types.js';
+import { mainScript } from './fixtures.js';
+
+class FakeWindow extends EventEmitter {
+  isDestroyed() {
+    return false;
+  }
+}
+
+// A pid no process has (above the kernel's pid_max)
+const DEAD_PID = 2 ** 30;
+
+/**
+ * A session whose main-process scripts run against a fake electron module in
+ * this process, and whose renderer answers (or hangs) through windowSize
+ */
+function fakeApp() {
+  const electron = {
+    app: new EventEmitter(),
+    BrowserWindow: { getAllWindows: () => [window] }
+  };
+  const window = new FakeWindow();
+  const app = {
+    electron,
+    window,
+    pid: process.pid,
+    statusFile: '',
+    windowSize: vi.fn(async () => ({ width: 800, height: 600 })),
+    browser: {
+      capabilities: {},
+      getLogs: vi.fn(async () => []),
+      execute: vi.fn(() => app.windowSize()),
+      electron: {
+        bridgeActive: true,
+        execute: vi.fn(async (script: string, ...args: unknown[]) => {
+          if (script === '() => process.pid') return app.pid;
+          if (args.length) app.statusFile = args[0] as string;
+          return mainScript(script)(electron, ...args);
+        })
+      }
+    }
+  };
+  return app;
+}
+
+function startMonitor(app: ReturnType<typeof fakeApp>) {
+  const failures: AppFailure[] = [];
+  const monitor = new AppMonitor(app.browser, 'test', {
+    checkInterval: 100,
+    hangTimeout: 50,
+    onFailure: failure => failures.push(failure)
+  });
+  return { monitor, failures, started: monitor.start() };
+}
+
+describe('AppMonitor', () => {
+  const originalLog = console.log;
+  let monitor: AppMonitor | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    monitor?.stop();
+    monitor = undefined;
+    (globalThis as { __mcpLifecycle?: { remove(): void } }).__mcpLifecycle?.remove();
+    vi.useRealTimers();
+  });
+
+  it('collects main-process output and takes its hooks out again', async () => {
+    const app = fakeApp();
+    const started = startMonitor(app);
+    monitor = started.monitor;
+    await started.started;
+
+    expect(console.log).not.toBe(originalLog);
+    expect(app.electron.app.listenerCount('render-process-gone')).toBe(1);
+    console.log('main ready');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(monitor.getRecentOutput()).toContain('[main:log] main ready');
+    expect(monitor.lastWindowSize).toEqual({ width: 800, height: 600 });
+
+    monitor.stop();
+    await monitor.removeHooks();
+    expect(console.log).toBe(originalLog);
+    expect(app.electron.app.listenerCount('render-process-gone')).toBe(0);
+    expect(app.window.listenerCount('unresponsive')).toBe(0);
+  });
+
+  it('reports renderer crashes and ignores clean exits', async () => {
+    const app = fakeApp();
+    const started = startMonitor(app);
+    monitor = started.monitor;
+    await started.started;
+
+    app.electron.app.emit('render-process-gone', {}, {}, { reason: 'clean-exit', exitCode: 0 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started.failures).toEqual([]);
+
+    app.electron.app.emit('render-process-gone', {}, {}, { reason: 'oom', exitCode: 9 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started.failures).toMatchObject([{ type: 'oom', reason: 'oom', exitCode: 9 }]);
+    expect(monitor.health).toBe('crashed');
+  });
+
+  it('reports a hang once and does not pile polls onto the hung app', async () => {
+    const app = fakeApp();
+    const started = startMonitor(app);
+    monitor = started.monitor;
+    await started.started;
+
+    app.windowSize.mockImplementation(() => new Promise(() => undefined));
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(started.failures.map(f => f.type)).toEqual(['hang']);
+    expect(monitor.health).toBe('unresponsive');
+    expect(app.browser.execute).toHaveBeenCalledTimes(1);
+
+    // The hooks cannot be taken out while the app is still stuck on the last poll
+    app.browser.electron.execute.mockClear();
+    await monitor.removeHooks();
+    expect(app.browser.electron.execute).not.toHaveBeenCalled();
+  });
+
+  it('tells a clean exit from a crash by the exit status the app wrote', async () => {
+    const app = fakeApp();
+    app.pid = DEAD_PID;
+    const started = startMonitor(app);
+    monitor = started.monitor;
+    await started.started;
+
+    fs.writeFileSync(app.statusFile, JSON.stringify({ exitCode: 0, output: ['[main:log] bye'] }));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(started.failures).toMatchObject([{ type: 'exit', exitCode: 0, lastConsoleOutput: ['[main:log] bye'] }]);
+    expect(monitor.health).toBe('exited');
+    expect(fs.existsSync(app.statusFile)).toBe(false);
+  });
+
+  it('reports a crash when the app ended without writing its exit status', async () => {
+    const app = fakeApp();
+    app.pid = DEAD_PID;
+    const started = startMonitor(app);
+    monitor = started.monitor;
+    await started.started;
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(started.failures).toMatchObject([{ type: 'crash', message: expect.stringMatching(/without running its exit handlers/) }]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Context } from '../../../src/context.js';
+import { ElectronGenerateTestTool } from '../../../src/tools/generator/generate.js';
+import { element } from '../../fixtures.js';
+
+const saveButton = element('e1', { text: 'Save', attributes: { id: 'save' } });
+const emailInput = element('e2', { tagName: 'input', attributes: { name: 'email' } });
+const card = element('e3', { tagName: 'div', text: 'Card', attributes: { 'aria-label': 'Card 1' } });
+const column = element('e4', { tagName: 'div', text: 'Done', attributes: { id: 'done' } });
+
+describe('ElectronGenerateTestTool', () => {
+  const tool = new ElectronGenerateTestTool();
+  let context: Context;
+
+  beforeEach(() => {
+    context = new Context();
+    context.startRecording();
+    context.recordAction('electron_launch', { binaryPath: '/apps/notes' });
+    context.recordAction('electron_click', { ref: 'e1' }, saveButton);
+    context.recordAction('electron_type', { ref: 'e2', text: 'me@example.com', clear: true }, emailInput);
+    context.recordAction('electron_press_key', { keys: ['Control+Shift+P', 'Escape'], mode: 'page' });
+    context.recordAction('electron_drag', { ref: 'e3', targetRef: 'e4', x: 0, y: 0, modifiers: [] }, card, column);
+    context.recordAction('electron_menu_click', { path: ['File', 'Export'], menu: 'application' });
+  });
+
+  const generate = async (format: string) => {
+    const result = await tool.execute(context, { format, testName: 'save_note', appPath: '/apps/notes' });
+    expect(result.isError).toBeFalsy();
+    return result.content;
+  };
+
+  it('generates a WebdriverIO test', async () => {
+    const code = await generate('webdriverio_ts');
+
+    expect(code).toContain("import { remote, Key, Browser } from 'webdriverio';");
+    expect(code).toContain("appBinaryPath: '/apps/notes'");
+    expect(code).toContain("it('save note', async () => {");
+    expect(code).toContain('// App launched: /apps/notes');
+    expect(code).toContain("await browser.$('#save').click();");
+    expect(code).toContain("await browser.$('[name=\"email\"]').setValue('me@example.com');");
+    expect(code).toContain("await browser.keys([Key.Control, Key.Shift, \"P\"]); await browser.keys([Key.Escape]);");
+    expect(code).toContain("await browser.$('[aria-label=\"Card 1\"]').dragAndDrop(await browser.$('#done'));");
+    expect(code).toContain('await browser.electron.execute((electron, path) =>');
+    expect(code).toContain('["File","Export"]);');
+  });
+
+  it('generates a Playwright test', async () => {
+    const code = await generate('playwright_js');
+
+    expect(code).toContain("const { _electron: electron } = require('playwright');");
+    expect(code).toContain("const electronApp = await electron.launch({ executablePath: '/apps/notes' });");
+    expect(code).toContain("await window.click('#save');");
+    expect(code).toContain("await window.fill('[name=\"email\"]', 'me@example.com');");
+    expect(code).toContain("await window.keyboard.press('Control+Shift+P'); await window.keyboard.press('Escape');");
+    expect(code).toContain("await window.dragAndDrop('[aria-label=\"Card 1\"]', '#done');");
+    expect(code).toContain('await electronApp.evaluate((electron, path) =>');
+  });
+
+  it('holds modifiers around pointer actions', async () => {
+    context.clearRecording();
+    context.recordAction('electron_double_click', { ref: 'e1', modifiers: ['Shift', 'Meta'] }, saveButton);
+
+    expect(await generate('webdriverio_js')).toContain(
+      "await browser.action('key').down(Key.Shift).down(Key.Command).perform(true); await browser.$('#save').doubleClick(); await browser.releaseActions();"
+    );
+    expect(await generate('playwright_ts')).toContain("await window.dblclick('#save', { modifiers: [\"Shift\",\"Meta\"] });");
+  });
+
+  it('only brings a scroll target into view when it was already rendered', async () => {
+    context.clearRecording();
+    context.recordAction('electron_scroll', { untilText: 'Row 5' });
+
+    expect(await generate('webdriverio_js')).toContain('await browser.$("//*[contains(text(), \\"Row 5\\")]").scrollIntoView();');
+    const playwright = await generate('playwright_js');
+    expect(playwright).toContain('await window.getByText("Row 5").first().scrollIntoViewIfNeeded();');
+    expect(playwright).not.toContain('mouse.wheel');
+  });
+
+  it('repeats the recorded scroll step until the target is rendered', async () => {
+    context.clearRecording();
+    context.recordAction('electron_scroll', { deltaX: 0, deltaY: 400, untilSelector: '#row-500', maxScrolls: 50 });
+
+    expect(await generate('playwright_js')).toContain(
+      'for (let i = 0; i < 50 && (await window.locator("#row-500").count()) === 0; i++) { await window.mouse.wheel(0, 400);'
+    );
+  });
+
+  it('fails without recorded actions', async () => {
+    context.clearRecording();
+    const result = await tool.execute(context, { format: 'webdriverio_js' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toMatch(/No actions recorded/);
+  });
+});
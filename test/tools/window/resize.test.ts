@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Context } from '../../../src/context.js';
+import { Session } from '../../../src/session.js';
+import { ResizeWindowTool } from '../../../src/tools/window/resize.js';
+
+// An app without the wdio-electron-service hooks, e.g. one attached over its debugging port
+function contextWithoutBridge(windowSize: { width: number; height: number }) {
+  const browser = {
+    electron: { bridgeActive: false },
+    setWindowSize: vi.fn(),
+    setWindowRect: vi.fn(),
+    execute: vi.fn(async () => ({ x: 10, y: 20, ...windowSize }))
+  };
+  const session = new Session('default');
+  session.browser = browser;
+  return { context: new Context({ sessions: new Map([['default', session]]), currentId: 'default' }), browser };
+}
+
+describe('electron_resize_window', () => {
+  it('falls back to WebDriver and reports the resulting bounds', async () => {
+    const { context, browser } = contextWithoutBridge({ width: 1024, height: 768 });
+
+    const result = await new ResizeWindowTool().execute(context, { width: 1024, height: 768, x: 10, y: 20 });
+
+    expect(result.isError).toBeFalsy();
+    expect(browser.setWindowSize).toHaveBeenCalledWith(1024, 768);
+    expect(browser.setWindowRect).toHaveBeenCalledWith(10, 20, null, null);
+    expect(result.content).toContain('Window resized to 1024x768');
+    expect(result.content).toContain('Bounds: 1024x768 at 10,20 (resized through WebDriver');
+  });
+
+  it('says when the window did not take the size', async () => {
+    const { context, browser } = contextWithoutBridge({ width: 800, height: 600 });
+
+    const result = await new ResizeWindowTool().execute(context, { width: 1024, height: 768 });
+
+    expect(browser.setWindowRect).not.toHaveBeenCalled();
+    expect(result.content).toContain('Requested 1024x768, but the window is 800x600');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Context } from '../../../src/context.js';
+import { Session } from '../../../src/session.js';
+import { ElectronWindowStateTool } from '../../../src/tools/window/state.js';
+import { WindowBounds } from '../../../src/types.js';
+import { mainScript } from '../../fixtures.js';
+
+// A BrowserWindow under a window manager that may refuse some changes
+class FakeBrowserWindow {
+  bounds: WindowBounds = { x: 0, y: 0, width: 800, height: 600 };
+  minimized = false;
+  maximized = false;
+  fullScreen = false;
+  refuses = new Set<string>();
+  webContents: { executeJavaScript: () => Promise<unknown> };
+
+  constructor(readonly id: number, marker: string) {
+    this.webContents = { executeJavaScript: async () => marker };
+  }
+
+  getTitle() { return `Window ${this.id}`; }
+  getBounds() { return this.bounds; }
+  getContentBounds() { return this.bounds; }
+  setBounds(bounds: Partial<WindowBounds>) {
+    if (!this.refuses.has('bounds')) this.bounds = { ...this.bounds, ...bounds };
+  }
+  isMinimized() { return this.minimized; }
+  minimize() { this.minimized = true; }
+  restore() { this.minimized = false; }
+  isMaximized() { return this.maximized; }
+  maximize() { if (!this.refuses.has('maximize')) this.maximized = true; }
+  unmaximize() { this.maximized = false; }
+  isFullScreen() { return this.fullScreen; }
+  setFullScreen(enabled: boolean) { this.fullScreen = enabled; }
+  isFocused() { return true; }
+  isVisible() { return true; }
+  isAlwaysOnTop() { return false; }
+}
+
+function contextWithWindows() {
+  const other = new FakeBrowserWindow(1, 'handle-other');
+  const active = new FakeBrowserWindow(2, 'handle-active');
+  const electron = { BrowserWindow: { getAllWindows: () => [other, active] } };
+  const browser = {
+    electron: {
+      bridgeActive: true,
+      execute: vi.fn(async (script: string, ...args: unknown[]) => mainScript(script)(electron, ...args))
+    },
+    getWindowHandle: async () => 'handle-active',
+    execute: vi.fn()
+  };
+  const session = new Session('default');
+  session.browser = browser;
+  const context = new Context({ sessions: new Map([['default', session]]), currentId: 'default' });
+  return { context, active, other, browser };
+}
+
+describe('electron_window_state', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('changes the BrowserWindow showing the active WebDriver window', async () => {
+    const { context, active, other } = contextWithWindows();
+    active.maximized = true;
+
+    const result = await new ElectronWindowStateTool().execute(context, { action: 'set_bounds', width: 1024, x: 40 });
+
+    expect(result.isError).toBeFalsy();
+    expect(active.bounds).toEqual({ x: 40, y: 0, width: 1024, height: 600 });
+    expect(active.maximized).toBe(false);
+    expect(other.bounds).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+    expect(result.content).toContain('Window set bounds applied.');
+    expect(result.content).toContain('BrowserWindow 2 "Window 2"');
+  });
+
+  it('needs at least one bound for set_bounds', async () => {
+    const { context, browser } = contextWithWindows();
+
+    const result = await new ElectronWindowStateTool().execute(context, { action: 'set_bounds' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('set_bounds needs at least one of x, y, width, height');
+    expect(browser.electron.execute).not.toHaveBeenCalled();
+  });
+
+  it('reports the state the window manager left when it refuses a change', async () => {
+    vi.useFakeTimers();
+    const { context, active } = contextWithWindows();
+    active.refuses.add('bounds');
+
+    const pending = new ElectronWindowStateTool().execute(context, { action: 'set_bounds', width: 1024, height: 600 });
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await pending;
+
+    expect(result.content).toContain('Requested set_bounds, but the window ended up at 800x600 at 0,0 (width differ)');
+  });
+
+  it('says so when the window does not maximize', async () => {
+    vi.useFakeTimers();
+    const { context, active } = contextWithWindows();
+    active.refuses.add('maximize');
+
+    const pending = new ElectronWindowStateTool().execute(context, { action: 'maximize' });
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await pending;
+
+    expect(result.content).toContain('Requested maximize, but the window is not maximized');
+  });
+
+  it('fails when no BrowserWindow carries the marker', async () => {
+    const { context, active, other } = contextWithWindows();
+    active.webContents.executeJavaScript = other.webContents.executeJavaScript;
+
+    const result = await new ElectronWindowStateTool().execute(context, { action: 'get' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('Could not find the BrowserWindow showing the active window');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { ACTIONABILITY_SCRIPT, ActionabilityResult } from '../../src/utils/actionability.js';
+import { pageScript } from '../fixtures.js';
+
+interface Rect {
+  x: number;
+  y: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const rect = (left: number, top: number, width: number, height: number): Rect => ({ x: left, y: top, left, top, width, height });
+
+// The page: what a click at a point hits, and a window of 1000x800
+const page = {
+  hit: null as FakeElement | null,
+  elementFromPoint: () => page.hit,
+  defaultView: {
+    innerWidth: 1000,
+    innerHeight: 800,
+    requestAnimationFrame: (callback: () => void) => setTimeout(callback, 0),
+    getComputedStyle: (el: FakeElement) => ({ visibility: el.visibility })
+  }
+};
+
+class FakeElement {
+  isConnected = true;
+  visibility = 'visible';
+  displayed = true;
+  disabled = false;
+  ariaDisabled = false;
+  id = '';
+  className = '';
+  innerText = '';
+  control: FakeElement | null = null;
+  parentElement: FakeElement | null = null;
+  parentNode = null;
+  ownerDocument = page;
+  rects: Rect[];
+
+  constructor(readonly tagName: string, ...rects: Rect[]) {
+    this.rects = rects.length ? rects : [rect(100, 100, 80, 20)];
+  }
+
+  // A moving element reports its rects in turn: one for the size check, then one per frame
+  getBoundingClientRect() {
+    return this.rects.length > 1 ? this.rects.shift()! : this.rects[0];
+  }
+
+  checkVisibility() { return this.displayed; }
+  matches(selector: string) { return selector === ':disabled' && this.disabled; }
+  getRootNode() { return page; }
+
+  closest(): FakeElement | null {
+    for (let node: FakeElement | null = this; node; node = node.parentElement) {
+      if (node.ariaDisabled) return node;
+    }
+    return null;
+  }
+}
+
+const check = pageScript<Promise<ActionabilityResult>>(ACTIONABILITY_SCRIPT);
+const all = { enabled: true, hitTarget: true };
+
+function button() {
+  const el = new FakeElement('BUTTON');
+  page.hit = el;
+  return el;
+}
+
+describe('actionability checks', () => {
+  it('passes an element a click would reach, including through its children', async () => {
+    const el = button();
+    await expect(check(el, all)).resolves.toEqual({});
+
+    const icon = new FakeElement('SPAN');
+    icon.parentElement = el;
+    page.hit = icon;
+    await expect(check(el, all)).resolves.toEqual({});
+  });
+
+  it('fails detached, hidden and empty elements', async () => {
+    const detached = Object.assign(button(), { isConnected: false });
+    await expect(check(detached, all)).resolves.toEqual({ failed: 'attached', detail: 'it was removed from the page' });
+
+    const hidden = Object.assign(button(), { displayed: false });
+    await expect(check(hidden, all)).resolves.toMatchObject({ failed: 'visible', detail: expect.stringMatching(/hidden by display or visibility/) });
+
+    const empty = new FakeElement('BUTTON', rect(100, 100, 0, 20));
+    await expect(check(empty, all)).resolves.toEqual({ failed: 'visible', detail: 'it has no size' });
+  });
+
+  it('checks enabled only when asked', async () => {
+    const disabled = Object.assign(button(), { disabled: true });
+    await expect(check(disabled, all)).resolves.toEqual({ failed: 'enabled', detail: 'it is disabled' });
+    await expect(check(disabled, { enabled: false, hitTarget: true })).resolves.toEqual({});
+
+    const toolbar = Object.assign(new FakeElement('DIV'), { ariaDisabled: true });
+    const inToolbar = Object.assign(button(), { parentElement: toolbar });
+    await expect(check(inToolbar, all)).resolves.toEqual({ failed: 'enabled', detail: 'it is inside an element with aria-disabled="true"' });
+  });
+
+  it('fails elements that move between frames', async () => {
+    const sliding = new FakeElement('BUTTON', rect(0, 100, 80, 20), rect(0, 100, 80, 20), rect(40, 100, 80, 20));
+    page.hit = sliding;
+
+    await expect(check(sliding, all)).resolves.toMatchObject({ failed: 'stable' });
+  });
+
+  it('names what covers the element', async () => {
+    const el = button();
+    page.hit = Object.assign(new FakeElement('DIV'), { className: 'modal-backdrop  fade show in', innerText: ' Saving\n changes… ' });
+
+    await expect(check(el, all)).resolves.toEqual({
+      failed: 'hit',
+      detail: 'it is covered by <div class="modal-backdrop fade show"> "Saving changes…" at its centre (140, 110)'
+    });
+    await expect(check(el, { enabled: true, hitTarget: false })).resolves.toEqual({});
+  });
+
+  it('accepts clicks on a label of the element, and fails centres outside the window', async () => {
+    const checkbox = button();
+    page.hit = Object.assign(new FakeElement('LABEL'), { control: checkbox });
+    await expect(check(checkbox, all)).resolves.toEqual({});
+
+    const offscreen = new FakeElement('BUTTON', rect(990, 100, 80, 20));
+    await expect(check(offscreen, all)).resolves.toEqual({ failed: 'hit', detail: 'its centre is outside the viewport' });
+  });
+});
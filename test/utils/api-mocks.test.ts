@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { apiMockKey, buildMockScript, GET_MOCK_CALLS_SCRIPT, RESET_MOCK_SCRIPT, RESTORE_MOCK_SCRIPT } from '../../src/utils/api-mocks.js';
+import { ApiMock } from '../../src/types.js';
+import { mainScript } from '../fixtures.js';
+
+class Notification {
+  constructor(readonly title: string) {}
+
+  show() {
+    return `shown ${this.title}`;
+  }
+}
+
+class BrowserWindow {
+  constructor(readonly id: number) {}
+}
+
+const showMessageBox = async () => ({ response: 1 });
+const electron = {
+  dialog: { showMessageBox },
+  Notification
+};
+
+const getCalls = mainScript<Array<{ args: unknown[] }>>(GET_MOCK_CALLS_SCRIPT);
+const resetMock = mainScript(RESET_MOCK_SCRIPT);
+const restoreMock = mainScript<boolean>(RESTORE_MOCK_SCRIPT);
+
+function install(mock: Omit<ApiMock, 'createdAt'>) {
+  return mainScript(buildMockScript({ ...mock, createdAt: 0 }))(electron, mock.api, mock.method, mock.mode, mock.value);
+}
+
+describe('api mocks', () => {
+  afterEach(() => {
+    restoreMock(electron, apiMockKey('dialog', 'showMessageBox'));
+    restoreMock(electron, apiMockKey('Notification', 'show'));
+  });
+
+  it('resolves the canned value and records the calls', async () => {
+    install({ api: 'dialog', method: 'showMessageBox', mode: 'resolve', value: { response: 0 } });
+
+    await expect(electron.dialog.showMessageBox()).resolves.toEqual({ response: 0 });
+    expect(getCalls(electron, 'dialog.showMessageBox')).toMatchObject([{ args: [] }]);
+  });
+
+  it('summarizes windows and functions in the recorded arguments', () => {
+    install({ api: 'dialog', method: 'showMessageBox', mode: 'return', value: null });
+
+    (electron.dialog.showMessageBox as (...args: unknown[]) => unknown)(new BrowserWindow(3), { callback: () => undefined });
+    expect(getCalls(electron, 'dialog.showMessageBox')[0].args).toEqual(['[BrowserWindow 3]', { callback: '[Function]' }]);
+  });
+
+  it('rejects with the value as the message', async () => {
+    install({ api: 'dialog', method: 'showMessageBox', mode: 'reject', value: 'Cancelled' });
+
+    await expect(electron.dialog.showMessageBox()).rejects.toThrow('Cancelled');
+  });
+
+  it('mocks classes on their prototype and runs implementations with this', () => {
+    install({ api: 'Notification', method: 'show', mode: 'implementation', implementation: 'function () { return "mocked " + this.title; }' });
+
+    expect(new Notification('Saved').show()).toBe('mocked Saved');
+  });
+
+  it('keeps the real function when a mock is replaced, and puts it back', () => {
+    install({ api: 'dialog', method: 'showMessageBox', mode: 'return', value: 1 });
+    install({ api: 'dialog', method: 'showMessageBox', mode: 'return', value: 2 });
+    expect(electron.dialog.showMessageBox()).toBe(2);
+
+    expect(restoreMock(electron, 'dialog.showMessageBox')).toBe(true);
+    expect(electron.dialog.showMessageBox).toBe(showMessageBox);
+    expect(restoreMock(electron, 'dialog.showMessageBox')).toBe(false);
+  });
+
+  it('clears recorded calls on reset', () => {
+    install({ api: 'dialog', method: 'showMessageBox', mode: 'return', value: null });
+    electron.dialog.showMessageBox();
+
+    resetMock(electron, 'dialog.showMessageBox');
+    expect(getCalls(electron, 'dialog.showMessageBox')).toEqual([]);
+  });
+
+  it('refuses apis and methods the electron module does not have', () => {
+    expect(() => install({ api: 'tray', method: 'setTitle', mode: 'return' })).toThrow('electron.tray does not exist');
+    expect(() => install({ api: 'dialog', method: 'showPrompt', mode: 'return' })).toThrow('electron.dialog.showPrompt is not a function');
+    expect(() => getCalls(electron, 'dialog.showOpenDialog')).toThrow('electron.dialog.showOpenDialog is not mocked');
+  });
+});
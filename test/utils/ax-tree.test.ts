@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { buildAXSnapshot, attachFrameAXTree, formatAXTree, CDPAXNode, CDPDOMNode } from '../../src/utils/ax-tree.js';
+
+const ELEMENT = 1;
+const DOCUMENT = 9;
+
+// <html><body><button id="save">Save</button><iframe id="login"> <input name="email"> </iframe><webview src="..."></body></html>
+function domTree(): CDPDOMNode {
+  return {
+    backendNodeId: 1, nodeType: DOCUMENT, nodeName: '#document', children: [{
+      backendNodeId: 2, nodeType: ELEMENT, nodeName: 'HTML', children: [{
+        backendNodeId: 3, nodeType: ELEMENT, nodeName: 'BODY', children: [
+          { backendNodeId: 4, nodeType: ELEMENT, nodeName: 'BUTTON', attributes: ['id', 'save', 'style', 'color: red'] },
+          {
+            backendNodeId: 5, nodeType: ELEMENT, nodeName: 'IFRAME', attributes: ['id', 'login', 'src', 'login.html'],
+            contentDocument: {
+              backendNodeId: 10, nodeType: DOCUMENT, nodeName: '#document', children: [{
+                backendNodeId: 11, nodeType: ELEMENT, nodeName: 'HTML', children: [{
+                  backendNodeId: 12, nodeType: ELEMENT, nodeName: 'BODY', children: [
+                    { backendNodeId: 13, nodeType: ELEMENT, nodeName: 'INPUT', attributes: ['name', 'email', 'aria-label', 'Email'] }
+                  ]
+                }]
+              }]
+            }
+          },
+          { backendNodeId: 6, nodeType: ELEMENT, nodeName: 'WEBVIEW', attributes: ['src', 'https://docs.example.com/'] }
+        ]
+      }]
+    }]
+  };
+}
+
+function axNodes(): CDPAXNode[] {
+  return [
+    { nodeId: '1', ignored: false, role: { type: 'role', value: 'RootWebArea' }, childIds: ['2'], backendDOMNodeId: 1 },
+    { nodeId: '2', parentId: '1', ignored: false, role: { type: 'role', value: 'generic' }, childIds: ['3', '5'], backendDOMNodeId: 3 },
+    {
+      nodeId: '3', parentId: '2', ignored: false, role: { type: 'role', value: 'button' }, name: { type: 'string', value: 'Save' },
+      properties: [{ name: 'focusable', value: { type: 'boolean', value: true } }], childIds: ['4'], backendDOMNodeId: 4
+    },
+    { nodeId: '4', parentId: '3', ignored: false, role: { type: 'role', value: 'StaticText' }, name: { type: 'string', value: 'Save' } },
+    { nodeId: '5', parentId: '2', ignored: false, role: { type: 'role', value: 'Iframe' }, childIds: [], backendDOMNodeId: 5 }
+  ];
+}
+
+// The iframe's own AX tree, with node ids that clash with the top document's
+function frameAXNodes(): CDPAXNode[] {
+  return [
+    { nodeId: '1', ignored: false, role: { type: 'role', value: 'RootWebArea' }, childIds: ['2'], backendDOMNodeId: 10 },
+    {
+      nodeId: '2', parentId: '1', ignored: false, role: { type: 'role', value: 'textbox' }, name: { type: 'string', value: 'Email' },
+      properties: [
+        { name: 'focused', value: { type: 'boolean', value: true } },
+        { name: 'required', value: { type: 'boolean', value: true } }
+      ],
+      backendDOMNodeId: 13
+    }
+  ];
+}
+
+describe('buildAXSnapshot', () => {
+  it('gives actionable nodes refs with their DOM details', () => {
+    const { elements } = buildAXSnapshot(axNodes(), domTree());
+
+    expect(elements.get('e1')).toMatchObject({
+      ref: 'e1',
+      tagName: 'button',
+      role: 'button',
+      text: 'Save',
+      accessibleName: 'Save',
+      attributes: { id: 'save' },
+      domPath: 'html[1]/body[1]/button[1]',
+      backendNodeId: 4,
+      isEnabled: true
+    });
+    expect(elements.get('e1')?.frames).toBeUndefined();
+  });
+
+  it('flattens generic containers and drops text that repeats the name', () => {
+    const { tree } = buildAXSnapshot(axNodes(), domTree());
+
+    expect(tree).toEqual([
+      { role: 'button', name: 'Save', value: undefined, description: undefined, states: [], ref: 'e1', children: [] },
+      { role: 'Iframe', name: undefined, value: undefined, description: undefined, states: [], ref: undefined, children: [] }
+    ]);
+  });
+
+  it('lists webviews with their path and label', () => {
+    const { webviews } = buildAXSnapshot(axNodes(), domTree());
+
+    expect(webviews).toEqual([{
+      frames: [],
+      segment: { type: 'webview', domPath: 'html[1]/body[1]/webview[1]', label: 'webview (https://docs.example.com/)' }
+    }]);
+  });
+});
+
+describe('attachFrameAXTree', () => {
+  it('hangs the frame tree below its iframe, keeping node ids apart', () => {
+    const nodes = axNodes();
+    attachFrameAXTree(nodes, 5, 'F1', frameAXNodes());
+
+    const iframe = nodes.find(node => node.nodeId === '5')!;
+    expect(iframe.childIds).toEqual(['F1:1']);
+    expect(nodes.find(node => node.nodeId === 'F1:2')).toMatchObject({ parentId: 'F1:1' });
+    expect(nodes.find(node => node.nodeId === 'F1:1')).toMatchObject({ parentId: '5', childIds: ['F1:2'] });
+  });
+
+  it('gives frame elements refs that carry the frame', () => {
+    const nodes = axNodes();
+    attachFrameAXTree(nodes, 5, 'F1', frameAXNodes());
+    const { elements, tree } = buildAXSnapshot(nodes, domTree());
+
+    expect(elements.get('e2')).toMatchObject({
+      tagName: 'input',
+      role: 'textbox',
+      accessibleName: 'Email',
+      ariaLabel: 'Email',
+      attributes: { name: 'email' },
+      focused: true,
+      domPath: 'html[1]/body[1]/input[1]',
+      frames: [{ type: 'iframe', domPath: 'html[1]/body[1]/iframe[1]', label: 'iframe#login (login.html)' }]
+    });
+    expect(formatAXTree(tree)).toEqual([
+      '- button "Save" [ref=e1]',
+      '- Iframe',
+      '  - textbox "Email" [ref=e2] [focused] [required]'
+    ]);
+  });
+
+  it('does nothing when the iframe has no AX node', () => {
+    const nodes = axNodes();
+    attachFrameAXTree(nodes, 99, 'F1', frameAXNodes());
+    expect(nodes).toEqual(axNodes());
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { controlKind, SELECT_OPTIONS_SCRIPT, CONTROL_STATE_SCRIPT } from '../../src/utils/controls.js';
+import { ElectronSetControlTool } from '../../src/tools/elements/set-control.js';
+import { Context } from '../../src/context.js';
+import { element, snapshot, pageScript } from '../fixtures.js';
+
+interface FakeOption {
+  value: string;
+  label: string;
+  disabled: boolean;
+  selected: boolean;
+}
+
+function fakeSelect(labels: string[], multiple = false) {
+  const options: FakeOption[] = labels.map((label, i) => ({ value: `v${i}`, label, disabled: label.startsWith('('), selected: i === 0 }));
+  return { options, multiple, events: [] as string[], dispatchEvent(event: Event) { this.events.push(event.type); } };
+}
+
+const selectOptions = pageScript<{ selected?: string[]; error?: string }>(SELECT_OPTIONS_SCRIPT);
+
+describe('controlKind', () => {
+  it('tells controls apart by tag, input type and role', () => {
+    expect(controlKind(element('e1', { tagName: 'SELECT' }))).toBe('select');
+    expect(controlKind(element('e1', { tagName: 'input', attributes: { type: 'Checkbox' } }))).toBe('checkbox');
+    expect(controlKind(element('e1', { tagName: 'input', attributes: { type: 'date' } }))).toBe('input');
+    expect(controlKind(element('e1', { tagName: 'div', role: 'switch' }))).toBe('checkbox');
+    expect(controlKind(element('e1', { tagName: 'div', role: 'spinbutton' }))).toBe('slider');
+    expect(controlKind(element('e1', { tagName: 'input', role: 'combobox', attributes: { type: 'text' } }))).toBe('combobox');
+  });
+
+  it('leaves text fields and buttons to other tools', () => {
+    expect(controlKind(element('e1', { tagName: 'input', attributes: { type: 'text' } }))).toBeNull();
+    expect(controlKind(element('e1'))).toBeNull();
+  });
+});
+
+describe('selecting options', () => {
+  it('matches values first, then labels ignoring case, and fires input and change', () => {
+    const select = fakeSelect(['Small', 'Medium', 'Large']);
+
+    expect(selectOptions(select, [' medium '])).toEqual({ selected: ['Medium'] });
+    expect(select.options.map(o => o.selected)).toEqual([false, true, false]);
+    expect(select.events).toEqual(['input', 'change']);
+
+    expect(selectOptions(select, ['v2'])).toEqual({ selected: ['Large'] });
+  });
+
+  it('explains options it cannot pick and leaves the selection alone', () => {
+    const select = fakeSelect(['Small', '(Sold out)']);
+
+    expect(selectOptions(select, ['Huge'])).toEqual({ error: 'No option "Huge". Options: Small, (Sold out)' });
+    expect(selectOptions(select, ['Small', '(Sold out)'])).toEqual({ error: 'The select only takes one option' });
+    expect(selectOptions(select, ['(sold out)'])).toEqual({ error: 'Option "(Sold out)" is disabled' });
+    expect(select.options[0].selected).toBe(true);
+    expect(select.events).toEqual([]);
+  });
+});
+
+describe('electron_set_control sliders', () => {
+  // A custom slider that moves by 10 per arrow key within 0..50
+  function contextWithSlider(valueNow: number) {
+    const slider = { valueNow };
+    const pressKeys = vi.fn(async ([{ key }]: Array<{ key: string }>) => {
+      slider.valueNow = Math.min(50, Math.max(0, slider.valueNow + (key === 'ArrowUp' ? 10 : -10)));
+    });
+    const context = {
+      isConnected: () => true,
+      getSnapshot: async () => snapshot([element('e1', { tagName: 'div', role: 'slider' })]),
+      getActionableElement: async () => ({}),
+      executeOnElement: async (script: string) => {
+        expect(script).toBe(CONTROL_STATE_SCRIPT);
+        return { checked: null, value: String(slider.valueNow), valueNow: slider.valueNow };
+      },
+      focusElement: vi.fn(),
+      pressKeys,
+      recordAction: vi.fn()
+    };
+    return { context: context as unknown as Context, pressKeys, recordAction: context.recordAction };
+  }
+
+  it('presses arrow keys until the value is reached', async () => {
+    const { context, pressKeys, recordAction } = contextWithSlider(40);
+
+    const result = await new ElectronSetControlTool().execute(context, { ref: 'e1', value: 10 });
+
+    expect(result.content).toBe('Set slider e1 (value: "10")');
+    expect(pressKeys).toHaveBeenCalledTimes(3);
+    expect(recordAction.mock.calls[0][1]).toMatchObject({ kind: 'slider', key: 'ArrowDown', count: 3 });
+  });
+
+  it('stops at the end of the range', async () => {
+    const { context, pressKeys } = contextWithSlider(30);
+
+    const result = await new ElectronSetControlTool().execute(context, { ref: 'e1', value: 100 });
+
+    expect(result.content).toBe('Set slider e1 (value: "50")');
+    expect(pressKeys).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { resolveDebuggerEndpoint } from '../../src/utils/debugger-endpoint.js';
+
+// Answers /json/version like a DevTools endpoint, with the Browser field given per port
+async function startEndpoint(browser: string): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.url !== '/json/version') {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ Browser: browser, webSocketDebuggerUrl: 'ws://127.0.0.1/devtools/browser/abc' }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+const portOf = (server: http.Server) => (server.address() as AddressInfo).port;
+
+describe('resolveDebuggerEndpoint', () => {
+  let chromium: http.Server;
+  let inspector: http.Server;
+
+  beforeAll(async () => {
+    chromium = await startEndpoint('Chrome/120.0.6099.291');
+    inspector = await startEndpoint('node.js/v18.18.2');
+  });
+
+  afterAll(() => {
+    chromium.close();
+    inspector.close();
+  });
+
+  it('resolves host and port, reading the Chromium major version', async () => {
+    const port = portOf(chromium);
+    await expect(resolveDebuggerEndpoint({ host: '127.0.0.1', port })).resolves.toEqual({
+      address: `127.0.0.1:${port}`,
+      chromiumVersion: '120',
+      browser: 'Chrome/120.0.6099.291'
+    });
+  });
+
+  it('defaults the host to 127.0.0.1', async () => {
+    const port = portOf(chromium);
+    expect((await resolveDebuggerEndpoint({ port })).address).toBe(`127.0.0.1:${port}`);
+  });
+
+  it('takes the address from a websocket URL', async () => {
+    const port = portOf(chromium);
+    const endpoint = await resolveDebuggerEndpoint({ wsEndpoint: `ws://127.0.0.1:${port}/devtools/browser/abc` });
+    expect(endpoint.address).toBe(`127.0.0.1:${port}`);
+  });
+
+  it('rejects a Node.js inspector port', async () => {
+    await expect(resolveDebuggerEndpoint({ port: portOf(inspector) })).rejects.toThrow(/Node\.js inspector .*--remote-debugging-port/);
+  });
+
+  it('explains how to start the app when nothing listens', async () => {
+    const closed = await startEndpoint('Chrome/120.0.0.0');
+    const port = portOf(closed);
+    await new Promise(resolve => closed.close(resolve));
+
+    await expect(resolveDebuggerEndpoint({ port })).rejects.toThrow(`Start the app with --remote-debugging-port=${port}`);
+  });
+
+  it('rejects bad or missing addresses before connecting', async () => {
+    await expect(resolveDebuggerEndpoint({ wsEndpoint: 'not a url' })).rejects.toThrow(/Invalid websocket URL/);
+    await expect(resolveDebuggerEndpoint({ wsEndpoint: 'ws://localhost/devtools/browser/abc' })).rejects.toThrow(/has no port/);
+    await expect(resolveDebuggerEndpoint({})).rejects.toThrow(/Either port or wsEndpoint/);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// The version probe runs the binary; these tests only check when and how it would
+const execFile = vi.hoisted(() => vi.fn());
+vi.mock('child_process', async importOriginal => ({
+  ...await importOriginal<typeof import('child_process')>(),
+  execFile
+}));
+
+const { readVersionFromBinary, resolveChromiumVersion, detectPackagedApp } = await import('../../src/utils/electron-detector.js');
+
+const FUSE_SENTINEL = 'dL7pKGdnNz796PbbjQWNKmHXBZaB9tsX';
+
+describe('electron-detector', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-detector-test-'));
+    execFile.mockReset();
+    execFile.mockImplementation((_file, _args, _options, callback) => callback(new Error('probe failed')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeBinary = (name: string, ...parts: Array<string | Buffer>) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : part)));
+    fs.chmodSync(file, 0o755);
+    return file;
+  };
+
+  describe('readVersionFromBinary', () => {
+    it('finds the version in the user agent string', async () => {
+      const binary = writeBinary('electron', '\0\0Mozilla/5.0 Chrome/120.0.6099.291 Electron/28.3.3 Safari/537.36\0');
+      await expect(readVersionFromBinary(binary)).resolves.toBe('28.3.3');
+    });
+
+    it('finds a version split across scan chunks', async () => {
+      // Chunks are 8 MB; the string starts a few bytes before the boundary
+      const binary = writeBinary('electron', Buffer.alloc(8 * 1024 * 1024 - 5), 'Electron/30.1.2 ');
+      await expect(readVersionFromBinary(binary)).resolves.toBe('30.1.2');
+    });
+
+    it('returns null when there is no version', async () => {
+      await expect(readVersionFromBinary(writeBinary('electron', 'no version here'))).resolves.toBeNull();
+    });
+
+    it('scans a binary again only after it changes', async () => {
+      const binary = writeBinary('electron', 'Electron/28.3.3');
+      await expect(readVersionFromBinary(binary)).resolves.toBe('28.3.3');
+
+      fs.writeFileSync(binary, 'Electron/30.1.2');
+      fs.utimesSync(binary, new Date(), new Date(Date.now() + 60000));
+      await expect(readVersionFromBinary(binary)).resolves.toBe('30.1.2');
+    });
+  });
+
+  describe('resolveChromiumVersion', () => {
+    it('asks the binary first, and only once', async () => {
+      execFile.mockImplementation((_file, _args, _options, callback) =>
+        callback(null, { stdout: JSON.stringify({ electron: '31.0.0', chrome: '126.0.6478.36' }), stderr: '' }));
+      const binary = writeBinary('electron', 'Chrome/124.0.6367.243');
+
+      await expect(resolveChromiumVersion(binary, '31.0.0')).resolves.toBe('126.0.6478.36');
+      await expect(resolveChromiumVersion(binary, '31.0.0')).resolves.toBe('126.0.6478.36');
+      expect(execFile).toHaveBeenCalledTimes(1);
+      expect(execFile.mock.calls[0][2]).toMatchObject({ env: expect.objectContaining({ ELECTRON_RUN_AS_NODE: '1' }) });
+    });
+
+    it('falls back to the full version embedded in the binary when it cannot be run', async () => {
+      const binary = writeBinary('electron', 'Chrome/124.0.6367.243 Electron/30.1.2');
+      await expect(resolveChromiumVersion(binary, '30.1.2')).resolves.toBe('124.0.6367.243');
+      expect(execFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not run binaries whose RunAsNode fuse is disabled', async () => {
+      const binary = writeBinary('app', `${FUSE_SENTINEL}\x01\x06010011`);
+      await expect(resolveChromiumVersion(binary, '28.3.3')).resolves.toBe('120');
+      expect(execFile).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the Electron to Chromium major version map', async () => {
+      await expect(resolveChromiumVersion(null, '28.3.3')).resolves.toBe('120');
+      await expect(resolveChromiumVersion(null, '38.0.0')).resolves.toBe('140');
+      await expect(resolveChromiumVersion(null, '5.0.0')).resolves.toBeUndefined();
+      await expect(resolveChromiumVersion(null)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('detectPackagedApp', () => {
+    it('reads an unpacked build from its binary without running it when RunAsNode is disabled', async () => {
+      const binary = writeBinary('my-app', Buffer.alloc(1024), 'Chrome/124.0.6367.243 Electron/30.1.2', `${FUSE_SENTINEL}\x01\x06010011`);
+      writeBinary('chrome-sandbox', 'helper');
+      fs.mkdirSync(path.join(dir, 'resources', 'app'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'resources', 'app', 'package.json'), JSON.stringify({ name: 'my-app', main: 'main.js' }));
+
+      await expect(detectPackagedApp(dir)).resolves.toEqual({
+        version: '30.1.2',
+        chromiumVersion: '124.0.6367.243',
+        binaryPath: binary,
+        isPackaged: true,
+        resourcesPath: path.join(dir, 'resources')
+      });
+      expect(execFile).not.toHaveBeenCalled();
+    });
+
+    it('takes the version from the bundled package.json first', async () => {
+      writeBinary('my-app', 'Chrome/120.0.6099.291');
+      fs.mkdirSync(path.join(dir, 'resources', 'app'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'resources', 'app', 'package.json'), JSON.stringify({ devDependencies: { electron: '^28.3.3' } }));
+
+      expect((await detectPackagedApp(dir))?.version).toBe('28.3.3');
+    });
+
+    it('returns null for a directory without app resources', async () => {
+      writeBinary('tool', 'Electron/30.1.2');
+      await expect(detectPackagedApp(dir)).resolves.toBeNull();
+    });
+  });
+});
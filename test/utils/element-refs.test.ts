@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { ElementRefs } from '../../src/utils/element-refs.js';
+import { element } from '../fixtures.js';
+
+describe('ElementRefs', () => {
+  it('numbers the first snapshot of a window in order', () => {
+    const refs = new ElementRefs();
+    const assigned = refs.assign('w1', '', [element('e1', { text: 'Save' }), element('e2', { text: 'Cancel' })]);
+
+    expect(Array.from(assigned.entries())).toEqual([['e1', 'e1'], ['e2', 'e2']]);
+  });
+
+  it('keeps refs when elements move, are renamed or gain siblings', () => {
+    const refs = new ElementRefs();
+    refs.assign('w1', '', [
+      element('e1', { text: 'Save', domPath: 'html[1]/body[1]/button[1]' }),
+      element('e2', { text: 'Cancel', domPath: 'html[1]/body[1]/button[2]' }),
+      element('e3', { attributes: { 'data-testid': 'menu' }, text: 'Menu' })
+    ]);
+
+    const assigned = refs.assign('w1', '', [
+      element('e1', { text: 'Cancel', domPath: 'html[1]/body[1]/div[1]/button[1]' }),
+      element('e2', { text: 'Submit', domPath: 'html[1]/body[1]/button[1]' }),
+      element('e3', { attributes: { 'data-testid': 'menu' }, text: 'Close menu' }),
+      element('e4', { text: 'Help', domPath: 'html[1]/body[1]/button[2]' })
+    ]);
+
+    // The moved button keeps its ref by name, the renamed one by its path, the menu by test id
+    expect(assigned.get('e1')).toBe('e2');
+    expect(assigned.get('e2')).toBe('e1');
+    expect(assigned.get('e3')).toBe('e3');
+    expect(assigned.get('e4')).toBe('e4');
+  });
+
+  it('never reuses a ref, so vanished refs are known to be stale', () => {
+    const refs = new ElementRefs();
+    refs.assign('w1', '', [element('e1', { text: 'Save' }), element('e2', { text: 'Delete' })]);
+    const assigned = refs.assign('w1', '', [element('e1', { text: 'Save' }), element('e2', { text: 'Undo' })]);
+
+    expect(assigned.get('e2')).toBe('e3');
+    expect(refs.isStale('w1', 'e2')).toBe(true);
+    expect(refs.isStale('w1', 'e1')).toBe(false);
+    expect(refs.isStale('w1', 'e99')).toBe(false);
+  });
+
+  it('prefixes refs with the window and frame', () => {
+    const refs = new ElementRefs();
+    const frame = { type: 'iframe' as const, domPath: 'html[1]/body[1]/iframe[1]', label: 'iframe' };
+    const assigned = refs.assign('w2', 'w2.', [
+      element('e1', { text: 'Top' }),
+      element('e2', { text: 'Inside', frames: [frame] })
+    ]);
+
+    expect(assigned.get('e1')).toBe('w2.e1');
+    expect(assigned.get('e2')).toBe('w2.f1.e2');
+  });
+
+  it('does not match elements across frames', () => {
+    const refs = new ElementRefs();
+    const frame = { type: 'iframe' as const, domPath: 'html[1]/body[1]/iframe[1]', label: 'iframe' };
+    refs.assign('w1', '', [element('e1', { text: 'Save' })]);
+    const assigned = refs.assign('w1', '', [element('e1', { text: 'Save', frames: [frame] })]);
+
+    expect(assigned.get('e1')).toBe('f1.e2');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveLocalFiles, readDropFiles, MAX_DROP_BYTES, FILE_INPUT_SCRIPT, DROP_FILES_SCRIPT } from '../../src/utils/files.js';
+import { pageScript } from '../fixtures.js';
+
+describe('local files', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'electron-mcp-files-'));
+    fs.writeFileSync(path.join(dir, 'notes.MD'), '# Notes');
+    fs.writeFileSync(path.join(dir, 'data.bin'), Buffer.from([0, 1, 2]));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves paths and refuses missing files and directories', async () => {
+    await expect(resolveLocalFiles([path.join(dir, 'notes.MD')])).resolves.toEqual([path.join(dir, 'notes.MD')]);
+    await expect(resolveLocalFiles([path.join(dir, 'gone.txt')])).rejects.toThrow(`File not found: ${path.join(dir, 'gone.txt')}`);
+    await expect(resolveLocalFiles([dir])).rejects.toThrow(`Not a file: ${dir}`);
+  });
+
+  it('reads dropped files with their type and contents', async () => {
+    const [notes, data] = await readDropFiles([path.join(dir, 'notes.MD'), path.join(dir, 'data.bin')]);
+
+    expect(notes).toMatchObject({ name: 'notes.MD', type: 'text/markdown', data: Buffer.from('# Notes').toString('base64') });
+    expect(data).toMatchObject({ name: 'data.bin', type: '', data: 'AAEC' });
+  });
+
+  it('limits the total size of dropped files', async () => {
+    const large = path.join(dir, 'large.zip');
+    fs.writeFileSync(large, '');
+    fs.truncateSync(large, MAX_DROP_BYTES);
+
+    await expect(readDropFiles([large, path.join(dir, 'notes.MD')])).rejects.toThrow('Dropped files are limited to 25 MB in total');
+  });
+});
+
+interface FakeNode {
+  tagName: string;
+  querySelector?: () => FakeNode | null;
+  type?: string;
+  control?: FakeNode;
+  parentElement?: FakeNode;
+  inputs?: FakeNode[];
+}
+
+const findFileInput = pageScript<FakeNode | null>(FILE_INPUT_SCRIPT);
+const node = (fields: FakeNode): FakeNode => ({
+  querySelector(this: FakeNode) { return this.inputs?.[0] ?? null; },
+  ...fields
+});
+
+describe('finding file inputs', () => {
+  const input = node({ tagName: 'INPUT', type: 'file' });
+
+  it('takes the input itself, the one a label names, or one nearby', () => {
+    expect(findFileInput(input)).toBe(input);
+    expect(findFileInput(node({ tagName: 'LABEL', control: input }))).toBe(input);
+
+    const button = node({ tagName: 'BUTTON', parentElement: node({ tagName: 'DIV', inputs: [input] }) });
+    expect(findFileInput(button)).toBe(input);
+  });
+
+  it('stops looking a few ancestors up', () => {
+    let far: FakeNode = node({ tagName: 'BODY', inputs: [input] });
+    for (let i = 0; i < 4; i++) far = node({ tagName: 'DIV', parentElement: far });
+
+    expect(findFileInput(far)).toBeNull();
+  });
+});
+
+describe('dropping files', () => {
+  class FakeDataTransfer {
+    files: File[] = [];
+    items = { add: (file: File) => this.files.push(file) };
+  }
+  class FakeDragEvent extends Event {
+    dataTransfer: FakeDataTransfer;
+
+    constructor(type: string, init: EventInit & { dataTransfer: FakeDataTransfer }) {
+      super(type, init);
+      this.dataTransfer = init.dataTransfer;
+    }
+  }
+  const dropFiles = pageScript<{ accepted: boolean; names: string[] }>(DROP_FILES_SCRIPT);
+  const files = [{ name: 'notes.md', type: 'text/markdown', lastModified: 1000, path: '/tmp/notes.md', data: Buffer.from('# Notes').toString('base64') }];
+
+  function dropZone(handle: (event: FakeDragEvent) => void) {
+    const target = new EventTarget();
+    ['dragenter', 'dragover', 'drop'].forEach(type => target.addEventListener(type, event => handle(event as FakeDragEvent)));
+    return Object.assign(target, { getBoundingClientRect: () => ({ left: 0, top: 0, width: 100, height: 50 }) });
+  }
+
+  // Node has File and EventTarget but no drag and drop
+  beforeEach(() => {
+    vi.stubGlobal('DataTransfer', FakeDataTransfer);
+    vi.stubGlobal('DragEvent', FakeDragEvent);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers File objects with their contents and path', async () => {
+    const dropped: File[] = [];
+    const zone = dropZone(event => {
+      event.preventDefault();
+      if (event.type === 'drop') dropped.push(...event.dataTransfer.files);
+    });
+
+    expect(dropFiles(zone, files)).toEqual({ accepted: true, names: ['notes.md'] });
+    expect(dropped).toHaveLength(1);
+    expect(dropped[0]).toMatchObject({ name: 'notes.md', type: 'text/markdown', lastModified: 1000, path: '/tmp/notes.md' });
+    await expect(dropped[0].text()).resolves.toBe('# Notes');
+  });
+
+  it('says when the page did not accept the drop', () => {
+    // Accepting only dragenter is not enough
+    const zone = dropZone(event => {
+      if (event.type === 'dragenter') event.preventDefault();
+    });
+
+    expect(dropFiles(zone, files).accepted).toBe(false);
+  });
+});
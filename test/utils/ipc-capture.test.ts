@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+  START_IPC_CAPTURE_SCRIPT,
+  STOP_IPC_CAPTURE_SCRIPT,
+  DRAIN_IPC_SCRIPT,
+  INVOKE_IPC_SCRIPT,
+  SEND_IPC_SCRIPT
+} from '../../src/utils/ipc-capture.js';
+import { mainScript } from '../fixtures.js';
+
+interface CapturedMessage {
+  channel: string;
+  direction: string;
+  type: string;
+  args: unknown[];
+  result?: unknown;
+  error?: string;
+  webContentsId?: number;
+}
+
+class FakeWebContents extends EventEmitter {
+  sent: Array<[string, ...unknown[]]> = [];
+  mainFrame = { routingId: 1 };
+
+  constructor(readonly id: number) {
+    super();
+  }
+
+  send(channel: string, ...args: unknown[]) {
+    this.sent.push([channel, ...args]);
+  }
+
+  getProcessId() {
+    return 100 + this.id;
+  }
+}
+
+function fakeElectron() {
+  const first = new FakeWebContents(1);
+  const handlers = new Map<string, (...args: unknown[]) => unknown>();
+  return {
+    first,
+    handlers,
+    app: new EventEmitter(),
+    ipcMain: { _invokeHandlers: handlers },
+    webContents: {
+      getAllWebContents: () => [first],
+      fromId: (id: number) => (id === first.id ? first : undefined)
+    },
+    BrowserWindow: {
+      getFocusedWindow: () => null,
+      getAllWindows: () => [{ webContents: first }]
+    }
+  };
+}
+
+const start = mainScript(START_IPC_CAPTURE_SCRIPT);
+const stop = mainScript(STOP_IPC_CAPTURE_SCRIPT);
+const drain = mainScript<CapturedMessage[]>(DRAIN_IPC_SCRIPT);
+const invoke = mainScript<Promise<unknown>>(INVOKE_IPC_SCRIPT);
+const send = mainScript<number>(SEND_IPC_SCRIPT);
+
+describe('IPC capture', () => {
+  afterEach(() => {
+    delete (globalThis as { __mcpIpc?: unknown }).__mcpIpc;
+  });
+
+  it('records messages in both directions, including windows opened later', () => {
+    const electron = fakeElectron();
+    start(electron);
+
+    electron.first.emit('ipc-message', {}, 'save', { id: 1 });
+    electron.first.send('saved', true);
+    const second = new FakeWebContents(2);
+    electron.app.emit('web-contents-created', {}, second);
+    second.emit('ipc-message', {}, 'close');
+
+    expect(drain()).toMatchObject([
+      { channel: 'save', direction: 'renderer-to-main', type: 'send', args: [{ id: 1 }], webContentsId: 1 },
+      { channel: 'saved', direction: 'main-to-renderer', type: 'send', args: [true], webContentsId: 1 },
+      { channel: 'close', direction: 'renderer-to-main', webContentsId: 2 }
+    ]);
+    expect(electron.first.sent).toEqual([['saved', true]]);
+    expect(drain()).toEqual([]);
+  });
+
+  it('reads sendSync replies where Electron sends them', () => {
+    const electron = fakeElectron();
+    start(electron);
+    const replies: unknown[] = [];
+
+    const event = { _replyChannel: { sendReply: (value: unknown) => replies.push(value) } };
+    electron.first.emit('ipc-message-sync', event, 'get-config');
+    event._replyChannel.sendReply({ theme: 'dark' });
+
+    expect(replies).toEqual([{ theme: 'dark' }]);
+    expect(drain()).toMatchObject([{ channel: 'get-config', type: 'sendSync', result: { theme: 'dark' } }]);
+  });
+
+  it('drains invoke calls only once they settle', async () => {
+    const electron = fakeElectron();
+    let finish: (value: unknown) => void = () => undefined;
+    electron.handlers.set('load', () => new Promise(resolve => { finish = resolve; }));
+    electron.handlers.set('fail', async () => { throw new Error('Disk full'); });
+    start(electron);
+
+    const pending = electron.handlers.get('load')!({ sender: electron.first }, 'notes.txt');
+    await expect(electron.handlers.get('fail')!({ sender: electron.first })).rejects.toThrow('Disk full');
+    expect(drain()).toMatchObject([{ channel: 'fail', type: 'invoke', error: 'Disk full' }]);
+
+    finish('contents');
+    await pending;
+    expect(drain()).toMatchObject([{ channel: 'load', type: 'invoke', args: ['notes.txt'], result: 'contents' }]);
+  });
+
+  it('records nothing while stopped, and does not hook twice when started again', () => {
+    const electron = fakeElectron();
+    start(electron);
+    stop();
+    electron.first.emit('ipc-message', {}, 'ignored');
+    expect(drain()).toEqual([]);
+
+    start(electron);
+    electron.first.emit('ipc-message', {}, 'save');
+    expect(drain()).toHaveLength(1);
+  });
+
+  it('invokes handlers as the first window and sends to it', async () => {
+    const electron = fakeElectron();
+    electron.handlers.set('whoami', (event: unknown) => (event as { processId: number }).processId);
+
+    await expect(invoke(electron, 'whoami', [])).resolves.toBe(101);
+    await expect(invoke(electron, 'missing', [])).rejects.toThrow('No ipcMain.handle handler is registered for "missing"');
+
+    expect(send(electron, 'refresh', [1], null)).toBe(1);
+    expect(electron.first.sent).toEqual([['refresh', 1]]);
+    expect(() => send(electron, 'refresh', [], 7)).toThrow('No webContents with id 7');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Key } from 'webdriverio';
+import { parseChord, formatChord, keyValue, isNamedKey } from '../../src/utils/keys.js';
+
+describe('parseChord', () => {
+  it('splits modifiers from the key', () => {
+    expect(parseChord('Control+Shift+P')).toEqual({ modifiers: ['Control', 'Shift'], key: 'P' });
+  });
+
+  it('allows spaces around the parts', () => {
+    expect(parseChord('Control + P')).toEqual({ modifiers: ['Control'], key: 'P' });
+    expect(parseChord('Ctrl + S')).toEqual({ modifiers: ['Control'], key: 'S' });
+    expect(parseChord('Control+ p')).toEqual({ modifiers: ['Control'], key: 'p' });
+    expect(parseChord(' Alt +  F4 ')).toEqual({ modifiers: ['Alt'], key: 'F4' });
+  });
+
+  it('resolves key names and aliases case-insensitively', () => {
+    expect(parseChord('escape').key).toBe('Escape');
+    expect(parseChord('esc').key).toBe('Escape');
+    expect(parseChord('Shift+down').key).toBe('ArrowDown');
+    expect(parseChord('cmd+option+i').modifiers).toEqual(['Meta', 'Alt']);
+  });
+
+  it('maps CmdOrCtrl to the platform modifier', () => {
+    const expected = process.platform === 'darwin' ? 'Meta' : 'Control';
+    expect(parseChord('CmdOrCtrl+S')).toEqual({ modifiers: [expected], key: 'S' });
+  });
+
+  it('presses the plus key for a trailing "++"', () => {
+    expect(parseChord('Control++')).toEqual({ modifiers: ['Control'], key: '+' });
+    expect(parseChord('Control + +')).toEqual({ modifiers: ['Control'], key: '+' });
+    expect(parseChord('+')).toEqual({ modifiers: [], key: '+' });
+    expect(parseChord('Shift+plus').key).toBe('+');
+  });
+
+  it('presses a lone modifier as a key', () => {
+    expect(parseChord('Shift')).toEqual({ modifiers: [], key: 'Shift' });
+  });
+
+  it('rejects unknown modifiers and keys', () => {
+    expect(() => parseChord('Hyper+A')).toThrow(/Unknown modifier "Hyper"/);
+    expect(() => parseChord('Control+Foo')).toThrow(/Unknown key "Foo"/);
+  });
+
+  it('rejects a chord without a key', () => {
+    expect(() => parseChord('Control+')).toThrow(/Missing key/);
+  });
+});
+
+describe('formatChord', () => {
+  it('round-trips parsed chords', () => {
+    expect(formatChord(parseChord('ctrl + shift + arrowup'))).toBe('Control+Shift+ArrowUp');
+  });
+});
+
+describe('keyValue', () => {
+  it('maps named keys to WebDriver key values and keeps characters', () => {
+    expect(keyValue('Enter')).toBe(Key.Enter);
+    expect(keyValue('Meta')).toBe(Key.Command);
+    expect(keyValue('a')).toBe('a');
+    expect(isNamedKey('PageDown')).toBe(true);
+    expect(isNamedKey('a')).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+  CONTEXT_MENU_HOOK_SCRIPT,
+  CONTEXT_MENU_UNHOOK_SCRIPT,
+  GET_MENU_SCRIPT,
+  CLICK_MENU_SCRIPT,
+  TRIGGER_ACCELERATOR_SCRIPT
+} from '../../src/utils/menus.js';
+import { mainScript } from '../fixtures.js';
+
+interface FakeItem {
+  label: string;
+  type: string;
+  enabled: boolean;
+  visible: boolean;
+  clicks: number;
+  accelerator?: string;
+  submenu?: FakeMenu;
+  click: () => void;
+}
+
+class FakeMenu extends EventEmitter {
+  shown = false;
+
+  constructor(readonly items: FakeItem[]) {
+    super();
+  }
+
+  popup() {
+    this.shown = true;
+  }
+
+  // Electron emits menu-will-close however the menu is closed
+  closePopup() {
+    this.shown = false;
+    this.emit('menu-will-close');
+  }
+}
+
+const item = (label: string, overrides: Partial<FakeItem> = {}): FakeItem => {
+  const entry: FakeItem = {
+    label,
+    type: overrides.submenu ? 'submenu' : 'normal',
+    enabled: true,
+    visible: true,
+    clicks: 0,
+    click: () => { entry.clicks++; },
+    ...overrides
+  };
+  return entry;
+};
+
+const electron = {
+  Menu: Object.assign(FakeMenu, { getApplicationMenu: () => null }),
+  BrowserWindow: { getFocusedWindow: () => null, getAllWindows: () => [] }
+};
+const originalPopup = FakeMenu.prototype.popup;
+
+const hook = mainScript(CONTEXT_MENU_HOOK_SCRIPT);
+const unhook = mainScript(CONTEXT_MENU_UNHOOK_SCRIPT);
+const getMenu = mainScript<{ items: Array<{ label: string }> } | null>(GET_MENU_SCRIPT);
+const clickMenu = mainScript<{ label: string }>(CLICK_MENU_SCRIPT);
+const triggerAccelerator = mainScript<{ label: string; path: string[] }>(TRIGGER_ACCELERATOR_SCRIPT);
+
+describe('context menu capture', () => {
+  afterEach(() => {
+    unhook(electron);
+  });
+
+  it('shows the menu and keeps it until it is dismissed', () => {
+    hook(electron);
+    const menu = new FakeMenu([item('Copy'), item('Paste')]);
+    menu.popup();
+
+    expect(menu.shown).toBe(true);
+    expect(getMenu(electron, 'context')?.items.map(i => i.label)).toEqual(['Copy', 'Paste']);
+
+    // Escape: the menu closes without an item being picked
+    menu.emit('menu-will-close');
+    expect(getMenu(electron, 'context')).toBeNull();
+    expect(() => clickMenu(electron, 'context', ['Copy'])).toThrow('No context menu is open');
+  });
+
+  it('keeps a newer menu when an older one closes', () => {
+    hook(electron);
+    const first = new FakeMenu([item('Copy')]);
+    const second = new FakeMenu([item('Open Link')]);
+    first.popup();
+    second.popup();
+
+    first.emit('menu-will-close');
+    expect(getMenu(electron, 'context')?.items.map(i => i.label)).toEqual(['Open Link']);
+  });
+
+  it('closes the menu before clicking an item', () => {
+    hook(electron);
+    const copy = item('Copy');
+    const menu = new FakeMenu([copy]);
+    menu.popup();
+
+    expect(clickMenu(electron, 'context', ['copy'])).toMatchObject({ label: 'Copy' });
+    expect(copy.clicks).toBe(1);
+    expect(menu.shown).toBe(false);
+    expect(getMenu(electron, 'context')).toBeNull();
+  });
+
+  it('puts the original popup back', () => {
+    hook(electron);
+    expect(FakeMenu.prototype.popup).not.toBe(originalPopup);
+    expect(unhook(electron)).toBe(true);
+    expect(FakeMenu.prototype.popup).toBe(originalPopup);
+  });
+});
+
+describe('application menu', () => {
+  const save = item('&Save', { accelerator: 'CmdOrCtrl+S' });
+  const saveAs = item('Save &As...', { accelerator: 'CmdOrCtrl+Shift+S', enabled: false });
+  const zoomIn = item('Zoom In', { accelerator: 'CommandOrControl+Plus' });
+  const recent = item('Open Recent', { submenu: new FakeMenu([item('notes.md')]) });
+  const appMenu = new FakeMenu([
+    item('&File', { submenu: new FakeMenu([save, saveAs, item('', { type: 'separator' }), recent]) }),
+    item('View', { submenu: new FakeMenu([zoomIn, item('Developer Tools', { visible: false })]) })
+  ]);
+  const withMenu = { ...electron, Menu: { getApplicationMenu: () => appMenu } };
+
+  it('follows a label path ignoring case and mnemonics', () => {
+    expect(clickMenu(withMenu, 'app', ['file', 'SAVE'])).toMatchObject({ label: '&Save' });
+    expect(save.clicks).toBe(1);
+  });
+
+  it('explains paths that do not lead to a clickable item', () => {
+    expect(() => clickMenu(withMenu, 'app', ['File', 'Print'])).toThrow('No menu item "Print" in "File". Available: &Save, Save &As..., Open Recent');
+    expect(() => clickMenu(withMenu, 'app', ['File', 'Save', 'Now'])).toThrow('"File > Save" has no submenu');
+    expect(() => clickMenu(withMenu, 'app', ['File', 'Open Recent'])).toThrow('opens a submenu; add the item to click');
+    expect(() => clickMenu(withMenu, 'app', ['File', 'Save As...'])).toThrow('"File > Save As..." is disabled');
+    expect(() => clickMenu(withMenu, 'app', ['View', 'Developer Tools'])).toThrow('is hidden');
+  });
+
+  it('matches accelerators through aliases and modifier order', () => {
+    expect(triggerAccelerator(withMenu, 'commandorcontrol + s')).toEqual({ label: '&Save', path: ['&File', '&Save'] });
+    expect(triggerAccelerator(withMenu, 'CmdOrCtrl++')).toMatchObject({ label: 'Zoom In' });
+    expect(zoomIn.clicks).toBe(1);
+  });
+
+  it('refuses accelerators that are missing or disabled', () => {
+    expect(() => triggerAccelerator(withMenu, 'Shift+CmdOrCtrl+S')).toThrow('"&File > Save &As..." has the accelerator Shift+CmdOrCtrl+S but is disabled');
+    expect(() => triggerAccelerator(withMenu, 'Ctrl+P')).toThrow(/No menu item has the accelerator Ctrl\+P\. Accelerators in the menu: CmdOrCtrl\+S/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { waitForReadiness, describeReadiness } from '../../src/utils/readiness.js';
+
+// Polls the condition a few times, like waitUntil with a short timeout
+function fakeBrowser(overrides: Record<string, unknown> = {}) {
+  return {
+    waitUntil: vi.fn(async (condition: () => Promise<boolean>) => {
+      for (let i = 0; i < 5; i++) {
+        if (await condition()) return true;
+      }
+      throw new Error('waitUntil timed out');
+    }),
+    execute: vi.fn(),
+    ...overrides
+  };
+}
+
+describe('describeReadiness', () => {
+  it('names the condition', () => {
+    expect(describeReadiness({ mode: 'load' })).toBe('the first window to finish loading');
+    expect(describeReadiness({ mode: 'window', windowTitle: 'Dashboard', windowUrl: '/main' }))
+      .toBe('a window with title containing "Dashboard" and URL containing "/main"');
+    expect(describeReadiness({ mode: 'network_idle' })).toBe('network idle for 500ms');
+    expect(describeReadiness({ mode: 'network_idle', idleTime: 1000 })).toBe('network idle for 1000ms');
+  });
+});
+
+describe('waitForReadiness', () => {
+  it('rejects modes without the option they need', async () => {
+    await expect(waitForReadiness(fakeBrowser(), { mode: 'window' }, 100)).rejects.toThrow(/needs windowTitle or windowUrl/);
+    await expect(waitForReadiness(fakeBrowser(), { mode: 'selector' }, 100)).rejects.toThrow(/needs a selector/);
+    await expect(waitForReadiness(fakeBrowser(), { mode: 'predicate' }, 100)).rejects.toThrow(/needs a script/);
+  });
+
+  it('stays on the first window that matches', async () => {
+    const windows: Record<string, { title: string; url: string }> = {
+      splash: { title: 'Loading', url: 'file:///splash.html' },
+      main: { title: 'Dashboard - Notes', url: 'file:///index.html' }
+    };
+    let current = 'splash';
+    const browser = fakeBrowser({
+      getWindowHandles: async () => ['splash', 'main'],
+      switchToWindow: vi.fn(async (handle: string) => { current = handle; }),
+      getTitle: async () => windows[current].title,
+      getUrl: async () => windows[current].url
+    });
+
+    await waitForReadiness(browser, { mode: 'window', windowTitle: 'Dashboard' }, 100);
+    expect(current).toBe('main');
+  });
+
+  it('waits for network idle until nothing is in flight and nothing new finished', async () => {
+    const states = [
+      { readyState: 'complete', inflight: 1, finished: 3 },
+      { readyState: 'complete', inflight: 0, finished: 4 },
+      { readyState: 'complete', inflight: 0, finished: 4 }
+    ];
+    const browser = fakeBrowser({ execute: vi.fn(async () => states.shift()) });
+
+    await waitForReadiness(browser, { mode: 'network_idle', idleTime: 0 }, 100);
+    expect(states).toEqual([]);
+  });
+
+  it('is not idle while a request is in flight', async () => {
+    const browser = fakeBrowser({ execute: vi.fn(async () => ({ readyState: 'complete', inflight: 1, finished: 0 })) });
+
+    await expect(waitForReadiness(browser, { mode: 'network_idle', idleTime: 0 }, 100))
+      .rejects.toThrow('Timed out after 100ms waiting for network idle for 0ms');
+  });
+
+  it('reports the last error the condition threw', async () => {
+    const browser = fakeBrowser({ execute: vi.fn(async () => { throw new Error('SyntaxError: Unexpected token'); }) });
+
+    await expect(waitForReadiness(browser, { mode: 'predicate', script: 'return window.ready ===' }, 100))
+      .rejects.toThrow(/waiting for predicate "return window.ready ===" to return true \(last error: SyntaxError: Unexpected token\)/);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { zodToJsonSchema, withSessionIdProperty } from '../../src/utils/schema.js';
+import { ElectronMockApiTool } from '../../src/tools/main/mock-api.js';
+import { ElectronMainEvaluateTool } from '../../src/tools/main/evaluate.js';
+import { ElectronLaunchTool } from '../../src/tools/app/launch.js';
+
+type JsonSchema = { properties: Record<string, Record<string, unknown>> };
+
+const propertiesOf = (schema: z.ZodType) => (zodToJsonSchema(schema) as JsonSchema).properties;
+
+describe('zodToJsonSchema', () => {
+  it('accepts any JSON value for unknown and any', () => {
+    const properties = propertiesOf(z.object({
+      value: z.unknown().describe('Anything'),
+      raw: z.any()
+    }));
+
+    expect(properties.value).toEqual({ description: 'Anything' });
+    expect(properties.raw).not.toHaveProperty('type');
+  });
+
+  it('maps records to objects with typed values', () => {
+    expect(propertiesOf(z.object({ env: z.record(z.string()) })).env).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'string' }
+    });
+  });
+
+  it('lets electron_mock_api take an object as its canned value', () => {
+    const properties = propertiesOf(new ElectronMockApiTool().inputSchema);
+    expect(properties.value).not.toHaveProperty('type');
+    expect(properties.value.description).toMatch(/Canned value/);
+  });
+
+  it('lets main-process scripts take arguments of any type', () => {
+    expect(propertiesOf(new ElectronMainEvaluateTool().inputSchema).args).toMatchObject({ type: 'array', items: {} });
+    expect(propertiesOf(new ElectronLaunchTool().inputSchema).env).toMatchObject({ type: 'object', additionalProperties: { type: 'string' } });
+  });
+
+  it('adds sessionId to every tool schema once', () => {
+    const withSession = withSessionIdProperty(zodToJsonSchema(z.object({ ref: z.string() }))) as JsonSchema;
+    expect(Object.keys(withSession.properties)).toEqual(['ref', 'sessionId']);
+    expect(withSessionIdProperty(withSession)).toBe(withSession);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SCROLL_SCRIPT, CENTRE_IN_VIEW_SCRIPT, ScrollOptions, ScrollResult } from '../../src/utils/scroll.js';
+import { pageScript } from '../fixtures.js';
+
+// An element with a scroll range that clamps like the browser does
+class FakeElement {
+  scrollTop = 0;
+  scrollLeft = 0;
+  scrollHeight: number;
+  scrollWidth: number;
+  id = '';
+  overflow: string;
+  parentElement: FakeElement | null = null;
+  ownerDocument = { defaultView: { getComputedStyle: (el: FakeElement) => ({ overflowX: el.overflow, overflowY: el.overflow }) } };
+
+  constructor(readonly tagName: string, readonly clientWidth: number, readonly clientHeight: number, content: { width: number; height: number }, overflow = 'visible') {
+    this.scrollWidth = content.width;
+    this.scrollHeight = content.height;
+    this.overflow = overflow;
+  }
+
+  getAttribute(name: string) {
+    return name === 'aria-label' ? 'Messages' : null;
+  }
+
+  scrollBy({ left, top }: { left: number; top: number }) {
+    this.scrollLeft = Math.min(Math.max(this.scrollLeft + left, 0), this.scrollWidth - this.clientWidth);
+    this.scrollTop = Math.min(Math.max(this.scrollTop + top, 0), this.scrollHeight - this.clientHeight);
+  }
+}
+
+const scroll = pageScript<ScrollResult>(SCROLL_SCRIPT);
+const centreInView = pageScript<boolean>(CENTRE_IN_VIEW_SCRIPT);
+
+describe('scrolling', () => {
+  let root: FakeElement;
+  let body: FakeElement;
+
+  beforeEach(() => {
+    root = new FakeElement('HTML', 1000, 800, { width: 1000, height: 4000 });
+    body = new FakeElement('BODY', 1000, 4000, { width: 1000, height: 4000 });
+    body.parentElement = root;
+    vi.stubGlobal('document', { scrollingElement: root, documentElement: root, body });
+    vi.stubGlobal('window', { innerWidth: 1000, innerHeight: 800 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const run = (target: FakeElement | null, options: ScrollOptions) => scroll(target, options);
+
+  it('scrolls the window a page at a time by default', () => {
+    expect(run(null, { direction: 'down' })).toMatchObject({ container: 'the window', deltaX: 0, deltaY: 800, moved: true, top: 800, maxTop: 3200 });
+    expect(run(null, { direction: 'up', pages: 0.5 })).toMatchObject({ deltaY: -400, top: 400 });
+    expect(run(null, { direction: 'down', pixels: 120 })).toMatchObject({ deltaY: 120, top: 520 });
+  });
+
+  it('scrolls the closest scrollable container of the element', () => {
+    const list = new FakeElement('UL', 300, 500, { width: 300, height: 2000 }, 'auto');
+    list.id = 'inbox';
+    list.parentElement = body;
+    const item = new FakeElement('LI', 300, 40, { width: 300, height: 40 });
+    item.parentElement = list;
+
+    expect(run(item, { direction: 'down' })).toMatchObject({ container: 'ul#inbox "Messages"', deltaY: 500, top: 500, maxTop: 1500 });
+    expect(root.scrollTop).toBe(0);
+  });
+
+  it('ignores containers that hide their overflow or have nothing to scroll', () => {
+    const clipped = new FakeElement('DIV', 300, 500, { width: 300, height: 2000 }, 'hidden');
+    clipped.parentElement = body;
+    const short = new FakeElement('DIV', 300, 500, { width: 300, height: 500 }, 'auto');
+    short.parentElement = clipped;
+
+    expect(run(short, { direction: 'down' }).container).toBe('the window');
+  });
+
+  it('scrolls horizontally by the viewport width', () => {
+    const table = new FakeElement('DIV', 400, 300, { width: 1600, height: 300 }, 'scroll');
+    table.parentElement = body;
+
+    expect(run(table, { direction: 'right', pages: 2 })).toMatchObject({ deltaX: 800, deltaY: 0, left: 800, maxLeft: 1200 });
+    expect(run(table, { direction: 'left', pixels: 1000 })).toMatchObject({ deltaX: -1000, left: 0 });
+  });
+
+  it('jumps to the ends and says when there is nowhere further to go', () => {
+    expect(run(null, { direction: 'down', to: 'bottom' })).toMatchObject({ deltaY: 4000, top: 3200, moved: true });
+    expect(run(null, { direction: 'down' })).toMatchObject({ moved: false, top: 3200 });
+    expect(run(null, { direction: 'up', to: 'top' })).toMatchObject({ deltaY: -4000, top: 0 });
+  });
+
+  it('checks whether an offset from the centre is in the viewport', () => {
+    const button = { getBoundingClientRect: () => ({ left: 900, top: 100, width: 80, height: 20 }) };
+
+    expect(centreInView(button, 0, 0)).toBe(true);
+    expect(centreInView(button, 60, 0)).toBe(false);
+    expect(centreInView(button, 0, -120)).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots } from '../../src/utils/snapshot-diff.js';
+import { element, snapshot } from '../fixtures.js';
+
+describe('diffSnapshots', () => {
+  const box = { x: 10, y: 20, width: 100, height: 30 };
+
+  it('reports added, removed and changed elements by ref', () => {
+    const before = snapshot([
+      element('e1', { text: 'Save', boundingBox: box }),
+      element('e2', { tagName: 'input', role: 'checkbox', checked: false }),
+      element('e3', { text: 'Cancel' })
+    ], { timestamp: 1000 });
+    const after = snapshot([
+      element('e1', { text: 'Save', isEnabled: false, boundingBox: { ...box, y: 60 } }),
+      element('e2', { tagName: 'input', role: 'checkbox', checked: true, attributes: { 'data-state': 'on' } }),
+      element('e4', { text: 'Undo' })
+    ], { timestamp: 2000 });
+
+    const diff = diffSnapshots(before, after);
+
+    expect(diff.windowId).toBe('w1');
+    expect(diff.since).toBe(1000);
+    expect(diff.added.map(el => el.ref)).toEqual(['e4']);
+    expect(diff.removed.map(el => el.ref)).toEqual(['e3']);
+    expect(diff.changed).toEqual([
+      { element: after.elements.get('e1'), changes: ['enabled: true -> false', 'box: 100x30 at 10,20 -> 100x30 at 10,60'] },
+      { element: after.elements.get('e2'), changes: ['checked: false -> true', '@data-state: null -> "on"'] }
+    ]);
+  });
+
+  it('ignores layout noise of a pixel or two', () => {
+    const before = snapshot([element('e1', { boundingBox: box })]);
+    const after = snapshot([element('e1', { boundingBox: { ...box, x: 12, width: 99 } })]);
+
+    expect(diffSnapshots(before, after).changed).toEqual([]);
+  });
+
+  it('treats a missing focused flag as not focused', () => {
+    const before = snapshot([element('e1', { focused: undefined })]);
+    const after = snapshot([element('e1', { focused: true })]);
+
+    expect(diffSnapshots(before, after).changed[0].changes).toEqual(['focused: false -> true']);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { scopeOf, isWithin, matchesFilters, encodeCursor, decodeCursor } from '../../src/utils/snapshot-query.js';
+import { FrameSegment } from '../../src/types.js';
+import { element } from '../fixtures.js';
+
+const iframe: FrameSegment = { type: 'iframe', domPath: 'html[1]/body[1]/main[1]/iframe[1]', label: 'iframe' };
+
+describe('isWithin', () => {
+  const root = scopeOf(element('e1', { tagName: 'main', domPath: 'html[1]/body[1]/main[1]' }))!;
+
+  it('matches the root and its descendants', () => {
+    expect(isWithin(element('e1', { domPath: 'html[1]/body[1]/main[1]' }), root)).toBe(true);
+    expect(isWithin(element('e2', { domPath: 'html[1]/body[1]/main[1]/div[2]/button[1]' }), root)).toBe(true);
+  });
+
+  it('does not match siblings that share a path prefix', () => {
+    expect(isWithin(element('e3', { domPath: 'html[1]/body[1]/main[10]/button[1]' }), root)).toBe(false);
+    expect(isWithin(element('e4', { domPath: 'html[1]/body[1]/nav[1]/a[1]' }), root)).toBe(false);
+  });
+
+  it('matches elements in frames inside the root', () => {
+    expect(isWithin(element('e5', { domPath: 'html[1]/body[1]/input[1]', frames: [iframe] }), root)).toBe(true);
+  });
+
+  it('scopes a root inside a frame to that frame', () => {
+    const form = scopeOf(element('e6', { domPath: 'html[1]/body[1]/form[1]', frames: [iframe] }))!;
+
+    expect(isWithin(element('e7', { domPath: 'html[1]/body[1]/form[1]/input[1]', frames: [iframe] }), form)).toBe(true);
+    expect(isWithin(element('e8', { domPath: 'html[1]/body[1]/form[1]/input[1]' }), form)).toBe(false);
+  });
+
+  it('has no scope for elements without a DOM path', () => {
+    expect(scopeOf(element('e9'))).toBeNull();
+    expect(isWithin(element('e9'), root)).toBe(false);
+  });
+});
+
+describe('matchesFilters', () => {
+  const save = element('e1', { role: 'button', text: 'Save draft' });
+  const link = element('e2', { tagName: 'a', ariaLabel: 'Open settings' });
+
+  it('filters by role, or tag name without a role', () => {
+    expect(matchesFilters(save, { roles: ['Button'] })).toBe(true);
+    expect(matchesFilters(link, { roles: ['a', 'link'] })).toBe(true);
+    expect(matchesFilters(link, { roles: ['button'] })).toBe(false);
+  });
+
+  it('filters by text in the name, label or text, ignoring case', () => {
+    expect(matchesFilters(save, { text: 'DRAFT' })).toBe(true);
+    expect(matchesFilters(link, { text: 'settings' })).toBe(true);
+    expect(matchesFilters(link, { text: 'save' })).toBe(false);
+  });
+
+  it('matches everything without filters', () => {
+    expect(matchesFilters(save, {})).toBe(true);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trips the snapshot timestamp and offset', () => {
+    expect(decodeCursor(encodeCursor(1700000000000, 50))).toEqual({ timestamp: 1700000000000, offset: 50 });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('50')).toThrow(/Invalid cursor/);
+    expect(() => decodeCursor('abc:1')).toThrow(/Invalid cursor/);
+  });
+});